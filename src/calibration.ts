@@ -0,0 +1,330 @@
+/**
+ * Calibration: how far to trust each agent's self-reported confidence
+ *
+ * An entry's decision counts as wrong once later evidence contradicts it:
+ * - a bugfix entry that names it in relatedEntries, or, if the bugfix
+ *   names none, that changes a file the entry was the last to change, or
+ * - a review whose findings reference the entry (through relatedEntries,
+ *   or by naming the entry's ID). Findings of severity info don't count.
+ * Entries without such evidence count as having held up.
+ *
+ * Per agent, entries are bucketed by stated confidence, and each bucket
+ * compares the confidence stated with how often the decisions held up:
+ * a reliability curve. Calibrated confidence replaces a stated value with
+ * its bucket's observed rate, pulled towards the stated value while the
+ * bucket has few entries. Summaries pick key decisions by it.
+ *
+ * The profile is cached in .ledgersync/.cache/ until the ledger changes.
+ */
+
+import fs from 'node:fs';
+import type { LedgerEntry } from './types.js';
+import { isBugfixEntry, isReviewEntry, isRollupEntry } from './types.js';
+import { getLedgerPath, normalizeProjectPath, readLedger } from './ledger.js';
+import { getCachePath, writeCacheFile } from './ledger-index.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type EvidenceKind = 'bugfix' | 'review';
+
+export interface CalibrationEvidence {
+    kind: EvidenceKind;
+    entryId: string;               // The later bugfix or review
+    agent: string;
+    timestamp: string;
+    detail: string;                // Overlapping files, or the findings
+}
+
+export interface EntryOutcome {
+    entry: LedgerEntry;
+    confidence: number;            // As stated
+    held: boolean;
+    evidence: CalibrationEvidence[];
+}
+
+export interface CalibrationBin {
+    from: number;                  // Stated confidence range, from inclusive
+    to: number;                    // To exclusive (inclusive for the last bin)
+    entries: number;
+    held: number;
+    meanConfidence: number | null;
+    accuracy: number | null;       // Share of entries that held up
+}
+
+export interface AgentCalibration {
+    agent: string;
+    entries: number;               // Entries with a stated confidence
+    contradicted: number;
+    meanConfidence: number;
+    accuracy: number;
+    overconfidence: number;        // meanConfidence - accuracy; negative if underconfident
+    calibrationError: number;      // Mean |confidence - accuracy| per bin, weighted by entries
+    bins: CalibrationBin[];
+}
+
+export interface CalibrationProfile {
+    agents: Record<string, AgentCalibration>;
+}
+
+/** Confidence bins: [0, 0.2), [0.2, 0.4), ... [0.8, 1] */
+export const CALIBRATION_BINS = 5;
+
+/**
+ * How many entries' worth of weight the stated confidence keeps. A bin
+ * with this many entries moves calibrated confidence halfway to its
+ * observed accuracy.
+ */
+export const CALIBRATION_PRIOR_WEIGHT = 5;
+
+export const CALIBRATION_CACHE_FILE = 'calibration.json';
+
+const CALIBRATION_CACHE_VERSION = 1;
+
+interface CalibrationCache {
+    version: number;
+    ledgerBytes: number;           // ledger.jsonl size and mtime the profile was built from
+    ledgerMtimeMs: number;
+    profile: CalibrationProfile;
+}
+
+// ============================================
+// EVIDENCE
+// ============================================
+
+function changedPaths(entry: LedgerEntry): string[] {
+    return entry.artifacts.filter(a => a.action !== 'read').map(a => normalizeProjectPath(a.path));
+}
+
+// Entry IDs named in text, by their first 8 characters
+const ID_PREFIX_PATTERN = /\b[0-9a-f]{8}/gi;
+
+/**
+ * Later bugfixes and reviews that contradict each entry, keyed by entry ID.
+ * A bugfix blames the entries in its relatedEntries; without any, it
+ * blames the last earlier entry to change each file it changes.
+ */
+export function findContradictions(entries: LedgerEntry[]): Map<string, CalibrationEvidence[]> {
+    const evidence = new Map<string, CalibrationEvidence[]>();
+    const add = (entryId: string, item: CalibrationEvidence) => {
+        evidence.set(entryId, [...(evidence.get(entryId) ?? []), item]);
+    };
+
+    const seen = new Map<string, LedgerEntry>();          // Earlier entries by ID
+    const byPrefix = new Map<string, LedgerEntry>();      // ...and by the first 8 characters of their ID
+    const lastChange = new Map<string, LedgerEntry>();    // Path -> last earlier entry to change it
+
+    for (const later of entries) {
+        if (isBugfixEntry(later)) {
+            const fixed = changedPaths(later);
+            const blamed = new Map<string, string[]>();   // Entry ID -> files
+            const related = (later.relatedEntries ?? []).filter(id => seen.has(id));
+
+            if (related.length > 0) {
+                related.forEach(id => blamed.set(id, changedPaths(seen.get(id)!).filter(f => fixed.includes(f))));
+            } else {
+                for (const file of fixed) {
+                    const earlier = lastChange.get(file);
+                    if (earlier) {
+                        blamed.set(earlier.id, [...(blamed.get(earlier.id) ?? []), file]);
+                    }
+                }
+            }
+
+            for (const [entryId, files] of blamed) {
+                add(entryId, {
+                    kind: 'bugfix', entryId: later.id, agent: later.agent.name, timestamp: later.timestamp,
+                    detail: files.length > 0 ? `${later.bugfix.symptom} (${files.join(', ')})` : later.bugfix.symptom,
+                });
+            }
+        }
+
+        if (isReviewEntry(later)) {
+            const findings = later.review.findings.filter(f => f.severity !== 'info');
+            const related = (later.relatedEntries ?? []).filter(id => seen.has(id));
+            const cited = new Map<string, typeof findings>(related.map(id => [id, findings]));
+
+            for (const finding of findings) {
+                const named = new Set((`${finding.location} ${finding.issue}`.match(ID_PREFIX_PATTERN) ?? [])
+                    .map(prefix => byPrefix.get(prefix.toLowerCase())?.id)
+                    .filter((id): id is string => id !== undefined && !related.includes(id)));
+                named.forEach(id => cited.set(id, [...(cited.get(id) ?? []), finding]));
+            }
+
+            for (const [entryId, items] of cited) {
+                if (items.length > 0) {
+                    add(entryId, {
+                        kind: 'review', entryId: later.id, agent: later.agent.name, timestamp: later.timestamp,
+                        detail: items.map(f => `[${f.severity}] ${f.issue}`).join('; '),
+                    });
+                }
+            }
+        }
+
+        // Rollups summarize other entries; they make no decisions of their own
+        if (!isRollupEntry(later)) {
+            seen.set(later.id, later);
+            byPrefix.set(later.id.slice(0, 8).toLowerCase(), later);
+            changedPaths(later).forEach(file => lastChange.set(file, later));
+        }
+    }
+
+    return evidence;
+}
+
+/**
+ * Entries with a stated confidence, and whether they held up
+ */
+export function assessEntries(entries: LedgerEntry[]): EntryOutcome[] {
+    const contradictions = findContradictions(entries);
+
+    return entries
+        .filter(e => e.reasoning.confidence !== undefined && !isRollupEntry(e))
+        .map(entry => {
+            const evidence = contradictions.get(entry.id) ?? [];
+            return { entry, confidence: entry.reasoning.confidence!, held: evidence.length === 0, evidence };
+        });
+}
+
+// ============================================
+// RELIABILITY CURVES
+// ============================================
+
+function binIndex(confidence: number): number {
+    return Math.min(CALIBRATION_BINS - 1, Math.max(0, Math.floor(confidence * CALIBRATION_BINS)));
+}
+
+function buildBins(outcomes: EntryOutcome[]): CalibrationBin[] {
+    return Array.from({ length: CALIBRATION_BINS }, (_, i) => {
+        const inBin = outcomes.filter(o => binIndex(o.confidence) === i);
+        const held = inBin.filter(o => o.held).length;
+        return {
+            from: i / CALIBRATION_BINS,
+            to: (i + 1) / CALIBRATION_BINS,
+            entries: inBin.length,
+            held,
+            meanConfidence: inBin.length > 0 ? inBin.reduce((sum, o) => sum + o.confidence, 0) / inBin.length : null,
+            accuracy: inBin.length > 0 ? held / inBin.length : null,
+        };
+    });
+}
+
+export function buildCalibrationProfile(entries: LedgerEntry[]): CalibrationProfile {
+    const byAgent = new Map<string, EntryOutcome[]>();
+    for (const outcome of assessEntries(entries)) {
+        const agent = outcome.entry.agent.name;
+        byAgent.set(agent, [...(byAgent.get(agent) ?? []), outcome]);
+    }
+
+    const agents: Record<string, AgentCalibration> = {};
+    for (const [agent, outcomes] of byAgent) {
+        const bins = buildBins(outcomes);
+        const held = outcomes.filter(o => o.held).length;
+        const meanConfidence = outcomes.reduce((sum, o) => sum + o.confidence, 0) / outcomes.length;
+        const accuracy = held / outcomes.length;
+
+        agents[agent] = {
+            agent,
+            entries: outcomes.length,
+            contradicted: outcomes.length - held,
+            meanConfidence,
+            accuracy,
+            overconfidence: meanConfidence - accuracy,
+            calibrationError: bins.reduce((sum, b) => sum + b.entries * Math.abs(b.meanConfidence! - b.accuracy!), 0) / outcomes.length,
+            bins,
+        };
+    }
+
+    return { agents };
+}
+
+/**
+ * The calibration profile for the whole ledger, from the cache while the
+ * ledger hasn't changed since it was built
+ */
+export function loadCalibrationProfile(root: string): CalibrationProfile {
+    const ledgerPath = getLedgerPath(root);
+    if (!fs.existsSync(ledgerPath)) {
+        return { agents: {} };
+    }
+
+    const { size, mtimeMs } = fs.statSync(ledgerPath);
+    try {
+        const cache = JSON.parse(fs.readFileSync(getCachePath(ledgerPath, CALIBRATION_CACHE_FILE), 'utf-8')) as CalibrationCache;
+        if (cache.version === CALIBRATION_CACHE_VERSION && cache.ledgerBytes === size && cache.ledgerMtimeMs === mtimeMs) {
+            return cache.profile;
+        }
+    } catch {
+        // No cache yet, or an unreadable one: rebuild it
+    }
+
+    const profile = buildCalibrationProfile(readLedger(root));
+    try {
+        const cache: CalibrationCache = { version: CALIBRATION_CACHE_VERSION, ledgerBytes: size, ledgerMtimeMs: mtimeMs, profile };
+        writeCacheFile(ledgerPath, CALIBRATION_CACHE_FILE, JSON.stringify(cache));
+    } catch {
+        // The cache only saves time
+    }
+    return profile;
+}
+
+// ============================================
+// CALIBRATED CONFIDENCE
+// ============================================
+
+/**
+ * An agent's stated confidence adjusted by its track record at that level
+ */
+export function calibrateConfidence(profile: CalibrationProfile, agent: string, confidence: number): number {
+    const bin = profile.agents[agent]?.bins[binIndex(confidence)];
+    if (!bin || bin.entries === 0) {
+        return confidence;
+    }
+    return (bin.held + CALIBRATION_PRIOR_WEIGHT * confidence) / (bin.entries + CALIBRATION_PRIOR_WEIGHT);
+}
+
+/**
+ * Calibrated confidence of each entry, for generateSummary and compaction.
+ * Entries without a stated confidence stay without one.
+ */
+export function getCalibratedConfidence(profile: CalibrationProfile): (entry: LedgerEntry) => number | undefined {
+    return (entry) => entry.reasoning.confidence === undefined
+        ? undefined
+        : calibrateConfidence(profile, entry.agent.name, entry.reasoning.confidence);
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+function percent(value: number | null): string {
+    return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Markdown reliability curve for each agent
+ */
+export function formatCalibrationProfile(profile: CalibrationProfile): string {
+    const lines = ['## Confidence Calibration'];
+
+    for (const a of Object.values(profile.agents).sort((x, y) => y.entries - x.entries)) {
+        const lean = a.overconfidence > 0 ? 'overconfident' : 'underconfident';
+        lines.push(
+            '',
+            `### ${a.agent}`,
+            '',
+            `${a.entries} entries, ${a.contradicted} contradicted. Stated ${percent(a.meanConfidence)}, held up ${percent(a.accuracy)} ` +
+                `(${percent(Math.abs(a.overconfidence))} ${lean}; calibration error ${percent(a.calibrationError)}).`,
+            '',
+            '| Stated confidence | Entries | Mean stated | Held up |',
+            '|---|---|---|---|',
+            ...a.bins.map(b => `| ${percent(b.from)}–${percent(b.to)} | ${b.entries} | ${percent(b.meanConfidence)} | ${percent(b.accuracy)} |`),
+        );
+    }
+
+    if (lines.length === 1) {
+        lines.push('', '_No entries with a stated confidence._');
+    }
+    return lines.join('\n');
+}
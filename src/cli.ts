@@ -10,7 +10,6 @@ import chalk from 'chalk';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 import {
     findLedgersyncRoot,
     LEDGERSYNC_DIR,
@@ -18,8 +17,20 @@ import {
     CONFIG_FILE,
     readLastN,
     readLedger,
+    readByEntryType,
+    readBySession,
+    getFileHistory,
+    normalizeProjectPath,
+    isSameOrUnder,
     appendEntry,
+    addAppendHook,
     createEntry,
+    createHandoffEntry,
+    createTransitionEntry,
+    createImplementationEntry,
+    createBugfixEntry,
+    createReviewEntry,
+    DEFAULT_ACTION_TYPES,
     generateSummary,
     formatSummaryForAgent,
     validateLedger,
@@ -29,20 +40,28 @@ import {
 import {
     PROMISES_FILE,
     readPromises,
-    readActivePromises,
+    readLivePromises,
     appendPromise,
     createPromise,
-    resolvePromise,
+    supersedePromise,
     withdrawPromise,
+    findPromiseByPrefix,
+    getPromiseHistory,
+    migratePromisesToEvents,
+    getPromisesPath,
     getPromiseById,
     getPromisesByAgent,
+    getPromisesForFiles,
     validatePromises,
     formatPromiseSummary,
     getPromiseSummary,
+    sweepPromises,
+    isOverduePromise,
 } from './promises.js';
 import {
     REPORTS_FILE,
     readReports,
+    getReportsPath,
     appendReport,
     createWorkReport,
     addVerdict,
@@ -51,7 +70,80 @@ import {
     formatReportSummary,
     getReportSummary,
 } from './reports.js';
-import type { LedgerConfig, PromiseType, PromiseStatus, VerdictStatus } from './types.js';
+import { startMcpServer } from './mcp.js';
+import {
+    toOptionalDoc,
+    isGlob,
+    expandDocPattern,
+    resolveGroundingDocs,
+    listGroundingDocs,
+    hashDoc,
+    stampGroundingHashes,
+    detectGroundingDrift,
+} from './grounding.js';
+import { buildContextBundle, formatContextBundle } from './context.js';
+import { compactLedger, planCompaction } from './compaction.js';
+import { CHAINED_FILES, SEALS_FILE, getSealsPath, sealLedger, verifyChain, verifySeals } from './integrity.js';
+import { formatQuorumProgress } from './verdicts.js';
+import {
+    buildPromiseGraph,
+    findBlockedPromises,
+    findDependencyCycles,
+    findCriticalPath,
+    getActiveSubgraphIds,
+    formatPromiseGraph,
+} from './promise-graph.js';
+import type { GraphFormat } from './promise-graph.js';
+import { createViolationHook, recordPromiseViolations, scanLedgerForViolations } from './promise-violations.js';
+import type { PromiseViolation } from './promise-violations.js';
+import { buildScorecard, formatScorecard, formatPercent, formatDuration } from './scorecard.js';
+import type { ScorecardGrouping, ScorecardPeriod } from './scorecard.js';
+import { assessEntries, buildCalibrationProfile, getCalibratedConfidence, loadCalibrationProfile } from './calibration.js';
+import {
+    generateSigningKey,
+    loadSigningKey,
+    getKeyId,
+    getKeysDir,
+    getTrustedKeys,
+    decodePublicKey,
+    signRecord,
+    verifyRecordSignature,
+    isVerdictByHumanOrWitness,
+} from './signing.js';
+import {
+    LEGACY_DIR,
+    loadConfig,
+    saveConfig,
+    createDefaultConfig,
+    readRawConfig,
+    parseConfigFile,
+    isValidConfig,
+    getConfigValidationErrors,
+    migrateConfig,
+    findLegacyRoot,
+    migrateLegacyDir,
+} from './config.js';
+import { queryLedger, parseLedgerQuery, parseQueryDate } from './query.js';
+import { checkConstraints, evaluateConstraintRules, recordRuleViolations } from './constraints.js';
+import { getWorkingTreeAdditions, getDiffArtifacts } from './git.js';
+import { recordCommit, installCommitHook, uninstallCommitHook, explainLine, getCommitsPath } from './commits.js';
+import type { LedgerFilter } from './query.js';
+import { buildLedgerIndex, dropLedgerIndex, getLedgerIndexPath } from './ledger-index.js';
+import { isHandoffEntry } from './types.js';
+import type { KeyObject } from 'node:crypto';
+import type {
+    LedgerConfig,
+    LedgerEntry,
+    EntryType,
+    ArtifactChange,
+    OptionalDoc,
+    GroundingInfo,
+    ReviewFinding,
+    PromiseEntry,
+    PromiseType,
+    VerdictStatus,
+    WorkReport,
+} from './types.js';
 
 const LEDGERSYNC_MARKER = '# --- LedgerSync Integration ---';
 
@@ -60,14 +152,17 @@ function getTemplatesDir(): string {
 }
 
 function readConfig(root: string): LedgerConfig {
-    const configPath = getConfigPath(root);
-    const content = fs.readFileSync(configPath, 'utf-8');
-    return parseYaml(content) as LedgerConfig;
+    try {
+        return loadConfig(root);
+    } catch (e) {
+        console.log(chalk.red((e as Error).message));
+        console.log(chalk.dim('Fix the file, or run `ledgersync migrate` if it was written by an older version.'));
+        process.exit(1);
+    }
 }
 
 function writeConfig(root: string, config: LedgerConfig): void {
-    const configPath = getConfigPath(root);
-    fs.writeFileSync(configPath, stringifyYaml(config), 'utf-8');
+    saveConfig(root, config);
 }
 
 const program = new Command();
@@ -94,33 +189,16 @@ program
             return;
         }
 
+        if (fs.existsSync(path.join(cwd, LEGACY_DIR))) {
+            console.log(chalk.yellow(`Found an old ${LEGACY_DIR}/ folder. Run \`ledgersync migrate\` to upgrade it instead.`));
+            return;
+        }
+
         // Create directory
         fs.mkdirSync(ledgersyncDir, { recursive: true });
 
         // Create default config
-        const config: LedgerConfig = {
-            version: '0.1',
-            project: {
-                name: options.name,
-                description: 'Initialized by ledgersync',
-            },
-            philosophy: {
-                required: [],
-                optional: [],
-            },
-            codebases: [],
-            ledger: {
-                maxEntriesToLoad: 20,
-                summarizeAfter: 50,
-            },
-            constraints: [],
-        };
-
-        fs.writeFileSync(
-            path.join(ledgersyncDir, CONFIG_FILE),
-            stringifyYaml(config),
-            'utf-8'
-        );
+        writeConfig(cwd, createDefaultConfig(options.name));
 
         // Create empty ledger file
         fs.writeFileSync(path.join(ledgersyncDir, LEDGER_FILE), '', 'utf-8');
@@ -294,19 +372,26 @@ const groundCommand = program
 // ledgersync ground add <path>
 groundCommand
     .command('add <docPath>')
-    .description('Register a doc as required reading for all agents')
-    .action((docPath) => {
+    .description('Register a doc as required reading for all agents, or --optional reading for some paths')
+    .option('--optional', 'Only read when relevant; docPath may be a glob like docs/billing/*.md')
+    .option('--applies-to <globs...>', 'Paths an optional doc is relevant to, e.g. src/billing/** (default: all)')
+    .action((docPath, options) => {
         const root = findLedgersyncRoot();
         if (!root) {
             console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
             process.exit(1);
         }
 
+        if (options.appliesTo && !options.optional) {
+            console.log(chalk.red('--applies-to only works with --optional: required docs apply everywhere.'));
+            process.exit(1);
+        }
+
         const cwd = process.cwd();
         const resolvedPath = path.resolve(cwd, docPath);
         const relativePath = path.relative(cwd, resolvedPath);
 
-        if (!fs.existsSync(resolvedPath)) {
+        if (!(options.optional && isGlob(docPath)) && !fs.existsSync(resolvedPath)) {
             console.log(chalk.red(`File not found: ${docPath}`));
             console.log(chalk.dim('Create the file first, then register it.'));
             process.exit(1);
@@ -317,12 +402,47 @@ groundCommand
         // Normalize to forward slashes for cross-platform consistency
         const normalizedPath = relativePath.split(path.sep).join('/');
 
+        if (options.optional) {
+            const optional = (config.philosophy.optional ?? []).map(toOptionalDoc);
+            const existing = optional.find(o => o.path === normalizedPath);
+            const doc: OptionalDoc = options.appliesTo
+                ? { path: normalizedPath, appliesTo: options.appliesTo }
+                : { path: normalizedPath };
+
+            if (config.philosophy.required.includes(normalizedPath)) {
+                console.log(chalk.yellow(`Already registered as required: ${normalizedPath}`));
+                console.log(chalk.dim('Remove it first to make it optional.'));
+                return;
+            }
+
+            config.philosophy.optional = existing
+                ? optional.map(o => (o === existing ? doc : o))
+                : [...optional, doc];
+
+            const files = expandDocPattern(root, normalizedPath);
+            recordDocHashes(root, config, files);
+            writeConfig(root, config);
+
+            const matched = files.length;
+            console.log('');
+            console.log(chalk.green(`${existing ? 'Updated' : 'Registered'} optional: ${normalizedPath}`));
+            console.log(chalk.dim(options.appliesTo
+                ? `Agents will read this when touching ${options.appliesTo.join(', ')}.`
+                : 'Agents will read this when touching any file.'));
+            if (matched === 0) {
+                console.log(chalk.yellow('No files match this yet.'));
+            }
+            console.log('');
+            return;
+        }
+
         if (config.philosophy.required.includes(normalizedPath)) {
             console.log(chalk.yellow(`Already registered: ${normalizedPath}`));
             return;
         }
 
         config.philosophy.required.push(normalizedPath);
+        recordDocHashes(root, config, [normalizedPath]);
         writeConfig(root, config);
 
         console.log('');
@@ -343,10 +463,11 @@ groundCommand
         }
 
         const config = readConfig(root);
+        const optional = (config.philosophy.optional ?? []).map(toOptionalDoc);
         const cwd = process.cwd();
 
         console.log('');
-        if (config.philosophy.required.length === 0) {
+        if (config.philosophy.required.length === 0 && optional.length === 0) {
             console.log(chalk.dim('No grounding docs registered.'));
             console.log('');
             console.log('Grounding docs are files that define your product\'s DNA.');
@@ -355,15 +476,33 @@ groundCommand
             console.log('');
             console.log(chalk.dim('Register one:  ledgersync ground add ./docs/philosophy.md'));
         } else {
-            console.log(chalk.cyan('Grounding docs (required reading for all agents):'));
-            console.log('');
-            for (const doc of config.philosophy.required) {
-                const fullPath = path.resolve(cwd, doc);
-                const exists = fs.existsSync(fullPath);
-                if (exists) {
-                    console.log(`  ${chalk.green('*')} ${doc}`);
-                } else {
-                    console.log(`  ${chalk.red('!')} ${doc} ${chalk.red('(file not found)')}`);
+            if (config.philosophy.required.length > 0) {
+                console.log(chalk.cyan('Grounding docs (required reading for all agents):'));
+                console.log('');
+                for (const doc of config.philosophy.required) {
+                    const fullPath = path.resolve(cwd, doc);
+                    const exists = fs.existsSync(fullPath);
+                    if (exists) {
+                        console.log(`  ${chalk.green('*')} ${doc}`);
+                    } else {
+                        console.log(`  ${chalk.red('!')} ${doc} ${chalk.red('(file not found)')}`);
+                    }
+                }
+            }
+
+            if (optional.length > 0) {
+                if (config.philosophy.required.length > 0) console.log('');
+                console.log(chalk.cyan('Optional docs (read when relevant):'));
+                console.log('');
+                for (const doc of optional) {
+                    const matched = expandDocPattern(root, doc.path).length;
+                    const scope = chalk.dim(`→ ${doc.appliesTo?.join(', ') ?? 'all files'}`);
+                    if (matched > 0) {
+                        const count = isGlob(doc.path) ? chalk.dim(` (${matched} file${matched === 1 ? '' : 's'})`) : '';
+                        console.log(`  ${chalk.green('*')} ${doc.path}${count} ${scope}`);
+                    } else {
+                        console.log(`  ${chalk.red('!')} ${doc.path} ${chalk.red('(no matching files)')} ${scope}`);
+                    }
                 }
             }
         }
@@ -387,17 +526,32 @@ groundCommand
 
         const config = readConfig(root);
         const index = config.philosophy.required.indexOf(normalizedPath);
+        const optional = (config.philosophy.optional ?? []).map(toOptionalDoc);
+        const optionalIndex = optional.findIndex(o => o.path === normalizedPath || o.path === docPath);
+        let removed: string[];
 
         if (index === -1) {
             // Try matching the raw input too
             const rawIndex = config.philosophy.required.indexOf(docPath);
-            if (rawIndex === -1) {
+            if (rawIndex !== -1) {
+                removed = config.philosophy.required.splice(rawIndex, 1);
+            } else if (optionalIndex !== -1) {
+                const [doc] = config.philosophy.optional!.splice(optionalIndex, 1);
+                removed = expandDocPattern(root, toOptionalDoc(doc).path);
+            } else {
                 console.log(chalk.yellow(`Not registered: ${docPath}`));
                 return;
             }
-            config.philosophy.required.splice(rawIndex, 1);
         } else {
-            config.philosophy.required.splice(index, 1);
+            removed = config.philosophy.required.splice(index, 1);
+        }
+
+        // Keep hashes of docs that are still registered some other way
+        const remaining = new Set(listGroundingDocs(root, config));
+        for (const doc of removed) {
+            if (config.philosophy.hashes && !remaining.has(doc)) {
+                delete config.philosophy.hashes[doc];
+            }
         }
 
         writeConfig(root, config);
@@ -408,6 +562,94 @@ groundCommand
         console.log('');
     });
 
+// ledgersync ground for <files...>
+groundCommand
+    .command('for <files...>')
+    .description('List the grounding docs to read before touching these files')
+    .option('--json', 'Output as JSON')
+    .action((files: string[], options) => {
+        const root = requireRoot();
+        const config = readConfig(root);
+
+        // Accept paths relative to the current directory
+        const targets = files.map(f => path.relative(root, path.resolve(f)));
+        const docs = resolveGroundingDocs(root, config, targets);
+
+        if (options.json) {
+            console.log(JSON.stringify(docs, null, 2));
+            return;
+        }
+
+        console.log('');
+        if (docs.length === 0) {
+            console.log(chalk.dim('No grounding docs apply to these files.'));
+            console.log('');
+            return;
+        }
+
+        console.log(chalk.cyan('Read before touching these files:'));
+        console.log('');
+        for (const doc of docs) {
+            const why = doc.required
+                ? chalk.dim('required')
+                : chalk.dim(`for ${doc.files.join(', ')}`);
+            const missing = doc.required && !fs.existsSync(path.join(root, doc.path)) ? chalk.red(' (file not found)') : '';
+            console.log(`  ${chalk.green('*')} ${doc.path}${missing} ${why}`);
+        }
+        console.log('');
+    });
+
+// ledgersync ground drift
+groundCommand
+    .command('drift')
+    .description('List grounding docs that changed since agents last read them, and entries made against old versions')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const config = readConfig(root);
+        const drift = detectGroundingDrift(root, config, readLedger(root));
+
+        if (options.json) {
+            console.log(JSON.stringify(drift, null, 2));
+            return;
+        }
+
+        console.log('');
+        if (drift.length === 0) {
+            console.log(chalk.dim('No grounding docs registered.'));
+            console.log('');
+            return;
+        }
+
+        for (const doc of drift) {
+            if (doc.currentHash === null) {
+                console.log(`  ${chalk.red('!')} ${doc.path} ${chalk.red('(file not found)')}`);
+            } else if (doc.baselineHash === null) {
+                console.log(`  ${chalk.dim('?')} ${doc.path} ${chalk.dim('— no recorded version; re-register it or consult it in an entry')}`);
+            } else if (doc.changed) {
+                const since = doc.lastConsulted
+                    ? `last read by ${doc.lastConsulted.agent} on ${new Date(doc.lastConsulted.timestamp).toLocaleString()}`
+                    : 'registered, never read since';
+                console.log(`  ${chalk.yellow('~')} ${doc.path} ${chalk.yellow('changed')} ${chalk.dim(`since ${since}`)}`);
+            } else {
+                console.log(`  ${chalk.green('*')} ${doc.path} ${chalk.dim('up to date')}`);
+            }
+
+            for (const entry of doc.outdatedEntries) {
+                console.log(chalk.gray(`      ${entry.entryId.slice(0, 8)} ${entry.agent}: ${entry.summary} ${chalk.dim(`(read ${entry.hash.slice(0, 8)})`)}`));
+            }
+        }
+
+        const changed = drift.filter(d => d.changed).length;
+        const outdated = drift.reduce((sum, d) => sum + d.outdatedEntries.length, 0);
+        console.log('');
+        if (changed > 0 || outdated > 0) {
+            console.log(chalk.yellow(`${changed} doc${changed === 1 ? '' : 's'} changed; ${outdated} entr${outdated === 1 ? 'y was' : 'ies were'} made against an older version.`));
+            console.log(chalk.dim('Agents record the version they read with `--consulted <docs...>`.'));
+            console.log('');
+        }
+    });
+
 // ============================================
 // LOG COMMAND
 // ============================================
@@ -416,8 +658,18 @@ program
     .command('log')
     .description('See what your agents have been doing')
     .option('-n, --last <n>', 'Number of entries to show', '10')
-    .option('-a, --agent <name>', 'Filter by agent name')
+    .option('-a, --agent <names...>', 'Filter by agent name')
     .option('-f, --file <path>', 'Filter by file touched')
+    .option('--since <date>', 'Only entries at or after a date (ISO, or relative like 7d, 12h)')
+    .option('--until <date>', 'Only entries at or before a date')
+    .option('-t, --type <types...>', 'Filter by action type')
+    .option('-e, --entry-type <types...>', 'Filter by entry type (handoff, transition, implementation, bugfix, review, rollup)')
+    .option('--tag <tags...>', 'Filter by tag')
+    .option('--session <id>', 'Filter by session ID')
+    .option('--min-confidence <n>', 'Only entries with confidence at or above n')
+    .option('--max-confidence <n>', 'Only entries with confidence at or below n')
+    .option('-s, --search <text>', 'Search summary, intent and considerations')
+    .option('-q, --query <expr>', 'Query expression, e.g. \'agent:cursor AND (type:modify OR tag:auth)\'')
     .option('--json', 'Output as JSON')
     .action((options) => {
         const root = findLedgersyncRoot();
@@ -427,25 +679,41 @@ program
             process.exit(1);
         }
 
-        let entries = readLastN(root, parseInt(options.last, 10));
-
-        if (options.agent) {
-            entries = entries.filter(e => e.agent.name === options.agent);
-        }
-
-        if (options.file) {
-            entries = entries.filter(e =>
-                e.artifacts.some(a => a.path.includes(options.file))
-            );
+        const filter: LedgerFilter = {
+            agent: options.agent,
+            file: options.file,
+            since: options.since,
+            until: options.until,
+            type: options.type,
+            entryType: options.entryType,
+            tag: options.tag,
+            session: options.session,
+            minConfidence: parseConfidenceOption(options.minConfidence, '--min-confidence'),
+            maxConfidence: parseConfidenceOption(options.maxConfidence, '--max-confidence'),
+            text: options.search,
+        };
+        const filtered = Object.values(filter).some(v => v !== undefined) || options.query !== undefined;
+        const limit = parseCountOption(options.last, '--last');
+
+        let entries;
+        try {
+            entries = filtered
+                ? queryLedger(root, options.query ? { and: [filter, parseLedgerQuery(options.query)] } : filter, { limit })
+                : readLastN(root, limit);
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
         }
 
-        if (entries.length === 0) {
-            console.log(chalk.dim('No entries yet. Your agents will log here as they work.'));
+        if (options.json) {
+            console.log(JSON.stringify(entries, null, 2));
             return;
         }
 
-        if (options.json) {
-            console.log(JSON.stringify(entries, null, 2));
+        if (entries.length === 0) {
+            console.log(chalk.dim(filtered
+                ? 'No matching entries.'
+                : 'No entries yet. Your agents will log here as they work.'));
             return;
         }
 
@@ -479,7 +747,8 @@ program
 program
     .command('summary')
     .description('Get context to hand off to a new agent')
-    .option('-n, --last <n>', 'Number of entries to summarize', '20')
+    .option('-n, --last <n>', 'Number of entries to summarize (default: ledger.maxEntriesToLoad)')
+    .option('--handoff', 'Include state inherited from the latest handoff')
     .option('--json', 'Output as JSON')
     .action((options) => {
         const root = findLedgersyncRoot();
@@ -489,7 +758,11 @@ program
             process.exit(1);
         }
 
-        const summary = generateSummary(root, parseInt(options.last, 10));
+        const lastN = parseCountOption(options.last, '--last') ?? readConfig(root).ledger.maxEntriesToLoad;
+        const summary = generateSummary(root, lastN, {
+            handoff: options.handoff,
+            confidence: getCalibratedConfidence(loadCalibrationProfile(root)),
+        });
 
         if (options.json) {
             console.log(JSON.stringify(summary, null, 2));
@@ -498,6 +771,45 @@ program
 
         const markdown = formatSummaryForAgent(summary);
         console.log(markdown);
+
+        const promises = readPromises(root);
+        if (promises.length > 0) {
+            console.log('');
+            console.log(formatPromiseSummary(root, promises));
+        }
+    });
+
+// ledgersync context
+program
+    .command('context')
+    .description('Everything an agent needs before starting: grounding docs, constraints, handoff, file history and promises')
+    .option('-f, --files <paths...>', 'Focus on files you are about to touch')
+    .option('-b, --budget <tokens>', 'Trim lower-priority sections to fit this many tokens')
+    .option('-n, --last <n>', 'Number of entries to summarize (default: ledger.maxEntriesToLoad)')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const config = readConfig(root);
+
+        const budget = options.budget !== undefined ? parseInt(options.budget, 10) : undefined;
+        if (budget !== undefined && (isNaN(budget) || budget <= 0)) {
+            console.log(chalk.red(`Invalid budget: ${options.budget}`));
+            process.exit(1);
+        }
+
+        const bundle = buildContextBundle(root, config, {
+            // Accept paths relative to the current directory
+            files: options.files?.map((f: string) => path.relative(root, path.resolve(f))),
+            budget,
+            lastN: parseCountOption(options.last, '--last'),
+        });
+
+        if (options.json) {
+            console.log(JSON.stringify(bundle, null, 2));
+            return;
+        }
+
+        process.stdout.write(formatContextBundle(bundle));
     });
 
 // ============================================
@@ -526,23 +838,41 @@ program
         const configPath = getConfigPath(root);
         const ledgerPath = getLedgerPath(root);
 
+        let config: LedgerConfig | null = null;
         if (fs.existsSync(configPath)) {
-            console.log(`  ${chalk.green('*')} config.yaml`);
+            let raw: unknown;
+            let configErrors: string[];
+            try {
+                raw = readRawConfig(root);
+                configErrors = isValidConfig(raw) ? [] : getConfigValidationErrors();
+            } catch (e) {
+                configErrors = [(e as Error).message];
+            }
+
+            if (configErrors.length === 0) {
+                config = raw as LedgerConfig;
+                console.log(`  ${chalk.green('*')} config.yaml`);
+            } else {
+                console.log(`  ${chalk.red('!')} config.yaml`);
+                configErrors.forEach(e => {
+                    console.log(`    ${chalk.red(e)}`);
+                    issues++;
+                });
+                console.log(chalk.dim('    Run `ledgersync migrate` if it was written by an older version.'));
+            }
         } else {
             console.log(`  ${chalk.red('!')} config.yaml — missing`);
             issues++;
         }
 
+        // Schema, signatures and hash chain, in one read
+        const { valid, errors, entries } = validateLedger(root, config);
         if (fs.existsSync(ledgerPath)) {
-            const entries = readLedger(root);
-            console.log(`  ${chalk.green('*')} ledger.jsonl (${entries.length} entries)`);
+            console.log(`  ${chalk.green('*')} ledger.jsonl (${entries} entries)`);
         } else {
             console.log(`  ${chalk.red('!')} ledger.jsonl — missing`);
             issues++;
         }
-
-        // Validate ledger schema
-        const { valid, errors } = validateLedger(root);
         if (!valid) {
             errors.forEach(e => {
                 console.log(`    ${chalk.red(e)}`);
@@ -550,11 +880,63 @@ program
             });
         }
 
+        // Rebuild the optional index so it can never drift from the ledger
+        if (fs.existsSync(getLedgerIndexPath(ledgerPath))) {
+            const index = buildLedgerIndex(ledgerPath);
+            console.log(`  ${chalk.green('*')} index rebuilt (${index.offsets.length} entries)`);
+        }
+
+        // Promises and reports are optional, but must be valid if present. Reports are
+        // checked whenever there are promises: a resolved promise needs a verdict.
+        const hasPromises = fs.existsSync(getPromisesPath(root));
+        const optionalFiles: [string, boolean, () => { valid: boolean; errors: string[] }, () => unknown[]][] = [
+            [PROMISES_FILE, hasPromises, () => validatePromises(root), () => readPromises(root)],
+            [REPORTS_FILE, hasPromises || fs.existsSync(getReportsPath(root)), () => validateReports(root), () => readReports(root)],
+        ];
+
+        for (const [name, present, validate, read] of optionalFiles) {
+            if (!present) {
+                continue;
+            }
+
+            const result = validate();
+            if (result.valid) {
+                console.log(`  ${chalk.green('*')} ${name} (${read().length} entries)`);
+            } else {
+                console.log(`  ${chalk.red('!')} ${name}`);
+                result.errors.forEach(e => {
+                    console.log(`    ${chalk.red(e)}`);
+                    issues++;
+                });
+            }
+        }
+
+        // Unsigned verdicts are a warning until signing.requireVerdictSignatures makes them errors
+        if (config && fs.existsSync(getReportsPath(root))) {
+            const unsigned = readReports(root).filter(r => isVerdictByHumanOrWitness(r) && !r.signature);
+            if (unsigned.length > 0 && !config.signing?.requireVerdictSignatures) {
+                console.log(`  ${chalk.yellow('~')} ${unsigned.length} unsigned human/witness verdict${unsigned.length === 1 ? '' : 's'} — anyone can log as "human"; see \`ledgersync keys\``);
+            }
+        }
+
+        // Sealed history must still be there, unchanged
+        const seals = verifySeals(path.join(root, LEDGERSYNC_DIR));
+        if (seals.valid && seals.seals > 0) {
+            console.log(`  ${chalk.green('*')} ${SEALS_FILE} (${seals.seals} seals intact)`);
+        } else if (!seals.valid) {
+            console.log(`  ${chalk.red('!')} ${SEALS_FILE}`);
+            seals.errors.forEach(e => {
+                console.log(`    ${chalk.red(e)}`);
+                issues++;
+            });
+        }
+
         // Check grounding docs
         console.log('');
         console.log(chalk.cyan('Grounding docs:'));
-        const config = readConfig(root);
-        if (config.philosophy.required.length === 0) {
+        if (!config) {
+            console.log(chalk.dim('  Skipped: config.yaml is invalid.'));
+        } else if (config.philosophy.required.length === 0) {
             console.log(chalk.dim('  No grounding docs registered.'));
         } else {
             for (const doc of config.philosophy.required) {
@@ -568,6 +950,16 @@ program
             }
         }
 
+        // Changed docs are warnings: agents may be working from an old version
+        if (config) {
+            for (const doc of detectGroundingDrift(root, config, readLedger(root))) {
+                if (doc.changed && doc.currentHash) {
+                    const reader = doc.lastConsulted ? `last read by ${doc.lastConsulted.agent}` : 'not read since registered';
+                    console.log(`  ${chalk.yellow('~')} ${doc.path} — changed, no agent has read this version (${reader})`);
+                }
+            }
+        }
+
         // Check agent integration
         console.log('');
         console.log(chalk.cyan('Agent integration:'));
@@ -606,138 +998,970 @@ program
     });
 
 // ============================================
-// ADD COMMAND (Manual entry)
+// MIGRATE COMMAND
 // ============================================
 
 program
-    .command('add')
-    .description('Manually log a decision to the ledger')
-    .requiredOption('-s, --summary <text>', 'What you did')
-    .requiredOption('-i, --intent <text>', 'Why you did it')
-    .option('-t, --type <type>', 'Action type (create, modify, delete, analyze, plan, debug, refactor)', 'other')
-    .option('-a, --agent <name>', 'Agent name', 'human')
-    .option('-f, --files <paths...>', 'Files touched')
-    .option('--tags <tags...>', 'Tags')
+    .command('migrate')
+    .description('Upgrade an older project: .metacog/ folder, config.yaml and promise statuses')
+    .option('--dry-run', 'Show what would change without writing anything')
     .action((options) => {
-        const root = findLedgersyncRoot();
+        const ledgersyncRoot = findLedgersyncRoot();
+        const legacyRoot = findLegacyRoot();
+        // Prefer a legacy folder that is closer than the current one
+        const root = legacyRoot && (!ledgersyncRoot || legacyRoot.length > ledgersyncRoot.length)
+            ? legacyRoot
+            : ledgersyncRoot;
 
         if (!root) {
-            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            console.log(chalk.red(`No .ledgersync/ or ${LEGACY_DIR}/ folder found. Run \`ledgersync init\` first.`));
             process.exit(1);
         }
 
-        const entry = createEntry(
-            { name: options.agent },
-            { type: options.type, summary: options.summary },
-            { intent: options.intent },
-            {
-                artifacts: options.files?.map((f: string) => ({ path: f, action: 'modified' as const })) ?? [],
-                tags: options.tags,
+        let changed = 0;
+
+        if (fs.existsSync(path.join(root, LEGACY_DIR))) {
+            if (options.dryRun) {
+                console.log(`  ${chalk.cyan('~')} rename ${LEGACY_DIR}/ → ${LEDGERSYNC_DIR}/`);
+            } else {
+                try {
+                    migrateLegacyDir(root);
+                } catch (e) {
+                    console.log(chalk.red((e as Error).message));
+                    process.exit(1);
+                }
+                console.log(`  ${chalk.green('*')} renamed ${LEGACY_DIR}/ → ${LEDGERSYNC_DIR}/`);
             }
-        );
+            changed++;
+        }
 
-        appendEntry(root, entry);
+        // On a dry run the config is still in the old folder
+        const dir = options.dryRun && fs.existsSync(path.join(root, LEGACY_DIR)) ? LEGACY_DIR : LEDGERSYNC_DIR;
+        const configPath = path.join(root, dir, CONFIG_FILE);
 
-        console.log(chalk.green('Logged.'));
-        console.log(chalk.dim(`  ID: ${entry.id}`));
-    });
+        if (fs.existsSync(configPath)) {
+            let migrated;
+            try {
+                migrated = migrateConfig(parseConfigFile(configPath));
+            } catch (e) {
+                console.log(chalk.red((e as Error).message));
+                process.exit(1);
+            }
 
-// ============================================
-// PROMISE COMMANDS (v0.2 — hidden for now)
-// ============================================
+            for (const change of migrated.changes) {
+                console.log(`  ${options.dryRun ? chalk.cyan('~') : chalk.green('*')} config.yaml ${change}`);
+            }
 
-/*
-const promiseCommand = program
-    .command('promise')
-    .description('Manage promises (bilateral commitments)');
+            if (!isValidConfig(migrated.config)) {
+                console.log(chalk.red('config.yaml still has problems migrate can\'t fix:'));
+                getConfigValidationErrors().forEach(e => console.log(`    ${chalk.red(e)}`));
+                process.exit(1);
+            }
 
-promiseCommand
-    .command('add')
-    .description('Make a new promise')
-    .requiredOption('-t, --type <type>', 'Promise type (will-do, will-not-do, will-maintain, will-provide)')
-    .requiredOption('-s, --summary <text>', 'What you are promising')
-    .option('--to <agent>', 'Target agent (default: * for any)', '*')
-    .option('--agent <name>', 'Your agent name', 'human')
-    .option('--scope <scope>', 'Promise scope (session, project, permanent)', 'project')
-    .option('--conditions <items...>', 'Conditions for the promise')
-    .option('--files <paths...>', 'Related files')
-    .option('--tags <tags...>', 'Tags')
-    .action((options) => {
-        const root = findLedgersyncRoot();
-        if (!root) {
-            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
-            process.exit(1);
+            if (migrated.changes.length > 0) {
+                if (!options.dryRun) writeConfig(root, migrated.config);
+                changed++;
+            }
         }
 
-        const validTypes = ['will-do', 'will-not-do', 'will-maintain', 'will-provide'];
-        if (!validTypes.includes(options.type)) {
-            console.log(chalk.red(`Invalid type. Must be one of: ${validTypes.join(', ')}`));
-            process.exit(1);
+        if (!options.dryRun && fs.existsSync(getPromisesPath(root))) {
+            const promises = migratePromisesToEvents(root);
+            if (promises > 0) {
+                console.log(`  ${chalk.green('*')} promises.jsonl: ${promises} status${promises === 1 ? '' : 'es'} converted to status events`);
+                changed++;
+            }
         }
 
-        const promise = createPromise(
-            { agent: options.agent },
-            { agent: options.to, scope: options.scope },
-            {
-                type: options.type as PromiseType,
-                summary: options.summary,
-                conditions: options.conditions,
-            },
-            options.files ? { artifacts: options.files } : undefined,
-            options.tags
-        );
-
-        appendPromise(root, promise);
-
-        console.log(chalk.green('Promise created'));
-        console.log(chalk.gray(`   ID: ${promise.id}`));
-        console.log(chalk.gray(`   ${options.agent} -> ${options.to}: ${options.type} "${options.summary}"`));
+        if (changed === 0) {
+            console.log(chalk.dim('Already up to date.'));
+        } else if (options.dryRun) {
+            console.log(chalk.dim('Dry run: nothing written.'));
+        } else {
+            console.log(chalk.green('Migrated.'));
+        }
     });
 
-promiseCommand
-    .command('list')
-    .description('List promises')
-    .option('-n, --last <n>', 'Number of promises to show', '10')
-    .option('-a, --agent <name>', 'Filter by promiser agent')
-    .option('-s, --status <status>', 'Filter by status (active, fulfilled, broken, withdrawn, superseded)')
-    .option('--active', 'Show only active promises')
+// ============================================
+// CHECK COMMAND
+// ============================================
+
+program
+    .command('check')
+    .description('Find uncited constraints and constraint rule violations (exits 1 if any)')
+    .option('--severity <levels...>', 'Constraint severities to enforce', ['critical', 'high'])
+    .option('--since <date>', 'Only check entries at or after a date (ISO, or relative like 7d)')
+    .option('-a, --agent <names...>', 'Only check entries by these agents')
+    .option('--no-working-tree', 'Skip checking uncommitted changes against constraint rules')
+    .option('--record', 'Log critical rule violations as a review entry')
     .option('--json', 'Output as JSON')
     .action((options) => {
-        const root = findLedgersyncRoot();
-        if (!root) {
-            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
-            process.exit(1);
-        }
-
-        let promises = options.active ? readActivePromises(root) : readPromises(root);
+        const root = requireRoot();
+        const config = readConfig(root);
 
-        if (options.agent) {
-            promises = promises.filter(p => p.promiser.agent === options.agent);
+        const validSeverities = ['critical', 'high', 'medium', 'low'];
+        const invalid = (options.severity as string[]).filter(s => !validSeverities.includes(s));
+        if (invalid.length > 0) {
+            console.log(chalk.red(`Invalid severity: ${invalid.join(', ')}. Must be one of: ${validSeverities.join(', ')}`));
+            process.exit(1);
         }
 
-        if (options.status) {
-            promises = promises.filter(p => p.status === options.status);
+        let entries;
+        let ruleViolations;
+        try {
+            entries = queryLedger(root, { since: options.since, agent: options.agent });
+            ruleViolations = evaluateConstraintRules(entries, config, {
+                severities: options.severity,
+                reviews: readByEntryType(root, 'review'),
+                workingTree: options.workingTree ? getWorkingTreeAdditions(root) : null,
+            });
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
         }
 
-        promises = promises.slice(-parseInt(options.last, 10));
+        const violations = checkConstraints(entries, config, options.severity);
+        const recorded = options.record ? recordRuleViolations(root, ruleViolations) : null;
 
-        if (promises.length === 0) {
-            console.log(chalk.yellow('No promises found.'));
-            return;
+        if (options.json) {
+            console.log(JSON.stringify({ uncited: violations, rules: ruleViolations, recordedEntryId: recorded?.id ?? null }, null, 2));
+        } else if (violations.length === 0 && ruleViolations.length === 0) {
+            console.log(chalk.green(`Checked ${entries.length} entries — every ${options.severity.join('/')} constraint was cited and no rules were broken.`));
+        } else {
+            console.log('');
+            for (const v of violations) {
+                const severityColor = v.constraint.severity === 'critical' ? chalk.red : chalk.yellow;
+                console.log(`${severityColor(`[${v.constraint.severity}]`)} ${chalk.bold(v.constraint.id)} ${chalk.dim('not cited by')} ${getAgentColor(v.agent)(v.agent)}`);
+                console.log(`  ${v.summary}`);
+                console.log(chalk.gray(`  Files: ${v.files.join(', ')}`));
+                console.log(chalk.dim(`  Entry: ${v.entryId.slice(0, 8)}... | ${new Date(v.timestamp).toLocaleString()}`));
+                console.log('');
+            }
+            for (const v of ruleViolations) {
+                const severityColor = v.constraint.severity === 'critical' ? chalk.red : chalk.yellow;
+                console.log(`${severityColor(`[${v.constraint.severity}]`)} ${chalk.bold(v.constraint.id)} ${chalk.dim(v.rule)} ${chalk.cyan(v.location)}`);
+                console.log(`  ${v.issue}`);
+                if (v.entryId && v.agent && v.timestamp) {
+                    console.log(chalk.dim(`  Entry: ${v.entryId.slice(0, 8)}... by ${v.agent} | ${new Date(v.timestamp).toLocaleString()}`));
+                } else {
+                    console.log(chalk.dim('  Working tree'));
+                }
+                console.log('');
+            }
+            if (violations.length > 0) {
+                console.log(chalk.yellow(`${violations.length} uncited constraint${violations.length === 1 ? '' : 's'} in ${entries.length} entries.`));
+                console.log(chalk.dim('Agents should list constraints they followed in grounding.constraintsApplied.'));
+            }
+            if (ruleViolations.length > 0) {
+                console.log(chalk.yellow(`${ruleViolations.length} constraint rule violation${ruleViolations.length === 1 ? '' : 's'}.`));
+            }
+            if (recorded) {
+                console.log(chalk.dim(`Critical violations logged as review entry ${recorded.id.slice(0, 8)}...`));
+            }
+        }
+
+        if (violations.length > 0 || ruleViolations.length > 0) {
+            process.exit(1);
+        }
+    });
+
+// ============================================
+// INDEX COMMAND
+// ============================================
+
+program
+    .command('index')
+    .description('Build an on-disk index for fast lookups on large ledgers')
+    .option('--drop', 'Remove the index and go back to scanning the ledger')
+    .action((options) => {
+        const root = requireRoot();
+        const ledgerPath = getLedgerPath(root);
+
+        if (options.drop) {
+            dropLedgerIndex(ledgerPath);
+            console.log(chalk.green('Index removed.'));
+            return;
+        }
+
+        const index = buildLedgerIndex(ledgerPath);
+        console.log(chalk.green(`Indexed ${index.offsets.length} entries.`));
+        console.log(chalk.dim(`  ${path.relative(process.cwd(), getLedgerIndexPath(ledgerPath))}`));
+        console.log(chalk.dim('  Kept up to date on every append; `ledgersync validate` rebuilds it.'));
+    });
+
+// ============================================
+// COMPACT COMMAND
+// ============================================
+
+program
+    .command('compact')
+    .description('Roll older entries up into summary entries (runs automatically after logging)')
+    .option('--dry-run', 'Show what would be rolled up without writing')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const config = readConfig(root);
+        const rollups = compactLedger(root, config, { dryRun: options.dryRun });
+
+        if (options.json) {
+            console.log(JSON.stringify(rollups, null, 2));
+            return;
+        }
+
+        if (rollups.length === 0) {
+            const { pending } = planCompaction(readLedger(root), config);
+            const { summarizeAfter, maxEntriesToLoad } = config.ledger;
+            console.log(chalk.dim(`Nothing to roll up: ${pending} entries since the last rollup.`));
+            console.log(chalk.dim(`  Rolls up ${summarizeAfter} at a time, keeping the latest ${maxEntriesToLoad} raw (ledger.summarizeAfter, ledger.maxEntriesToLoad).`));
+            return;
+        }
+
+        for (const rollup of rollups) {
+            const info = rollup.rollup!;
+            console.log(`${options.dryRun ? chalk.yellow('Would roll up') : chalk.green('Rolled up')} ${info.entryCount} entries ${chalk.dim(`(${info.from.slice(0, 10)} – ${info.to.slice(0, 10)})`)}`);
+            console.log(chalk.dim(`  ${info.agents.join(', ')}; ${info.files.length} files, ${info.decisions.length} decisions, ${info.uncertainties.length} open questions`));
+        }
+        if (!options.dryRun) {
+            console.log(chalk.dim('Original entries are unchanged.'));
+        }
+    });
+
+// ============================================
+// SEAL COMMAND
+// ============================================
+
+program
+    .command('seal')
+    .description('Checkpoint the ledger, promises and reports so later rewrites are detectable (commit seals.jsonl)')
+    .option('--verify', 'Check the hash chains and existing seals instead of writing a seal')
+    .option('--by <name>', 'Who is sealing', 'human')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const dir = path.join(root, LEDGERSYNC_DIR);
+
+        const chains = CHAINED_FILES.map(name => ({ name, ...verifyChain(path.join(dir, name)) }));
+        const seals = verifySeals(dir);
+        const errors = [
+            ...chains.filter(c => c.error).map(c => `${c.name} ${c.error}`),
+            ...seals.errors,
+        ];
+
+        if (options.verify || errors.length > 0) {
+            if (options.json) {
+                console.log(JSON.stringify({ valid: errors.length === 0, chains, seals }, null, 2));
+            } else {
+                console.log('');
+                for (const chain of chains) {
+                    const legacy = chain.unlinked > 0 ? chalk.dim(`, ${chain.unlinked} without prevHash`) : '';
+                    const mark = chain.valid ? chalk.green('*') : chalk.red('!');
+                    console.log(`  ${mark} ${chain.name} (${chain.chained} chained${legacy})`);
+                }
+                console.log(`  ${seals.valid ? chalk.green('*') : chalk.red('!')} ${SEALS_FILE} (${seals.seals} seals)`);
+                console.log('');
+                if (errors.length > 0) {
+                    errors.forEach(e => console.log(chalk.red(`  ${e}`)));
+                    console.log('');
+                    if (!options.verify) {
+                        console.log(chalk.red('Not sealed: history was changed since it was written. Investigate before sealing.'));
+                    }
+                } else {
+                    console.log(chalk.green('History is intact.'));
+                }
+            }
+            if (errors.length > 0) {
+                process.exit(1);
+            }
+            return;
+        }
+
+        const seal = sealLedger(dir, options.by);
+
+        if (options.json) {
+            console.log(JSON.stringify(seal, null, 2));
+            return;
+        }
+
+        console.log(chalk.green(`Sealed: ${seal.hash}`));
+        for (const [name, file] of Object.entries(seal.files)) {
+            console.log(chalk.dim(`  ${name}: ${file.lines} lines`));
+        }
+        console.log('');
+        console.log(chalk.dim(`Commit ${path.relative(process.cwd(), getSealsPath(dir))} to make the checkpoint tamper-evident.`));
+    });
+
+// ============================================
+// KEYS COMMANDS
+// ============================================
+
+const keysCommand = program
+    .command('keys')
+    .description('Manage Ed25519 signing keys and which ones config.yaml trusts');
+
+keysCommand
+    .command('generate <agent>')
+    .description('Create a signing key for an agent (stored outside the repo)')
+    .option('--trust', 'Also add the public key to config.yaml')
+    .action((agent, options) => {
+        let key: { privateKeyPath: string; publicKey: string };
+        try {
+            key = generateSigningKey(agent);
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
+        }
+
+        console.log(chalk.green(`Key created for ${agent}`));
+        console.log(chalk.dim(`  Private key: ${key.privateKeyPath} (keep it out of the repo)`));
+        console.log(chalk.dim(`  Key ID: ${getKeyId(key.publicKey)}`));
+        console.log('');
+
+        if (options.trust) {
+            const root = requireRoot();
+            trustKey(root, agent, key.publicKey);
+            console.log(chalk.green(`Trusted in config.yaml as ${agent}.`));
+        } else {
+            console.log('Public key (add under signing.keys in config.yaml, or run `ledgersync keys trust`):');
+            console.log(`  ${agent}: ${key.publicKey}`);
+        }
+    });
+
+keysCommand
+    .command('trust <agent> <publicKey>')
+    .description('Allow an agent name to sign with a public key (base64 SPKI DER)')
+    .action((agent, publicKey) => {
+        const root = requireRoot();
+        try {
+            if (decodePublicKey(publicKey).asymmetricKeyType !== 'ed25519') {
+                throw new Error('not an Ed25519 key');
+            }
+        } catch (e) {
+            console.log(chalk.red(`Invalid public key: ${(e as Error).message}`));
+            process.exit(1);
+        }
+
+        trustKey(root, agent, publicKey);
+        console.log(chalk.green(`Trusted key ${getKeyId(publicKey)} for ${agent}.`));
+    });
+
+keysCommand
+    .command('list')
+    .description('Show trusted keys and whether you hold the private keys')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const config = readConfig(root);
+        const agents = Object.keys(config.signing?.keys ?? {});
+        const keys = agents.flatMap(agent => getTrustedKeys(config, agent).map(publicKey => ({
+            agent,
+            keyId: getKeyId(publicKey),
+            publicKey,
+        })));
+
+        if (options.json) {
+            console.log(JSON.stringify(keys, null, 2));
+            return;
+        }
+
+        if (keys.length === 0) {
+            console.log(chalk.yellow('No trusted keys. Run `ledgersync keys generate <agent> --trust`.'));
+            return;
+        }
+
+        for (const key of keys) {
+            console.log(`${getAgentColor(key.agent)(key.agent)} ${chalk.dim(key.keyId)}`);
+        }
+        console.log('');
+        console.log(chalk.dim(`Private keys are read from ${getKeysDir()}.`));
+        if (config.signing?.requireVerdictSignatures) {
+            console.log(chalk.dim('Human and witness verdicts must be signed (signing.requireVerdictSignatures).'));
+        }
+    });
+
+// ============================================
+// GIT COMMANDS
+// ============================================
+
+const gitCommand = program
+    .command('git')
+    .description('Link ledger entries to git commits');
+
+gitCommand
+    .command('install-hook')
+    .description('Install a post-commit hook that links each commit to the entries logged for it')
+    .action(() => {
+        const root = requireRoot();
+        try {
+            const { hookPath, alreadyInstalled } = installCommitHook(root);
+            const relative = path.relative(process.cwd(), hookPath);
+            console.log(alreadyInstalled
+                ? chalk.dim(`Already installed in ${relative}`)
+                : chalk.green(`Installed post-commit hook in ${relative}`));
+            console.log(chalk.dim(`  Commits are recorded in ${path.relative(process.cwd(), getCommitsPath(root))}`));
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
+        }
+    });
+
+gitCommand
+    .command('uninstall-hook')
+    .description('Remove the post-commit hook')
+    .action(() => {
+        const root = requireRoot();
+        console.log(uninstallCommitHook(root)
+            ? chalk.green('Removed post-commit hook.')
+            : chalk.dim('No ledgersync post-commit hook installed.'));
+    });
+
+gitCommand
+    .command('record-commit [rev]')
+    .description('Link a commit (default HEAD) to the entries logged since its parent')
+    .option('--quiet', 'Print nothing (used by the hook)')
+    .action((rev: string | undefined, options) => {
+        const root = requireRoot();
+        const link = recordCommit(root, rev ?? 'HEAD');
+
+        if (options.quiet) return;
+        if (!link) {
+            console.log(chalk.dim(`Nothing to record: ${rev ?? 'HEAD'} is not a commit or is already recorded.`));
+            return;
+        }
+        console.log(chalk.green(`Linked ${link.sha.slice(0, 8)} to ${link.entryIds.length} entr${link.entryIds.length === 1 ? 'y' : 'ies'}.`));
+        console.log(chalk.dim(`  ${link.artifacts.length} file${link.artifacts.length === 1 ? '' : 's'} changed: ${link.subject}`));
+    });
+
+gitCommand
+    .command('artifacts [from] [to]')
+    .description('Show artifacts from git diff --numstat (default: HEAD vs working tree)')
+    .option('--json', 'Output as JSON')
+    .action((from: string | undefined, to: string | undefined, options) => {
+        const root = requireRoot();
+        const artifacts = getDiffArtifacts(root, from ?? 'HEAD', to);
+
+        if (!artifacts) {
+            console.log(chalk.red('Not a git repository, or unknown revision.'));
+            process.exit(1);
+        }
+
+        if (options.json) {
+            console.log(JSON.stringify(artifacts, null, 2));
+            return;
+        }
+        if (artifacts.length === 0) {
+            console.log(chalk.dim('No changes.'));
+            return;
+        }
+        for (const a of artifacts) {
+            console.log(`  ${chalk.dim(a.action.padEnd(9))} ${a.path} ${chalk.gray(a.linesChanged !== undefined ? `(${a.linesChanged} lines)` : '(binary)')}`);
+        }
+    });
+
+// ============================================
+// BLAME COMMAND
+// ============================================
+
+program
+    .command('blame <location>')
+    .description('Show the ledger entries and reasoning behind a line of code (file:line)')
+    .option('--json', 'Output as JSON')
+    .action((location: string, options) => {
+        const root = requireRoot();
+
+        const match = /^(.+):(\d+)$/.exec(location);
+        if (!match) {
+            console.log(chalk.red('Expected <file>:<line>, e.g. src/auth.ts:42'));
+            process.exit(1);
+        }
+
+        // Accept paths relative to the current directory
+        const file = path.relative(root, path.resolve(match[1]));
+        const explanation = explainLine(root, file, parseInt(match[2], 10));
+
+        if (!explanation) {
+            console.log(chalk.red(`Can't blame ${location}: not a git repository, or no such file or line.`));
+            process.exit(1);
+        }
+
+        if (options.json) {
+            console.log(JSON.stringify(explanation, null, 2));
+            return;
+        }
+
+        const { blame, commit, entries, linked } = explanation;
+        console.log('');
+        if (blame.uncommitted) {
+            console.log(chalk.yellow('Not committed yet.'));
+        } else {
+            console.log(`${chalk.yellow(blame.sha.slice(0, 8))} ${blame.summary} ${chalk.dim(`— ${blame.author}, ${new Date(blame.timestamp).toLocaleString()}`)}`);
         }
+        console.log('');
+
+        if (entries.length === 0) {
+            console.log(chalk.dim('No ledger entries found for this change.'));
+            if (!commit && !blame.uncommitted) {
+                console.log(chalk.dim('Run `ledgersync git install-hook` so future commits are linked.'));
+            }
+            return;
+        }
+
+        if (!linked) {
+            console.log(chalk.dim(blame.uncommitted
+                ? 'Latest entries touching this file:'
+                : 'Commit not recorded; entries touching this file around that time:'));
+            console.log('');
+        }
+
+        for (const entry of entries) {
+            const agentColor = getAgentColor(entry.agent.name);
+            console.log(`${agentColor(entry.agent.name)} ${chalk.dim('·')} ${chalk.dim(new Date(entry.timestamp).toLocaleString())}`);
+            console.log(chalk.white(entry.action.summary));
+            console.log(chalk.cyan(`Intent: ${entry.reasoning.intent}`));
+            for (const c of entry.reasoning.considerations ?? []) {
+                console.log(chalk.gray(`  - ${c}`));
+            }
+            if (entry.reasoning.confidence !== undefined) {
+                console.log(chalk.dim(`Confidence: ${entry.reasoning.confidence}`));
+            }
+            console.log('');
+        }
+    });
+
+// ============================================
+// WHY COMMAND
+// ============================================
+
+program
+    .command('why <path>')
+    .description('Show the decision history of a file: entries that touched it and promises about it')
+    .option('--json', 'Output as JSON')
+    .action((filePath: string, options) => {
+        const root = requireRoot();
+
+        // Accept paths relative to the current directory
+        const history = getFileHistory(root, path.relative(root, path.resolve(filePath)));
+        const promises = getPromisesForFiles(root, history.names);
+
+        if (options.json) {
+            console.log(JSON.stringify({ ...history, promises }, null, 2));
+            return;
+        }
+
+        console.log('');
+        console.log(chalk.bold(history.path));
+        for (const rename of history.renames) {
+            console.log(chalk.dim(`  renamed from ${rename.from} (${new Date(rename.timestamp).toLocaleDateString()})`));
+        }
+        console.log('');
+
+        if (history.entries.length === 0) {
+            console.log(chalk.dim('No ledger entries touched this path.'));
+        }
+
+        for (const entry of history.entries) {
+            const agentColor = getAgentColor(entry.agent.name);
+            const kind = entry.entryType ?? entry.action.type;
+            const artifact = entry.artifacts.find(a => history.names.some(n => isSameOrUnder(normalizeProjectPath(a.path, root), n)));
+
+            console.log(`${chalk.dim(new Date(entry.timestamp).toLocaleString())} ${agentColor(entry.agent.name)} ${chalk.gray(`[${kind}]`)} ${chalk.dim(entry.id.slice(0, 8))}`);
+            console.log(chalk.white(entry.action.summary));
+            const rename = history.renames.find(r => r.entryId === entry.id);
+            if (rename) {
+                console.log(chalk.dim(`  renamed ${rename.from} → ${rename.to}`));
+            } else if (artifact) {
+                const lines = artifact.linesChanged !== undefined ? `, ${artifact.linesChanged} lines` : '';
+                console.log(chalk.dim(`  ${artifact.action} ${artifact.path}${lines}`));
+            }
+            console.log(chalk.cyan(`  Intent: ${entry.reasoning.intent}`));
+            for (const c of entry.reasoning.considerations ?? []) {
+                console.log(chalk.gray(`    - ${c}`));
+            }
+            for (const u of entry.reasoning.uncertainties ?? []) {
+                console.log(chalk.yellow(`    ? ${u}`));
+            }
+            if (entry.reasoning.confidence !== undefined) {
+                console.log(chalk.dim(`  Confidence: ${entry.reasoning.confidence}`));
+            }
+            console.log('');
+        }
+
+        if (promises.length > 0) {
+            console.log(chalk.bold('Promises'));
+            for (const p of promises) {
+                console.log(`  ${getStatusColor(p.status)(`[${p.status}]`)} ${chalk.gray(p.promise.type)} "${p.promise.summary}" ${chalk.dim(`— ${p.promiser.agent} → ${p.promisee.agent}`)}`);
+            }
+            console.log('');
+        }
+    });
+
+// ============================================
+// ADD COMMAND (Manual entry)
+// ============================================
+
+program
+    .command('add')
+    .description('Manually log a decision to the ledger')
+    .requiredOption('-s, --summary <text>', 'What you did')
+    .requiredOption('-i, --intent <text>', 'Why you did it')
+    .option('-t, --type <type>', 'Action type (create, modify, delete, analyze, plan, debug, refactor)', 'other')
+    .option('-a, --agent <name>', 'Agent name', 'human')
+    .option('--session <id>', 'Session ID to continue')
+    .option('-f, --files <paths...>', 'Files touched')
+    .option('--tags <tags...>', 'Tags')
+    .option('--constraints <ids...>', 'Constraints this followed')
+    .option('--consulted <docs...>', 'Grounding docs you read (their current versions are recorded)')
+    .option('--from-git [rev]', 'Fill files and line counts from git diff --numstat against a revision (default HEAD)')
+    .option('--sign [key]', 'Sign with your key (default: the agent\'s key in the key directory, or a PEM file path)')
+    .action((options) => {
+        const root = findLedgersyncRoot();
+
+        if (!root) {
+            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            process.exit(1);
+        }
+
+        const entry = signIfRequested(createEntry(
+            { name: options.agent },
+            { type: options.type, summary: options.summary },
+            { intent: options.intent },
+            {
+                session: entrySession(root, options.session),
+                artifacts: entryArtifacts(root, options),
+                tags: options.tags,
+                grounding: entryGrounding(root, options),
+            }
+        ), options);
+
+        const violations = appendCheckedEntry(root, entry);
+
+        console.log(chalk.green('Logged.'));
+        console.log(chalk.dim(`  ID: ${entry.id}`));
+        warnViolations(violations);
+        autoCompact(root);
+        autoSweep(root);
+    });
+
+// ============================================
+// TYPED ENTRY COMMANDS
+// ============================================
+
+// ledgersync handoff
+withEntryOptions(program.command('handoff'))
+    .description('Log a handoff: wrap up your session for the next agent')
+    .requiredOption('--completed <items...>', 'What got done this session')
+    .option('--deferred <items...>', 'What is left for the next agent')
+    .option('--blockers <items...>', 'What is blocking progress')
+    .option('--state <pairs...>', 'Current state as component=description')
+    .option('--context <pairs...>', 'Critical context as key=value')
+    .option('--notes <text>', 'Free-form notes for the next agent')
+    .action((options) => {
+        const root = requireRoot();
+
+        const entry = createHandoffEntry(
+            { name: options.agent },
+            entryAction('handoff', options.summary ?? 'Session handoff'),
+            { intent: options.intent ?? 'Preserve session state for the next agent' },
+            {
+                completed: options.completed,
+                currentState: parsePairs(options.state),
+                deferred: options.deferred ?? [],
+                blockers: options.blockers ?? [],
+                importantContext: parsePairs(options.context),
+                handoffNotes: options.notes,
+            },
+            entryOptions(root, options)
+        );
+
+        logTypedEntry(root, entry, options);
+    });
+
+// ledgersync transition
+withEntryOptions(program.command('transition'))
+    .description('Log a transition: confirm the context you inherited from a handoff')
+    .option('--from <entry-id>', 'Handoff entry ID (default: latest handoff)')
+    .option('--entries-read <n>', 'How many ledger entries you read')
+    .option('--docs <paths...>', 'Grounding docs you read')
+    .option('--indexed <paths...>', 'Key files you examined')
+    .option('--clarifications <items...>', 'Questions for the user')
+    .option('--next <items...>', 'Proposed next steps')
+    .option('--not-confident', 'Signal that you are not ready to continue')
+    .action((options) => {
+        const root = requireRoot();
+        const ledger = readLedger(root);
+
+        const handoffs = ledger.filter(isHandoffEntry);
+        const handoff = options.from
+            ? handoffs.find(e => e.id === options.from || e.id.startsWith(options.from))
+            : handoffs[handoffs.length - 1];
+
+        if (!handoff) {
+            console.log(chalk.red(options.from ? `Handoff entry not found: ${options.from}` : 'No handoff entry found in the ledger.'));
+            process.exit(1);
+        }
+
+        const entriesRead = options.entriesRead !== undefined ? parseInt(options.entriesRead, 10) : ledger.length;
+        if (isNaN(entriesRead) || entriesRead < 0) {
+            console.log(chalk.red('--entries-read must be a whole number of entries'));
+            process.exit(1);
+        }
+
+        const entry = createTransitionEntry(
+            { name: options.agent },
+            entryAction('transition', options.summary ?? `Session transition from ${handoff.agent.name}`),
+            { intent: options.intent ?? `Acquire context from ${handoff.agent.name}'s handoff before continuing work` },
+            {
+                fromAgent: handoff.agent.name,
+                fromSessionId: handoff.session.id,
+                fromEntryId: handoff.id,
+                contextAcquired: {
+                    entriesRead,
+                    philosophyDocsRead: options.docs ?? [],
+                    filesIndexed: options.indexed ?? [],
+                },
+                inheritedState: {
+                    completed: handoff.sessionSummary.completed,
+                    deferred: handoff.sessionSummary.deferred,
+                    blockers: handoff.sessionSummary.blockers,
+                },
+                readiness: {
+                    confident: !options.notConfident,
+                    clarificationsNeeded: options.clarifications ?? [],
+                    proposedNextSteps: options.next ?? [],
+                },
+            },
+            {
+                ...entryOptions(root, { ...options, consulted: [...(options.consulted ?? []), ...(options.docs ?? [])] }),
+                relatedEntries: [handoff.id],
+            }
+        );
+
+        logTypedEntry(root, entry, options);
+    });
+
+// ledgersync implementation
+withEntryOptions(program.command('implementation'))
+    .description('Log feature work')
+    .requiredOption('--feature <text>', 'What feature is being built')
+    .option('--decisions <items...>', 'Key design choices made')
+    .option('--tests <paths...>', 'Test files created or modified')
+    .option('--docs <paths...>', 'Documentation updated')
+    .option('--breaking <items...>', 'Breaking changes introduced')
+    .action((options) => {
+        const root = requireRoot();
+
+        const entry = createImplementationEntry(
+            { name: options.agent },
+            entryAction('implementation', options.summary ?? `Implemented ${options.feature}`),
+            { intent: options.intent ?? options.feature },
+            {
+                feature: options.feature,
+                designDecisions: options.decisions ?? [],
+                testsAdded: options.tests ?? [],
+                docsUpdated: options.docs ?? [],
+                breakingChanges: options.breaking ?? [],
+            },
+            entryOptions(root, options)
+        );
+
+        logTypedEntry(root, entry, options);
+    });
+
+// ledgersync bugfix
+withEntryOptions(program.command('bugfix'))
+    .description('Log a bug fix')
+    .requiredOption('--symptom <text>', 'What the user observed')
+    .requiredOption('--root-cause <text>', 'What was actually wrong')
+    .requiredOption('--fix <text>', 'How you fixed it')
+    .requiredOption('--risk <text>', 'What could break from this fix')
+    .option('--verify <steps...>', 'How to verify the fix works')
+    .action((options) => {
+        const root = requireRoot();
+
+        const entry = createBugfixEntry(
+            { name: options.agent },
+            entryAction('bugfix', options.summary ?? `Fixed: ${options.symptom}`),
+            { intent: options.intent ?? `Fix: ${options.symptom}` },
+            {
+                symptom: options.symptom,
+                rootCause: options.rootCause,
+                fix: options.fix,
+                regressionRisk: options.risk,
+                verificationSteps: options.verify ?? [],
+            },
+            entryOptions(root, options)
+        );
+
+        logTypedEntry(root, entry, options);
+    });
+
+// ledgersync review
+withEntryOptions(program.command('review'))
+    .description('Log a code review or audit without changes')
+    .requiredOption('--scope <paths...>', 'Files or areas reviewed')
+    .requiredOption('--assessment <text>', 'Overall assessment')
+    .option('--finding <specs...>', 'Findings as "severity|location|issue|recommendation"')
+    .action((options) => {
+        const root = requireRoot();
+
+        const findings: ReviewFinding[] = [];
+        for (const spec of (options.finding ?? []) as string[]) {
+            const [severity, location, issue, recommendation] = spec.split('|').map(part => part.trim());
+            if (!['critical', 'high', 'medium', 'low', 'info'].includes(severity) || !location || !issue) {
+                console.log(chalk.red(`Invalid finding: "${spec}"`));
+                console.log(chalk.dim('Expected "severity|location|issue|recommendation" with severity critical, high, medium, low or info.'));
+                process.exit(1);
+            }
+            findings.push({ severity: severity as ReviewFinding['severity'], location, issue, recommendation: recommendation ?? '' });
+        }
+
+        const entry = createReviewEntry(
+            { name: options.agent },
+            entryAction('review', options.summary ?? `Reviewed ${options.scope.join(', ')}`),
+            { intent: options.intent ?? `Review ${options.scope.join(', ')}` },
+            {
+                scope: options.scope,
+                findings,
+                overallAssessment: options.assessment,
+            },
+            entryOptions(root, options)
+        );
+
+        logTypedEntry(root, entry, options);
+    });
+
+// ============================================
+// MCP COMMAND
+// ============================================
+
+program
+    .command('mcp')
+    .description('Run a Model Context Protocol server over stdio for your agents')
+    .action(async () => {
+        const root = findLedgersyncRoot();
+
+        // stdout carries the protocol, so all human-facing output goes to stderr
+        if (!root) {
+            console.error(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            process.exit(1);
+        }
+
+        await startMcpServer(root, program.version());
+        console.error(chalk.dim(`LedgerSync MCP server running for ${root}`));
+    });
+
+// ============================================
+// PROMISE COMMANDS
+// ============================================
+
+const promiseCommand = program
+    .command('promise')
+    .description('Manage promises (bilateral commitments)');
+
+promiseCommand
+    .command('add')
+    .description('Make a new promise')
+    .requiredOption('-t, --type <type>', 'Promise type (will-do, will-not-do, will-maintain, will-provide)')
+    .requiredOption('-s, --summary <text>', 'What you are promising')
+    .option('--to <agent>', 'Target agent (default: * for any)', '*')
+    .option('--agent <name>', 'Your agent name', 'human')
+    .option('--session <id>', 'Your session ID (session-scoped promises end with it)')
+    .option('--scope <scope>', 'Promise scope (session, project, permanent)', 'project')
+    .option('--due-by <when>', 'Deadline: ISO date/time, or relative like 3d or 12h')
+    .option('--conditions <items...>', 'Conditions for the promise')
+    .option('--files <paths...>', 'Related files')
+    .option('--constraints <ids...>', 'Constraints this promise supports')
+    .option('--depends-on <ids...>', 'Promises that must be fulfilled first')
+    .option('--tags <tags...>', 'Tags')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = findLedgersyncRoot();
+        if (!root) {
+            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            process.exit(1);
+        }
+
+        const validTypes = ['will-do', 'will-not-do', 'will-maintain', 'will-provide'];
+        if (!validTypes.includes(options.type)) {
+            console.log(chalk.red(`Invalid type. Must be one of: ${validTypes.join(', ')}`));
+            process.exit(1);
+        }
+
+        const promise = createPromise(
+            { agent: options.agent, session: options.session },
+            { agent: options.to, scope: options.scope },
+            {
+                type: options.type as PromiseType,
+                summary: options.summary,
+                conditions: options.conditions,
+            },
+            options.files || options.constraints
+                ? { artifacts: options.files, constraintRefs: options.constraints }
+                : undefined,
+            options.tags,
+            options.dependsOn?.map((id: string) => requirePromise(root, id).id),
+            options.dueBy !== undefined ? parseDueBy(options.dueBy) : undefined
+        );
+
+        appendPromise(root, promise);
+
+        if (options.json) {
+            console.log(JSON.stringify(promise, null, 2));
+            return;
+        }
+
+        console.log(chalk.green('Promise created'));
+        console.log(chalk.gray(`   ID: ${promise.id}`));
+        console.log(chalk.gray(`   ${options.agent} -> ${options.to}: ${options.type} "${options.summary}"`));
+    });
+
+promiseCommand
+    .command('list')
+    .description('List promises')
+    .option('-n, --last <n>', 'Number of promises to show', '10')
+    .option('-a, --agent <name>', 'Filter by promiser agent')
+    .option('-s, --status <status>', 'Filter by status (active, fulfilled, broken, withdrawn, superseded)')
+    .option('--active', 'Show only active promises (leaving out session promises whose session ended)')
+    .option('--overdue', 'Show only active promises past their deadline')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = findLedgersyncRoot();
+        if (!root) {
+            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            process.exit(1);
+        }
+
+        let promises = options.active || options.overdue ? readLivePromises(root) : readPromises(root);
+
+        if (options.overdue) {
+            promises = promises.filter(p => isOverduePromise(p));
+        }
+
+        if (options.agent) {
+            promises = promises.filter(p => p.promiser.agent === options.agent);
+        }
+
+        if (options.status) {
+            promises = promises.filter(p => p.status === options.status);
+        }
+
+        promises = promises.slice(-parseCountOption(options.last, '--last'));
 
         if (options.json) {
             console.log(JSON.stringify(promises, null, 2));
             return;
         }
 
+        if (promises.length === 0) {
+            console.log(chalk.yellow('No promises found.'));
+            return;
+        }
+
         promises.forEach((p) => {
             const statusColor = getStatusColor(p.status);
             const time = new Date(p.timestamp).toLocaleString();
 
             console.log('');
             console.log(chalk.gray(`---`));
-            console.log(`${chalk.bold(p.promise.type)} ${statusColor(`[${p.status}]`)}`);
+            console.log(`${chalk.bold(p.promise.type)} ${statusColor(`[${p.status}]`)}${formatDueBy(p)}`);
             console.log(`${getAgentColor(p.promiser.agent)(p.promiser.agent)} -> ${p.promisee.agent}`);
             console.log(chalk.white(`"${p.promise.summary}"`));
             console.log(chalk.dim(`ID: ${p.id.slice(0, 8)}... | ${time}`));
@@ -746,14 +1970,173 @@ promiseCommand
                 console.log(chalk.gray('Conditions:'));
                 p.promise.conditions.forEach(c => console.log(`  - ${c}`));
             }
+
+            if (p.dependsOn?.length) {
+                console.log(chalk.gray(`Depends on: ${p.dependsOn.map(id => id.slice(0, 8)).join(', ')}`));
+            }
         });
         console.log('');
     });
 
+promiseCommand
+    .command('sweep')
+    .description('Withdraw session promises whose session ended and list overdue promises (runs after logging)')
+    .option('--dry-run', 'Show what would be withdrawn without writing')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const result = sweepPromises(root, { dryRun: options.dryRun });
+
+        if (options.json) {
+            console.log(JSON.stringify(result, null, 2));
+            return;
+        }
+
+        if (result.withdrawn.length === 0 && result.overdue.length === 0) {
+            console.log(chalk.green('Nothing to sweep: no ended sessions or overdue promises.'));
+            return;
+        }
+
+        for (const { promise, reason } of result.withdrawn) {
+            const verb = options.dryRun ? chalk.yellow('Would withdraw') : chalk.gray('Withdrew');
+            console.log(`${verb} ${promise.id.slice(0, 8)} "${promise.promise.summary}" ${chalk.dim(`(${reason})`)}`);
+        }
+
+        if (result.overdue.length > 0) {
+            if (result.withdrawn.length > 0) console.log('');
+            console.log(chalk.red(`Overdue (${result.overdue.length}):`));
+            for (const p of result.overdue) {
+                console.log(`  ${p.id.slice(0, 8)} [${p.promiser.agent}] "${p.promise.summary}"${formatDueBy(p)}`);
+            }
+            console.log(chalk.dim('Resolve, withdraw or supersede them; overdue promises stay active.'));
+        }
+    });
+
+promiseCommand
+    .command('check')
+    .description('Find entries that broke a will-not-do or will-maintain promise (exits 1 if any)')
+    .option('--record', 'Record each new violation as a proposed broken verdict')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const violations = scanLedgerForViolations(root);
+        const recorded = options.record ? recordPromiseViolations(root, violations) : [];
+
+        if (options.json) {
+            console.log(JSON.stringify({
+                violations: violations.map(v => ({
+                    promiseId: v.promise.id,
+                    entryId: v.entry.id,
+                    agent: v.entry.agent.name,
+                    paths: v.paths,
+                    reason: v.reason,
+                })),
+                recordedReportIds: recorded.map(r => r.id),
+            }, null, 2));
+        } else if (violations.length === 0) {
+            console.log(chalk.green('No entries break a will-not-do or will-maintain promise.'));
+        } else {
+            console.log('');
+            for (const v of violations) {
+                console.log(`${chalk.red('✗')} ${chalk.bold(v.promise.promise.type)} "${v.promise.promise.summary}" ${chalk.dim(`(${v.promise.id.slice(0, 8)})`)}`);
+                console.log(`  ${v.reason}`);
+                console.log(chalk.dim(`  Entry: ${v.entry.id.slice(0, 8)}... by ${v.entry.agent.name} | ${new Date(v.entry.timestamp).toLocaleString()}`));
+                console.log('');
+            }
+            console.log(chalk.red(`${violations.length} violation${violations.length === 1 ? '' : 's'}.`));
+            if (options.record) {
+                console.log(chalk.dim(`Recorded ${recorded.length} new proposed verdict${recorded.length === 1 ? '' : 's'}; a witness or human gives the verdict that counts.`));
+            }
+        }
+
+        if (violations.length > 0) {
+            process.exit(1);
+        }
+    });
+
+promiseCommand
+    .command('graph')
+    .description('Show how promises depend on each other: blocked promises, cycles and the critical path')
+    .option('--format <format>', 'Output format (tree, dot, mermaid)', 'tree')
+    .option('--all', 'Include resolved promises no active promise depends on')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+
+        const formats: GraphFormat[] = ['tree', 'dot', 'mermaid'];
+        if (!formats.includes(options.format)) {
+            console.log(chalk.red(`Invalid format. Must be one of: ${formats.join(', ')}`));
+            process.exit(1);
+        }
+
+        const graph = buildPromiseGraph(readPromises(root));
+        const ids = options.all ? new Set(graph.nodes.keys()) : getActiveSubgraphIds(graph);
+        const blocked = findBlockedPromises(graph).filter(b => ids.has(b.promise.id));
+        const cycles = findDependencyCycles(graph).filter(c => c.some(id => ids.has(id)));
+        const criticalPath = findCriticalPath(graph);
+
+        if (options.json) {
+            console.log(JSON.stringify({
+                nodes: [...ids].map(id => {
+                    const node = graph.nodes.get(id)!;
+                    return { id, dependsOn: node.dependsOn, dependents: node.dependents, missing: node.missing, promise: node.promise };
+                }),
+                blocked: blocked.map(b => ({ id: b.promise.id, blockers: b.blockers.map(({ id, reason }) => ({ id, reason })) })),
+                cycles,
+                criticalPath: criticalPath.map(p => p.id),
+            }, null, 2));
+            return;
+        }
+
+        // DOT and Mermaid go straight to a renderer
+        if (options.format !== 'tree') {
+            console.log(formatPromiseGraph(graph, options.format, ids));
+            return;
+        }
+
+        if (ids.size === 0) {
+            console.log(chalk.yellow('No active promises. Use --all to include resolved ones.'));
+            return;
+        }
+
+        console.log('');
+        console.log(formatPromiseGraph(graph, 'tree', ids));
+
+        if (blocked.length > 0) {
+            console.log('');
+            console.log(chalk.yellow('Blocked:'));
+            for (const b of blocked) {
+                const reasons = b.blockers.map(x => `${x.id.slice(0, 8)} ${x.reason}`).join(', ');
+                console.log(`  ${b.promise.id.slice(0, 8)} "${b.promise.promise.summary}" ${chalk.dim(`waiting on ${reasons}`)}`);
+            }
+        }
+
+        if (cycles.length > 0) {
+            console.log('');
+            console.log(chalk.red('Cycles (these promises can never all be fulfilled):'));
+            for (const cycle of cycles) {
+                console.log(`  ${[...cycle, cycle[0]].map(id => id.slice(0, 8)).join(' -> ')}`);
+            }
+        }
+
+        if (criticalPath.length > 1) {
+            console.log('');
+            console.log(chalk.cyan(`Critical path (${criticalPath.length} promises, in order):`));
+            criticalPath.forEach((p, i) => {
+                console.log(`  ${i + 1}. ${p.id.slice(0, 8)} [${p.promiser.agent}] "${p.promise.summary}"`);
+            });
+        }
+        console.log('');
+    });
+
 promiseCommand
     .command('resolve <promise-id>')
-    .description('Resolve a promise (fulfill, break, or withdraw)')
+    .description('Resolve a promise: a human verdict (fulfilled, broken), or withdraw it')
     .requiredOption('-s, --status <status>', 'New status (fulfilled, broken, withdrawn)')
+    .option('-r, --reason <text>', 'Reasoning for the verdict (required for fulfilled and broken)')
+    .option('-a, --agent <name>', 'Who is resolving it', 'human')
+    .option('--sign [key]', 'Sign the verdict with your key (default: the agent\'s key in the key directory, or a PEM file path)')
+    .option('--json', 'Output as JSON')
     .action((promiseId, options) => {
         const root = findLedgersyncRoot();
         if (!root) {
@@ -767,53 +2150,150 @@ promiseCommand
             process.exit(1);
         }
 
-        const promises = readPromises(root);
-        const promise = promises.find(p => p.id === promiseId || p.id.startsWith(promiseId));
+        const promise = requirePromise(root, promiseId);
+
+        if (options.status === 'withdrawn') {
+            withdrawAndPrint(root, promise, options);
+            return;
+        }
+
+        // Fulfilled and broken are judgments: a human verdict, under the promise's verdict policy
+        if (!options.reason) {
+            console.log(chalk.red(`--reason is required to mark a promise ${options.status}`));
+            process.exit(1);
+        }
+
+        let result: ReturnType<typeof addVerdict>;
+        try {
+            result = addVerdict(
+                root,
+                promise.id,
+                options.status as VerdictStatus,
+                options.reason,
+                options.agent,
+                { role: 'human', signingKey: signingKeyFor(options) }
+            );
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
+        }
+
+        if (options.json) {
+            console.log(JSON.stringify(result, null, 2));
+            return;
+        }
+
+        if (!result) {
+            console.log(chalk.red('Failed to resolve promise'));
+        } else if (result.tally.outcome === options.status) {
+            console.log(chalk.green(`Promise resolved: ${options.status}`));
+            console.log(chalk.gray(`   ${promise.promise.summary}`));
+        } else {
+            console.log(chalk.yellow(`Verdict added: ${options.status}`));
+            console.log(chalk.yellow(`   Awaiting quorum: ${formatQuorumProgress(result.tally, options.status)}`));
+        }
+    });
+
+promiseCommand
+    .command('withdraw <promise-id>')
+    .description('Withdraw a promise')
+    .option('-a, --agent <name>', 'Who is withdrawing it', 'human')
+    .option('--json', 'Output as JSON')
+    .action((promiseId, options) => {
+        const root = findLedgersyncRoot();
+        if (!root) {
+            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+            process.exit(1);
+        }
+
+        withdrawAndPrint(root, requirePromise(root, promiseId), options);
+    });
+
+promiseCommand
+    .command('supersede <old-id> <new-id>')
+    .description('Replace an active promise with a newer one')
+    .option('-a, --agent <name>', 'Who is superseding it', 'human')
+    .option('--json', 'Output as JSON')
+    .action((oldId, newId, options) => {
+        const root = requireRoot();
+
+        const oldPromise = requirePromise(root, oldId);
+        const newPromise = requirePromise(root, newId);
+
+        if (oldPromise.id === newPromise.id) {
+            console.log(chalk.red('A promise cannot supersede itself.'));
+            process.exit(1);
+        }
+
+        if (oldPromise.status !== 'active') {
+            console.log(chalk.red(`Only active promises can be superseded (this one is ${oldPromise.status}).`));
+            process.exit(1);
+        }
 
-        if (!promise) {
-            console.log(chalk.red(`Promise not found: ${promiseId}`));
+        let updated: ReturnType<typeof supersedePromise>;
+        try {
+            updated = supersedePromise(root, oldPromise.id, newPromise.id, options.agent);
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
             process.exit(1);
         }
 
-        const updated = resolvePromise(root, promise.id, options.status as PromiseStatus);
+        if (options.json) {
+            console.log(JSON.stringify(updated, null, 2));
+            return;
+        }
 
         if (updated) {
-            console.log(chalk.green(`Promise resolved: ${options.status}`));
-            console.log(chalk.gray(`   ${updated.promise.summary}`));
+            console.log(chalk.green('Promise superseded'));
+            console.log(chalk.gray(`   Old: ${oldPromise.promise.summary}`));
+            console.log(chalk.gray(`   New: ${newPromise.promise.summary}`));
         } else {
-            console.log(chalk.red('Failed to resolve promise'));
+            console.log(chalk.red('Failed to supersede promise'));
         }
     });
 
 promiseCommand
-    .command('withdraw <promise-id>')
-    .description('Withdraw a promise')
-    .action((promiseId) => {
-        const root = findLedgersyncRoot();
-        if (!root) {
-            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
-            process.exit(1);
-        }
+    .command('history <promise-id>')
+    .description('Show every status change of a promise')
+    .option('--json', 'Output as JSON')
+    .action((promiseId, options) => {
+        const root = requireRoot();
+        const promise = requirePromise(root, promiseId);
+        const history = getPromiseHistory(root, promise.id);
 
-        const promises = readPromises(root);
-        const promise = promises.find(p => p.id === promiseId || p.id.startsWith(promiseId));
+        if (options.json) {
+            console.log(JSON.stringify({ promise, history }, null, 2));
+            return;
+        }
 
-        if (!promise) {
-            console.log(chalk.red(`Promise not found: ${promiseId}`));
-            process.exit(1);
+        console.log('');
+        console.log(chalk.white(`"${promise.promise.summary}"`));
+        console.log(`${chalk.dim(new Date(promise.timestamp).toLocaleString())}  ${getStatusColor('active')('active')}  ${chalk.dim(`by ${promise.promiser.agent}`)}`);
+        for (const event of history) {
+            const by = event.actor ? chalk.dim(`by ${event.actor}`) : '';
+            const reason = event.reason ? chalk.gray(` — ${event.reason}`) : '';
+            console.log(`${chalk.dim(new Date(event.timestamp).toLocaleString())}  ${getStatusColor(event.status)(event.status)}  ${by}${reason}`);
         }
+        console.log('');
+    });
 
-        const updated = withdrawPromise(root, promise.id);
+promiseCommand
+    .command('migrate')
+    .description('Convert in-place promise statuses from older versions into status events')
+    .action(() => {
+        const root = requireRoot();
+        const migrated = migratePromisesToEvents(root);
 
-        if (updated) {
-            console.log(chalk.green('Promise withdrawn'));
-            console.log(chalk.gray(`   ${updated.promise.summary}`));
+        if (migrated === 0) {
+            console.log(chalk.dim('Nothing to migrate.'));
         } else {
-            console.log(chalk.red('Failed to withdraw promise'));
+            console.log(chalk.green(`Migrated ${migrated} promise status${migrated === 1 ? '' : 'es'} to status events.`));
         }
     });
 
-// --- Report commands (also v0.2) ---
+// ============================================
+// REPORT COMMANDS
+// ============================================
 
 const reportCommand = program
     .command('report')
@@ -830,6 +2310,8 @@ reportCommand
     .option('-a, --agent <name>', 'Reporter agent name', 'human')
     .option('--role <role>', 'Reporter role (actor, witness, human)', 'actor')
     .option('--tags <tags...>', 'Tags')
+    .option('--sign [key]', 'Sign with your key (default: the agent\'s key in the key directory, or a PEM file path)')
+    .option('--json', 'Output as JSON')
     .action((options) => {
         const root = findLedgersyncRoot();
         if (!root) {
@@ -837,13 +2319,7 @@ reportCommand
             process.exit(1);
         }
 
-        const promises = readPromises(root);
-        const promise = promises.find(p => p.id === options.promise || p.id.startsWith(options.promise));
-
-        if (!promise) {
-            console.log(chalk.red(`Promise not found: ${options.promise}`));
-            process.exit(1);
-        }
+        const promise = requirePromise(root, options.promise);
 
         const confidence = parseFloat(options.confidence);
         if (isNaN(confidence) || confidence < 0 || confidence > 1) {
@@ -851,7 +2327,7 @@ reportCommand
             process.exit(1);
         }
 
-        const report = createWorkReport(
+        const report = signIfRequested(createWorkReport(
             { agent: options.agent, role: options.role },
             promise.id,
             {
@@ -862,9 +2338,19 @@ reportCommand
             },
             undefined,
             options.tags
-        );
+        ), options);
+
+        try {
+            appendReport(root, report);
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
+        }
 
-        appendReport(root, report);
+        if (options.json) {
+            console.log(JSON.stringify(report, null, 2));
+            return;
+        }
 
         console.log(chalk.green('Work report added'));
         console.log(chalk.gray(`   ID: ${report.id}`));
@@ -878,6 +2364,9 @@ reportCommand
     .requiredOption('-s, --status <status>', 'Verdict (fulfilled, partial, broken)')
     .requiredOption('-r, --reason <text>', 'Reasoning for verdict')
     .option('-a, --agent <name>', 'Reporter name', 'human')
+    .option('--role <role>', 'Reporter role (human, witness)', 'human')
+    .option('--sign [key]', 'Sign with your key (default: the agent\'s key in the key directory, or a PEM file path)')
+    .option('--json', 'Output as JSON')
     .action((promiseId, options) => {
         const root = findLedgersyncRoot();
         if (!root) {
@@ -891,28 +2380,45 @@ reportCommand
             process.exit(1);
         }
 
-        const promises = readPromises(root);
-        const promise = promises.find(p => p.id === promiseId || p.id.startsWith(promiseId));
+        if (options.role !== 'human' && options.role !== 'witness') {
+            console.log(chalk.red('Invalid role. Must be one of: human, witness'));
+            process.exit(1);
+        }
 
-        if (!promise) {
-            console.log(chalk.red(`Promise not found: ${promiseId}`));
+        const promise = requirePromise(root, promiseId);
+
+        let result: ReturnType<typeof addVerdict>;
+        try {
+            result = addVerdict(
+                root,
+                promise.id,
+                options.status as VerdictStatus,
+                options.reason,
+                options.agent,
+                { role: options.role, signingKey: signingKeyFor(options) }
+            );
+        } catch (e) {
+            const message = (e as Error).message;
+            console.log(chalk.red(message));
+            if (!options.sign && message.includes('Unsigned')) {
+                console.log(chalk.dim('Sign it with --sign (see `ledgersync keys generate`).'));
+            }
             process.exit(1);
         }
 
-        const result = addVerdict(
-            root,
-            promise.id,
-            options.status as VerdictStatus,
-            options.reason,
-            options.agent
-        );
+        if (options.json) {
+            console.log(JSON.stringify(result, null, 2));
+            return;
+        }
 
         if (result) {
             console.log(chalk.green(`Verdict added: ${options.status}`));
             console.log(chalk.gray(`   Promise: ${promise.promise.summary}`));
             console.log(chalk.gray(`   Reason: ${options.reason}`));
 
-            if (result.promise && result.promise.status !== 'active') {
+            if (result.tally.outcome !== options.status && options.status !== 'partial') {
+                console.log(chalk.yellow(`   Awaiting quorum: ${formatQuorumProgress(result.tally, options.status)}`));
+            } else if (result.promise && result.promise.status !== 'active') {
                 console.log(chalk.cyan(`   Promise status updated to: ${result.promise.status}`));
             }
         } else {
@@ -936,13 +2442,11 @@ reportCommand
         }
 
         let reports = readReports(root);
+        const config = readConfig(root);
 
         if (options.promise) {
-            const promises = readPromises(root);
-            const promise = promises.find(p => p.id === options.promise || p.id.startsWith(options.promise));
-            if (promise) {
-                reports = reports.filter(r => r.promiseId === promise.id);
-            }
+            const promise = requirePromise(root, options.promise);
+            reports = reports.filter(r => r.promiseId === promise.id);
         }
 
         if (options.agent) {
@@ -953,15 +2457,15 @@ reportCommand
             reports = reports.filter(r => r.verdict !== undefined);
         }
 
-        reports = reports.slice(-parseInt(options.last, 10));
+        reports = reports.slice(-parseCountOption(options.last, '--last'));
 
-        if (reports.length === 0) {
-            console.log(chalk.yellow('No reports found.'));
+        if (options.json) {
+            console.log(JSON.stringify(reports, null, 2));
             return;
         }
 
-        if (options.json) {
-            console.log(JSON.stringify(reports, null, 2));
+        if (reports.length === 0) {
+            console.log(chalk.yellow('No reports found.'));
             return;
         }
 
@@ -971,7 +2475,7 @@ reportCommand
 
             console.log('');
             console.log(chalk.gray(`---`));
-            console.log(`${getAgentColor(r.reporter.agent)(r.reporter.agent)} ${chalk.dim(`(${r.reporter.role})`)}`);
+            console.log(`${getAgentColor(r.reporter.agent)(r.reporter.agent)} ${chalk.dim(`(${r.reporter.role})`)}${formatSignatureStatus(r, config)}`);
             console.log(chalk.white(r.report.workCompleted));
             console.log(chalk.cyan(`Confidence: ${confidence}%`));
 
@@ -983,7 +2487,7 @@ reportCommand
             if (r.verdict) {
                 const verdictColor = r.verdict.status === 'fulfilled' ? chalk.green :
                                      r.verdict.status === 'broken' ? chalk.red : chalk.yellow;
-                console.log(verdictColor(`Verdict: ${r.verdict.status}`));
+                console.log(verdictColor(`${r.verdict.proposed ? 'Proposed verdict' : 'Verdict'}: ${r.verdict.status}`));
                 console.log(chalk.gray(`  "${r.verdict.reasoning}"`));
             }
 
@@ -992,7 +2496,11 @@ reportCommand
         console.log('');
     });
 
-const statusCommand = program
+// ============================================
+// STATUS COMMAND
+// ============================================
+
+program
     .command('status')
     .description('Overview of promises and reports')
     .option('--json', 'Output as JSON')
@@ -1003,9 +2511,10 @@ const statusCommand = program
             process.exit(1);
         }
 
-        const promiseSummary = getPromiseSummary(root);
+        const promises = readPromises(root);
+        const activePromises = readLivePromises(root, promises);
+        const promiseSummary = getPromiseSummary(root, promises, activePromises);
         const reportSummary = getReportSummary(root);
-        const activePromises = readActivePromises(root);
 
         if (options.json) {
             console.log(JSON.stringify({
@@ -1026,13 +2535,16 @@ const statusCommand = program
         console.log(`   ${chalk.blue('Fulfilled:')} ${promiseSummary.fulfilled}`);
         console.log(`   ${chalk.red('Broken:')} ${promiseSummary.broken}`);
         console.log(`   ${chalk.gray('Withdrawn:')} ${promiseSummary.withdrawn}`);
+        if (promiseSummary.overdue > 0) {
+            console.log(`   ${chalk.red('Overdue:')} ${promiseSummary.overdue}`);
+        }
         console.log('');
 
         if (activePromises.length > 0) {
             console.log(chalk.cyan('Active Promises'));
             activePromises.slice(-5).forEach(p => {
                 const agentColor = getAgentColor(p.promiser.agent);
-                console.log(`   ${agentColor(p.promiser.agent)} -> ${p.promisee.agent}`);
+                console.log(`   ${agentColor(p.promiser.agent)} -> ${p.promisee.agent}${formatDueBy(p)}`);
                 console.log(`   "${p.promise.summary}"`);
                 console.log(`   ${chalk.dim(`ID: ${p.id.slice(0, 8)}...`)}`);
                 console.log('');
@@ -1049,12 +2561,496 @@ const statusCommand = program
         }
         console.log('');
     });
-*/
+
+// ledgersync calibration
+program
+    .command('calibration')
+    .description('How well each agent\'s stated confidence predicts whether its decisions hold up')
+    .option('-a, --agent <names...>', 'Only these agents')
+    .option('--entries', 'List the contradicted entries and the evidence against them')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+        const entries = readLedger(root);
+        const profile = buildCalibrationProfile(entries);
+        const agents = Object.values(profile.agents)
+            .filter(a => !options.agent || options.agent.includes(a.agent))
+            .sort((a, b) => b.entries - a.entries);
+        const contradicted = options.entries
+            ? assessEntries(entries).filter(o => !o.held && agents.some(a => a.agent === o.entry.agent.name))
+            : [];
+
+        if (options.json) {
+            console.log(JSON.stringify({
+                agents,
+                ...(options.entries ? {
+                    contradicted: contradicted.map(o => ({ entryId: o.entry.id, agent: o.entry.agent.name, confidence: o.confidence, evidence: o.evidence })),
+                } : {}),
+            }, null, 2));
+            return;
+        }
+
+        if (agents.length === 0) {
+            console.log(chalk.yellow('No entries with a stated confidence.'));
+            return;
+        }
+
+        for (const a of agents) {
+            const lean = a.overconfidence > 0 ? 'overconfident' : 'underconfident';
+            const errorColor = a.calibrationError <= 0.1 ? chalk.green : a.calibrationError <= 0.25 ? chalk.yellow : chalk.red;
+            console.log('');
+            console.log(`${getAgentColor(a.agent)(a.agent)} ${chalk.dim(`(${a.entries} entries, ${a.contradicted} contradicted)`)}`);
+            console.log(`   Stated ${formatPercent(a.meanConfidence)}, held up ${formatPercent(a.accuracy)}: ${formatPercent(Math.abs(a.overconfidence))} ${lean}, ` +
+                `calibration error ${errorColor(formatPercent(a.calibrationError))}`);
+            for (const b of a.bins.filter(b => b.entries > 0)) {
+                const range = `${formatPercent(b.from)}–${formatPercent(b.to)}`.padEnd(9);
+                console.log(chalk.dim(`   ${range} ${String(b.entries).padStart(4)} entries, held up ${formatPercent(b.accuracy)}`));
+            }
+        }
+
+        if (contradicted.length > 0) {
+            console.log('');
+            console.log(chalk.cyan('Contradicted Entries'));
+            for (const o of contradicted) {
+                console.log(`   ${o.entry.id.slice(0, 8)} ${getAgentColor(o.entry.agent.name)(o.entry.agent.name)} ${chalk.dim(`(${formatPercent(o.confidence)})`)} ${o.entry.action.summary}`);
+                for (const e of o.evidence) {
+                    console.log(chalk.gray(`      ${e.kind} ${e.entryId.slice(0, 8)} by ${e.agent}: ${e.detail}`));
+                }
+            }
+        }
+        console.log('');
+    });
+
+// ledgersync scorecard
+program
+    .command('scorecard')
+    .description('How reliably each agent or model keeps its promises: fulfillment, calibration and trends')
+    .option('--by <grouping>', 'Group by agent or model', 'agent')
+    .option('--period <period>', 'Trend period (week, month)', 'month')
+    .option('--since <date>', 'Only promises made since a date (ISO, or relative like 30d)')
+    .option('-a, --agent <names...>', 'Only promises by these agents')
+    .option('--markdown', 'Output as a markdown table')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+        const root = requireRoot();
+
+        const groupings: ScorecardGrouping[] = ['agent', 'model'];
+        const periods: ScorecardPeriod[] = ['week', 'month'];
+        if (!groupings.includes(options.by)) {
+            console.log(chalk.red(`Invalid grouping. Must be one of: ${groupings.join(', ')}`));
+            process.exit(1);
+        }
+        if (!periods.includes(options.period)) {
+            console.log(chalk.red(`Invalid period. Must be one of: ${periods.join(', ')}`));
+            process.exit(1);
+        }
+
+        let scorecard;
+        try {
+            scorecard = buildScorecard(root, { by: options.by, period: options.period, since: options.since, agent: options.agent });
+        } catch (e) {
+            console.log(chalk.red((e as Error).message));
+            process.exit(1);
+        }
+
+        if (options.json) {
+            console.log(JSON.stringify(scorecard, null, 2));
+            return;
+        }
+
+        if (options.markdown) {
+            console.log(formatScorecard(scorecard));
+            return;
+        }
+
+        if (scorecard.rows.length === 0) {
+            console.log(chalk.yellow('No promises found.'));
+            return;
+        }
+
+        console.log('');
+        console.log(chalk.bold(`SCORECARD BY ${scorecard.by.toUpperCase()}`));
+
+        for (const row of scorecard.rows) {
+            const others = scorecard.by === 'agent' ? row.models : row.agents;
+            console.log('');
+            console.log(`${getAgentColor(row.key)(row.key)} ${chalk.dim(`(${scorecard.by === 'agent' ? 'models' : 'agents'}: ${others.join(', ')})`)}`);
+            const unverified = row.unverified > 0 ? ` | ${chalk.yellow(`Unverified: ${row.unverified}`)}` : '';
+            console.log(`   Promises: ${row.promises} | Active: ${row.active} | Withdrawn: ${row.withdrawn} | Judged: ${row.judged}${unverified}`);
+            if (row.judged > 0) {
+                console.log(`   ${chalk.green('Fulfilled:')} ${formatPercent(row.fulfillmentRate)}  ${chalk.yellow('Partial:')} ${row.partial}  ${chalk.red('Broken:')} ${formatPercent(row.brokenRate)}`);
+            }
+            if (row.calibrated > 0) {
+                const error = row.calibrationError!;
+                const errorColor = error <= 0.15 ? chalk.green : error <= 0.3 ? chalk.yellow : chalk.red;
+                console.log(`   Confidence ${formatPercent(row.meanConfidence)} vs outcome ${formatPercent(row.meanOutcome)}: ` +
+                    `calibration error ${errorColor(formatPercent(row.calibrationError))} ${chalk.dim(`(${row.calibrated} self-reported)`)}`);
+            }
+            if (row.medianTimeToFulfillMs !== null) {
+                console.log(`   Median time to fulfill: ${formatDuration(row.medianTimeToFulfillMs)}`);
+            }
+            if (row.trend.length > 1) {
+                const points = row.trend.map(t => `${t.period} ${formatPercent(t.fulfillmentRate)} ${chalk.dim(`(${t.judged})`)}`);
+                console.log(`   Trend: ${points.join(' → ')}`);
+            }
+        }
+
+        console.log('');
+        console.log(chalk.dim(`Overall: ${scorecard.overall.judged} of ${scorecard.overall.promises} promises judged, ${formatPercent(scorecard.overall.fulfillmentRate)} fulfilled.`));
+    });
 
 // ============================================
 // HELPERS
 // ============================================
 
+function requireRoot(): string {
+    const root = findLedgersyncRoot();
+    if (!root) {
+        if (findLegacyRoot()) {
+            console.log(chalk.red(`Found an old ${LEGACY_DIR}/ folder. Run \`ledgersync migrate\` to upgrade it.`));
+        } else {
+            console.log(chalk.red('No .ledgersync/ folder found. Run `ledgersync init` first.'));
+        }
+        process.exit(1);
+    }
+    return root;
+}
+
+/**
+ * Look up a promise by full ID or unique prefix, exiting if none matches
+ */
+function requirePromise(root: string, idOrPrefix: string): PromiseEntry {
+    let promise: PromiseEntry | undefined;
+    try {
+        promise = findPromiseByPrefix(root, idOrPrefix);
+    } catch (e) {
+        console.log(chalk.red((e as Error).message));
+        console.log(chalk.dim('Use more characters of the ID.'));
+        process.exit(1);
+    }
+
+    if (!promise) {
+        console.log(chalk.red(`Promise not found: ${idOrPrefix}`));
+        process.exit(1);
+    }
+    return promise;
+}
+
+/**
+ * Withdraw a promise for `promise withdraw` and `promise resolve -s withdrawn`,
+ * exiting if it can't be withdrawn
+ */
+function withdrawAndPrint(root: string, promise: PromiseEntry, options: { agent: string; json?: boolean }): void {
+    let updated: ReturnType<typeof withdrawPromise>;
+    try {
+        updated = withdrawPromise(root, promise.id, options.agent);
+    } catch (e) {
+        console.log(chalk.red((e as Error).message));
+        process.exit(1);
+    }
+
+    if (options.json) {
+        console.log(JSON.stringify(updated, null, 2));
+        return;
+    }
+
+    if (updated) {
+        console.log(chalk.green('Promise withdrawn'));
+        console.log(chalk.gray(`   ${updated.promise.summary}`));
+    } else {
+        console.log(chalk.red('Failed to withdraw promise'));
+    }
+}
+
+/**
+ * Options shared by every typed entry command
+ */
+function withEntryOptions(command: Command): Command {
+    return command
+        .option('-s, --summary <text>', 'What you did (max 200 chars)')
+        .option('-i, --intent <text>', 'Why you did it')
+        .option('-a, --agent <name>', 'Agent name', 'human')
+        .option('--session <id>', 'Session ID to continue')
+        .option('-f, --files <paths...>', 'Files touched')
+        .option('--tags <tags...>', 'Tags')
+        .option('--constraints <ids...>', 'Constraints this followed')
+        .option('--consulted <docs...>', 'Grounding docs you read (their current versions are recorded)')
+        .option('--from-git [rev]', 'Fill files and line counts from git diff --numstat against a revision (default HEAD)')
+        .option('--sign [key]', 'Sign with your key (default: the agent\'s key in the key directory, or a PEM file path)');
+}
+
+/**
+ * The session an entry continues, if the agent named one
+ */
+function entrySession(root: string, sessionId: string | undefined): LedgerEntry['session'] | undefined {
+    return sessionId ? { id: sessionId, entryIndex: readBySession(root, sessionId).length } : undefined;
+}
+
+function entryAction(entryType: EntryType, summary: string): LedgerEntry['action'] {
+    return { type: DEFAULT_ACTION_TYPES[entryType], summary: summary.slice(0, 200) };
+}
+
+function entryOptions(
+    root: string,
+    options: {
+        session?: string;
+        files?: string[];
+        tags?: string[];
+        constraints?: string[];
+        consulted?: string[];
+        fromGit?: string | boolean;
+    }
+): Partial<LedgerEntry> {
+    return {
+        session: entrySession(root, options.session),
+        artifacts: entryArtifacts(root, options),
+        tags: options.tags,
+        grounding: entryGrounding(root, options),
+    };
+}
+
+/**
+ * Grounding for a new entry: --constraints, plus --consulted docs with their content hashes
+ */
+function entryGrounding(
+    root: string,
+    options: { constraints?: string[]; consulted?: string[] }
+): GroundingInfo | undefined {
+    if (!options.constraints && !options.consulted) {
+        return undefined;
+    }
+
+    return stampGroundingHashes(root, {
+        constraintsApplied: options.constraints,
+        // Accept paths relative to the current directory
+        philosophyRefs: options.consulted?.map(d => normalizeProjectPath(path.relative(root, path.resolve(d)))),
+    });
+}
+
+/**
+ * Store the current hash of each doc in config.philosophy.hashes
+ */
+function recordDocHashes(root: string, config: LedgerConfig, docs: string[]): void {
+    for (const doc of docs) {
+        const hash = hashDoc(root, doc);
+        if (hash) {
+            config.philosophy.hashes = { ...config.philosophy.hashes, [doc]: hash };
+        }
+    }
+}
+
+/**
+ * Artifacts for a new entry: --files, plus what git reports with --from-git
+ */
+function entryArtifacts(root: string, options: { files?: string[]; fromGit?: string | boolean }): ArtifactChange[] {
+    const artifacts: ArtifactChange[] = options.files?.map(f => ({ path: f, action: 'modified' as const })) ?? [];
+    if (!options.fromGit) {
+        return artifacts;
+    }
+
+    const fromGit = getDiffArtifacts(root, options.fromGit === true ? 'HEAD' : options.fromGit);
+    if (!fromGit) {
+        console.log(chalk.red('--from-git: not a git repository, or unknown revision.'));
+        process.exit(1);
+    }
+
+    // Git knows better than --files about what changed and by how much
+    const gitPaths = new Set(fromGit.map(a => a.path));
+    return [...fromGit, ...artifacts.filter(a => !gitPaths.has(a.path))];
+}
+
+/**
+ * Parse "key=value" pairs into a record
+ */
+function parsePairs(pairs: string[] | undefined): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const pair of pairs ?? []) {
+        const eq = pair.indexOf('=');
+        if (eq === -1) {
+            console.log(chalk.red(`Expected key=value, got: ${pair}`));
+            process.exit(1);
+        }
+        record[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+    }
+    return record;
+}
+
+function logTypedEntry(root: string, unsigned: LedgerEntry, options: { agent?: string; sign?: string | boolean }): void {
+    const entry = signIfRequested(unsigned, options);
+    const violations = appendCheckedEntry(root, entry);
+
+    console.log(chalk.green(`Logged ${entry.entryType}.`));
+    console.log(chalk.dim(`  ID: ${entry.id}`));
+    console.log(chalk.dim(`  Session: ${entry.session.id}`));
+    warnViolations(violations);
+    autoCompact(root);
+    autoSweep(root);
+}
+
+/**
+ * The key given with --sign: a PEM file path, or true for the agent's own key
+ */
+function signingKeyFor(options: { agent?: string; sign?: string | boolean }): KeyObject | undefined {
+    if (!options.sign) {
+        return undefined;
+    }
+
+    try {
+        return loadSigningKey(options.sign === true ? options.agent ?? 'human' : options.sign);
+    } catch (e) {
+        console.log(chalk.red((e as Error).message));
+        process.exit(1);
+    }
+}
+
+function signIfRequested<T extends LedgerEntry | WorkReport>(record: T, options: { agent?: string; sign?: string | boolean }): T {
+    const key = signingKeyFor(options);
+    return key ? signRecord(record, key) : record;
+}
+
+/**
+ * Add a public key to the ones config.yaml trusts for an agent
+ */
+function trustKey(root: string, agent: string, publicKey: string): void {
+    const config = readConfig(root);
+    const trusted = getTrustedKeys(config, agent);
+    if (!trusted.includes(publicKey)) {
+        const keys = [...trusted, publicKey];
+        config.signing = {
+            ...config.signing,
+            keys: { ...config.signing?.keys, [agent]: keys.length === 1 ? keys[0] : keys },
+        };
+        writeConfig(root, config);
+    }
+}
+
+/**
+ * Signature marker for report listings
+ */
+function formatSignatureStatus(report: WorkReport, config: LedgerConfig): string {
+    const check = verifyRecordSignature(report, report.reporter.agent, config);
+    switch (check.status) {
+        case 'valid':
+            return chalk.green(' signed');
+        case 'unsigned':
+            return isVerdictByHumanOrWitness(report) ? chalk.yellow(' unsigned') : '';
+        default:
+            return chalk.red(` ${check.status} signature`);
+    }
+}
+
+/**
+ * Roll up older entries if enough have piled up. Never fails the command
+ * that logged the entry.
+ */
+function autoCompact(root: string): void {
+    try {
+        for (const rollup of compactLedger(root, loadConfig(root))) {
+            console.log(chalk.dim(`  Rolled up ${rollup.rollup!.entryCount} older entries.`));
+        }
+    } catch {
+        // An invalid config or a busy lock just postpones compaction
+    }
+}
+
+/**
+ * Withdraw session promises whose session just ended. Never fails the
+ * command that logged the entry.
+ */
+function autoSweep(root: string): void {
+    try {
+        for (const { promise, reason } of sweepPromises(root).withdrawn) {
+            console.log(chalk.dim(`  Withdrew session promise ${promise.id.slice(0, 8)}: ${reason}.`));
+        }
+    } catch {
+        // A busy lock just postpones the sweep
+    }
+}
+
+/**
+ * Parse a 0.0-1.0 confidence flag, exiting on anything else
+ */
+function parseConfidenceOption(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    // Number, not parseFloat: "0,8" is a typo, not 0
+    const confidence = value.trim() === '' ? NaN : Number(value);
+    if (isNaN(confidence) || confidence < 0 || confidence > 1) {
+        console.log(chalk.red(`${flag} must be a number between 0.0 and 1.0 (got ${value})`));
+        process.exit(1);
+    }
+    return confidence;
+}
+
+/**
+ * Parse a positive whole-number flag such as --last, exiting on anything else
+ */
+function parseCountOption(value: string, flag: string): number;
+function parseCountOption(value: string | undefined, flag: string): number | undefined;
+function parseCountOption(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    // Not parseInt: "1O" is a typo, not 1
+    const count = /^\s*\d+\s*$/.test(value) ? Number(value) : NaN;
+    if (!(count > 0)) {
+        console.log(chalk.red(`${flag} must be a whole number above 0 (got ${value})`));
+        process.exit(1);
+    }
+    return count;
+}
+
+/**
+ * Append an entry, checking it against will-not-do and will-maintain
+ * promises when ledger.checkPromises is on. Returns what it broke.
+ */
+function appendCheckedEntry(root: string, entry: LedgerEntry): PromiseViolation[] {
+    const violations: PromiseViolation[] = [];
+    const removeHook = addAppendHook(createViolationHook(found => violations.push(...found)));
+    try {
+        appendEntry(root, entry);
+    } finally {
+        removeHook();
+    }
+    return violations;
+}
+
+function warnViolations(violations: PromiseViolation[]): void {
+    for (const { promise, reason } of violations) {
+        console.log(chalk.yellow(`  ⚠ Breaks promise ${promise.id.slice(0, 8)}: ${reason}.`));
+    }
+    if (violations.length > 0) {
+        console.log(chalk.dim('  Recorded as proposed broken verdicts for a witness or human to confirm.'));
+    }
+}
+
+/**
+ * Parse --due-by: an ISO date or time, or relative from now (30m, 12h, 3d, 2w).
+ * A date without a time means the end of that day.
+ */
+function parseDueBy(value: string): string {
+    const now = Date.now();
+    try {
+        // Relative query dates count back from now; deadlines count forward
+        const time = /^\d+[mhdw]$/.test(value.trim())
+            ? 2 * now - parseQueryDate(value, false, now)
+            : parseQueryDate(value, true, now);
+        return new Date(time).toISOString();
+    } catch (e) {
+        console.log(chalk.red((e as Error).message));
+        process.exit(1);
+    }
+}
+
+function formatDueBy(promise: PromiseEntry): string {
+    if (!promise.dueBy) {
+        return '';
+    }
+    const due = new Date(promise.dueBy).toLocaleString();
+    return isOverduePromise(promise) ? chalk.red(` OVERDUE (due ${due})`) : chalk.dim(` due ${due}`);
+}
+
 function getAgentColor(name: string) {
     switch (name.toLowerCase()) {
         case 'claude-code':
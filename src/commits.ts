@@ -0,0 +1,253 @@
+/**
+ * Commit links: which ledger entries went into which git commit
+ *
+ * The post-commit hook appends one CommitLink per commit to commits.jsonl,
+ * naming the entries logged since the previous commit and the artifacts
+ * git says the commit changed. `explainLine` walks back from a line of
+ * code through git blame to those entries and their reasoning.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CommitLink, LedgerEntry } from './types.js';
+import { LEDGERSYNC_DIR, readLedger, normalizeProjectPath } from './ledger.js';
+import { appendLineLocked, withFileLock } from './lock.js';
+import {
+    getCommitInfo,
+    getCommitArtifacts,
+    getHooksDir,
+    getRepoPrefix,
+    blameLine,
+} from './git.js';
+import type { BlameInfo } from './git.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const COMMITS_FILE = 'commits.jsonl';
+
+const HOOK_START = '# >>> ledgersync >>>';
+const HOOK_END = '# <<< ledgersync <<<';
+
+// ============================================
+// PATH UTILITIES
+// ============================================
+
+export function getCommitsPath(root: string): string {
+    return path.join(root, LEDGERSYNC_DIR, COMMITS_FILE);
+}
+
+// ============================================
+// READ OPERATIONS
+// ============================================
+
+export function readCommitLinks(root: string): CommitLink[] {
+    const commitsPath = getCommitsPath(root);
+
+    if (!fs.existsSync(commitsPath)) {
+        return [];
+    }
+
+    const content = fs.readFileSync(commitsPath, 'utf-8');
+    const lines = content.trim().split('\n').filter(line => line.trim());
+
+    return lines.map((line, index) => {
+        try {
+            return JSON.parse(line) as CommitLink;
+        } catch (e) {
+            throw new Error(`Invalid JSON on line ${index + 1}: ${(e as Error).message}`);
+        }
+    });
+}
+
+/**
+ * Find a commit link by full or abbreviated SHA
+ */
+export function getCommitLink(root: string, sha: string): CommitLink | null {
+    return readCommitLinks(root).find(c => c.sha.startsWith(sha)) ?? null;
+}
+
+/**
+ * Commits an entry was linked to (usually one)
+ */
+export function getCommitsForEntry(root: string, entryId: string): CommitLink[] {
+    return readCommitLinks(root).filter(c => c.entryIds.includes(entryId));
+}
+
+// ============================================
+// WRITE OPERATIONS
+// ============================================
+
+/**
+ * Link a commit to the entries logged since its parent was committed that
+ * no earlier commit claimed. Returns null if the commit doesn't exist or
+ * was already recorded.
+ */
+export function recordCommit(root: string, rev: string = 'HEAD'): CommitLink | null {
+    const commit = getCommitInfo(root, rev);
+    if (!commit) {
+        return null;
+    }
+
+    const commitsPath = getCommitsPath(root);
+    return withFileLock(commitsPath, () => {
+        const links = readCommitLinks(root);
+        if (links.some(c => c.sha === commit.sha)) {
+            return null;
+        }
+
+        const claimed = new Set(links.flatMap(c => c.entryIds));
+        const parentLink = links.find(c => c.sha === commit.parents[0]);
+        const parent = commit.parents[0] ? getCommitInfo(root, commit.parents[0]) : null;
+
+        // Commit times have one-second resolution; when the parent was recorded is exact
+        const since = parentLink
+            ? Date.parse(parentLink.recordedAt)
+            : parent ? Date.parse(parent.timestamp) + 1000 : -Infinity;
+
+        const entryIds = readLedger(root)
+            .filter(e => !claimed.has(e.id) && Date.parse(e.timestamp) >= since)
+            .map(e => e.id);
+
+        const link: CommitLink = {
+            sha: commit.sha,
+            timestamp: commit.timestamp,
+            recordedAt: new Date().toISOString(),
+            subject: commit.subject,
+            entryIds,
+            artifacts: getCommitArtifacts(root, commit.sha) ?? [],
+        };
+
+        appendLineLocked(commitsPath, JSON.stringify(link));
+        return link;
+    });
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+function hookBlock(root: string): string {
+    const prefix = getRepoPrefix(root);
+    const dir = prefix ? `"$(git rev-parse --show-toplevel)/${prefix.replace(/\/$/, '')}"` : '"$(git rev-parse --show-toplevel)"';
+    return [
+        HOOK_START,
+        '# Link this commit to the ledger entries logged since the last one',
+        `(cd ${dir} && { ledgersync git record-commit --quiet || npx --no-install ledgersync git record-commit --quiet; }) >/dev/null 2>&1 || true`,
+        HOOK_END,
+    ].join('\n');
+}
+
+/**
+ * Install the post-commit hook, appending to an existing hook if there is one.
+ * Returns the hook path and whether it was already installed.
+ */
+export function installCommitHook(root: string): { hookPath: string; alreadyInstalled: boolean } {
+    const hooksDir = getHooksDir(root);
+    if (!hooksDir) {
+        throw new Error('Not a git repository');
+    }
+
+    if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+        throw new Error(`Git hooks are disabled here (core.hooksPath is ${hooksDir})`);
+    }
+
+    const hookPath = path.join(hooksDir, 'post-commit');
+    const existing = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, 'utf-8') : '';
+
+    if (existing.includes(HOOK_START)) {
+        return { hookPath, alreadyInstalled: true };
+    }
+
+    const content = existing
+        ? `${existing.replace(/\n*$/, '\n')}\n${hookBlock(root)}\n`
+        : `#!/bin/sh\n${hookBlock(root)}\n`;
+
+    fs.mkdirSync(hooksDir, { recursive: true });
+    fs.writeFileSync(hookPath, content, { encoding: 'utf-8', mode: 0o755 });
+    fs.chmodSync(hookPath, 0o755);
+    return { hookPath, alreadyInstalled: false };
+}
+
+/**
+ * Remove the ledgersync block from the post-commit hook.
+ * Deletes the hook if nothing else is left in it. Returns false if it wasn't installed.
+ */
+export function uninstallCommitHook(root: string): boolean {
+    const hooksDir = getHooksDir(root);
+    const hookPath = hooksDir ? path.join(hooksDir, 'post-commit') : null;
+    if (!hookPath || !fs.existsSync(hookPath)) {
+        return false;
+    }
+
+    const existing = fs.readFileSync(hookPath, 'utf-8');
+    const start = existing.indexOf(HOOK_START);
+    const end = existing.indexOf(HOOK_END);
+    if (start === -1 || end === -1) {
+        return false;
+    }
+
+    const rest = (existing.slice(0, start) + existing.slice(end + HOOK_END.length)).replace(/\n{3,}/g, '\n\n');
+    if (rest.replace('#!/bin/sh', '').trim() === '') {
+        fs.rmSync(hookPath);
+    } else {
+        fs.writeFileSync(hookPath, rest, 'utf-8');
+    }
+    return true;
+}
+
+// ============================================
+// BLAME
+// ============================================
+
+export interface LineExplanation {
+    blame: BlameInfo;
+    commit: CommitLink | null;         // Null if the hook didn't record this commit
+    entries: LedgerEntry[];
+    linked: boolean;                   // False: entries were matched by file and time instead
+}
+
+/**
+ * Explain a line of code: the commit that last touched it and the ledger
+ * entries behind that commit. For commits recorded before the hook was
+ * installed, falls back to entries that touched the file in the time
+ * between the commit's parent and the commit.
+ * Returns null if git can't blame the line.
+ */
+export function explainLine(root: string, filePath: string, line: number): LineExplanation | null {
+    const file = normalizeProjectPath(filePath);
+    const blame = blameLine(root, file, line);
+    if (!blame) {
+        return null;
+    }
+
+    const entries = readLedger(root);
+
+    if (blame.uncommitted) {
+        // Not committed yet: the latest entries touching the file are the best guess
+        const touching = entries.filter(e => e.artifacts.some(a => normalizeProjectPath(a.path) === file));
+        return { blame, commit: null, entries: touching.slice(-3), linked: false };
+    }
+
+    const commit = getCommitLink(root, blame.sha);
+    if (commit) {
+        const ids = new Set(commit.entryIds);
+        const linkedEntries = entries.filter(e => ids.has(e.id));
+        // Prefer the entries that said they touched this file, if any did
+        const touching = linkedEntries.filter(e => e.artifacts.some(a => normalizeProjectPath(a.path) === file));
+        return { blame, commit, entries: touching.length > 0 ? touching : linkedEntries, linked: true };
+    }
+
+    const info = getCommitInfo(root, blame.sha);
+    const parent = info?.parents[0] ? getCommitInfo(root, info.parents[0]) : null;
+    const since = parent ? Date.parse(parent.timestamp) : -Infinity;
+    const until = Date.parse(info?.timestamp ?? blame.timestamp) + 60_000;
+
+    const candidates = entries.filter(e => {
+        const time = Date.parse(e.timestamp);
+        return time >= since && time <= until && e.artifacts.some(a => normalizeProjectPath(a.path) === file);
+    });
+
+    return { blame, commit: null, entries: candidates, linked: false };
+}
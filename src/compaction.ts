@@ -0,0 +1,155 @@
+/**
+ * Compaction: roll older entries up into summary entries
+ *
+ * Once more than ledger.summarizeAfter entries have been logged since the
+ * last rollup (beyond the ledger.maxEntriesToLoad most recent ones, which
+ * stay raw), the oldest summarizeAfter of them are summarized in a
+ * 'rollup' entry. Summaries then read rollups plus the recent tail. The
+ * original lines are never touched; rollups point back to them through
+ * relatedEntries.
+ */
+
+import type { LedgerConfig, LedgerEntry, RollupInfo } from './types.js';
+import { isRollupEntry } from './types.js';
+import { appendEntry, countLedgerEntries, createRollupEntry, getLedgerPath, isKeyDecision, readLastN, readLedger } from './ledger.js';
+import { buildCalibrationProfile, getCalibratedConfidence } from './calibration.js';
+import { withFileLock } from './lock.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CompactionPlan {
+    pending: number;               // Entries not covered by any rollup yet
+    ranges: LedgerEntry[][];       // Ranges that would each become one rollup
+}
+
+/** Agent name rollup entries are logged under */
+export const ROLLUP_AGENT = 'ledgersync';
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Entries logged after the range covered by the last rollup (rollups excluded)
+ */
+export function getUnrolledEntries(entries: LedgerEntry[]): LedgerEntry[] {
+    let start = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const entry = entries[i];
+        if (isRollupEntry(entry)) {
+            const end = entries.findIndex(e => e.id === entry.rollup.toEntryId);
+            start = end + 1;
+            break;
+        }
+    }
+    return entries.slice(start).filter(e => !isRollupEntry(e));
+}
+
+/**
+ * Split the unrolled entries into full ranges of summarizeAfter entries,
+ * always leaving the maxEntriesToLoad most recent ones out
+ */
+export function planCompaction(entries: LedgerEntry[], config: LedgerConfig): CompactionPlan {
+    const { summarizeAfter, maxEntriesToLoad } = config.ledger;
+    const pending = getUnrolledEntries(entries);
+    const ranges: LedgerEntry[][] = [];
+
+    for (let start = 0; pending.length - start - summarizeAfter >= maxEntriesToLoad; start += summarizeAfter) {
+        ranges.push(pending.slice(start, start + summarizeAfter));
+    }
+
+    return { pending: pending.length, ranges };
+}
+
+/**
+ * Whether compactLedger would write a rollup, without parsing the whole
+ * ledger. Rollups are appended after the entries they cover, so the tail
+ * shows how many entries are unrolled unless the last rollup's range ends
+ * before the tail; then only a full plan can tell.
+ */
+export function isCompactionDue(root: string, config: LedgerConfig): boolean {
+    const needed = config.ledger.summarizeAfter + config.ledger.maxEntriesToLoad;
+    if (countLedgerEntries(root) < needed) {
+        return false;
+    }
+
+    const tail = readLastN(root, needed);
+    const lastRollup = [...tail].reverse().find(isRollupEntry);
+    if (lastRollup && !tail.some(e => e.id === lastRollup.rollup.toEntryId)) {
+        return true;
+    }
+    return getUnrolledEntries(tail).length >= needed;
+}
+
+// ============================================
+// ROLLUPS
+// ============================================
+
+/**
+ * Summarize a range of entries. Decisions are picked by confidence, calibrated if given.
+ */
+export function buildRollup(entries: LedgerEntry[], confidence?: (entry: LedgerEntry) => number | undefined): RollupInfo {
+    if (entries.length === 0) {
+        throw new Error('Cannot roll up an empty range');
+    }
+
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+
+    return {
+        fromEntryId: first.id,
+        toEntryId: last.id,
+        from: first.timestamp,
+        to: last.timestamp,
+        entryCount: entries.length,
+        agents: [...new Set(entries.map(e => e.agent.name))],
+        files: [...new Set(entries.flatMap(e => e.artifacts.map(a => a.path)))],
+        decisions: entries
+            .filter(e => isKeyDecision(e, confidence))
+            .map(e => `[${e.agent.name}] ${e.action.summary}`),
+        uncertainties: [...new Set(entries.flatMap(e => e.reasoning.uncertainties ?? []))],
+    };
+}
+
+function createRollup(entries: LedgerEntry[], confidence?: (entry: LedgerEntry) => number | undefined): LedgerEntry {
+    const rollup = buildRollup(entries, confidence);
+    return createRollupEntry(
+        { name: ROLLUP_AGENT },
+        {
+            type: 'other',
+            summary: `Rolled up ${rollup.entryCount} entries (${rollup.from.slice(0, 10)} – ${rollup.to.slice(0, 10)})`,
+        },
+        { intent: 'Compact older history so summaries stay short' },
+        rollup,
+        { relatedEntries: entries.map(e => e.id), tags: ['rollup'] }
+    );
+}
+
+/**
+ * Write a rollup for every full range that is due. With dryRun, returns
+ * the rollups without writing them.
+ */
+export function compactLedger(root: string, config: LedgerConfig, options: { dryRun?: boolean } = {}): LedgerEntry[] {
+    // Runs after every append: check cheaply before reading everything
+    if (!isCompactionDue(root, config)) {
+        return [];
+    }
+
+    // Hold the ledger lock so two writers don't roll up the same range
+    return withFileLock(getLedgerPath(root), () => {
+        const entries = readLedger(root);
+        const { ranges } = planCompaction(entries, config);
+        const confidence = ranges.length > 0 ? getCalibratedConfidence(buildCalibrationProfile(entries)) : undefined;
+        const rollups = ranges.map(range => createRollup(range, confidence));
+
+        if (!options.dryRun) {
+            for (const rollup of rollups) {
+                appendEntry(root, rollup);
+            }
+        }
+
+        return rollups;
+    });
+}
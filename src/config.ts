@@ -0,0 +1,233 @@
+/**
+ * Config operations: load, validate, save, migrate
+ *
+ * config.yaml is checked against schema/config.schema.json on every load,
+ * so a malformed config fails with a readable message instead of deep
+ * inside a command. Older configs (and the old .metacog/ folder) are
+ * upgraded by `ledgersync migrate`.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { LedgerConfig } from './types.js';
+import { LEDGERSYNC_DIR, getConfigPath } from './ledger.js';
+import { writeFileAtomic } from './lock.js';
+
+// Load JSON schema using createRequire for ESM compatibility
+const require = createRequire(import.meta.url);
+const configSchema = require('./schema/config.schema.json');
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CONFIG_VERSION = '0.2.0';
+
+/** Folder name used before the project was renamed to LedgerSync */
+export const LEGACY_DIR = '.metacog';
+
+const DEFAULT_LEDGER_SETTINGS = {
+    maxEntriesToLoad: 20,
+    summarizeAfter: 50,
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+import AjvModule from 'ajv';
+import addFormatsModule from 'ajv-formats';
+const Ajv = AjvModule.default || AjvModule;
+const addFormats = addFormatsModule.default || addFormatsModule;
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const validateConfig = ajv.compile(configSchema);
+
+export function isValidConfig(config: unknown): config is LedgerConfig {
+    return validateConfig(config) as boolean;
+}
+
+/**
+ * Errors from the last isValidConfig call, as "field.path: problem"
+ */
+export function getConfigValidationErrors(): string[] {
+    return validateConfig.errors?.map(e => {
+        const field = e.instancePath.slice(1).replace(/\//g, '.');
+        const allowed = e.keyword === 'enum' ? ` (${(e.params.allowedValues as string[]).join(', ')})` : '';
+        return `${field || 'config'}: ${e.message}${allowed}`;
+    }) ?? [];
+}
+
+// ============================================
+// READ & WRITE
+// ============================================
+
+export function createDefaultConfig(projectName: string = 'My Project'): LedgerConfig {
+    return {
+        version: CONFIG_VERSION,
+        project: {
+            name: projectName,
+            description: 'Initialized by ledgersync',
+        },
+        philosophy: {
+            required: [],
+            optional: [],
+        },
+        codebases: [],
+        ledger: { ...DEFAULT_LEDGER_SETTINGS },
+        constraints: [],
+    };
+}
+
+/**
+ * Parse a config file without validating it
+ */
+export function parseConfigFile(configPath: string): unknown {
+    const name = path.join(path.basename(path.dirname(configPath)), path.basename(configPath));
+    if (!fs.existsSync(configPath)) {
+        throw new Error(`Missing ${name}`);
+    }
+
+    try {
+        return parseYaml(fs.readFileSync(configPath, 'utf-8'));
+    } catch (e) {
+        throw new Error(`Invalid YAML in ${name}: ${(e as Error).message}`);
+    }
+}
+
+/**
+ * Read config.yaml without validating it
+ */
+export function readRawConfig(root: string): unknown {
+    return parseConfigFile(getConfigPath(root));
+}
+
+/**
+ * Read and validate config.yaml. Throws with every schema error listed.
+ */
+export function loadConfig(root: string): LedgerConfig {
+    const config = readRawConfig(root);
+
+    if (!isValidConfig(config)) {
+        const errors = getConfigValidationErrors().map(e => `  - ${e}`).join('\n');
+        throw new Error(`Invalid ${path.join(LEDGERSYNC_DIR, 'config.yaml')}:\n${errors}`);
+    }
+
+    return config;
+}
+
+export function saveConfig(root: string, config: LedgerConfig): void {
+    writeFileAtomic(getConfigPath(root), stringifyYaml(config));
+}
+
+// ============================================
+// MIGRATION
+// ============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrade a config from an older version: fill in missing sections,
+ * accept older shorthand forms and stamp the current version.
+ * Returns the upgraded config and a description of each change.
+ */
+export function migrateConfig(raw: unknown): { config: LedgerConfig; changes: string[] } {
+    if (!isObject(raw)) {
+        throw new Error('config.yaml must be a YAML mapping');
+    }
+
+    const config = { ...raw } as Record<string, unknown>;
+    const changes: string[] = [];
+
+    if (config.version !== CONFIG_VERSION) {
+        changes.push(`version: ${config.version ?? '(none)'} → ${CONFIG_VERSION}`);
+        config.version = CONFIG_VERSION;
+    }
+
+    if (typeof config.project === 'string') {
+        config.project = { name: config.project };
+        changes.push('project: name moved under project.name');
+    } else if (!isObject(config.project)) {
+        config.project = { name: 'My Project' };
+        changes.push('project: added');
+    }
+
+    if (Array.isArray(config.philosophy)) {
+        config.philosophy = { required: config.philosophy, optional: [] };
+        changes.push('philosophy: doc list moved under philosophy.required');
+    } else if (!isObject(config.philosophy)) {
+        config.philosophy = { required: [], optional: [] };
+        changes.push('philosophy: added');
+    } else if (!Array.isArray(config.philosophy.required)) {
+        config.philosophy = { ...config.philosophy, required: [] };
+        changes.push('philosophy.required: added');
+    }
+
+    if (!Array.isArray(config.codebases)) {
+        config.codebases = [];
+        changes.push('codebases: added');
+    }
+
+    const ledger = isObject(config.ledger) ? config.ledger : {};
+    for (const [key, value] of Object.entries(DEFAULT_LEDGER_SETTINGS)) {
+        if (ledger[key] === undefined) {
+            changes.push(`ledger.${key}: set to ${value}`);
+        }
+    }
+    config.ledger = { ...DEFAULT_LEDGER_SETTINGS, ...ledger };
+
+    if (!Array.isArray(config.constraints)) {
+        config.constraints = [];
+        changes.push('constraints: added');
+    } else {
+        config.constraints = config.constraints.map(c => {
+            if (isObject(c) && c.appliesTo === undefined) {
+                changes.push(`constraints.${c.id}.appliesTo: set to ['*']`);
+                return { ...c, appliesTo: ['*'] };
+            }
+            return c;
+        });
+    }
+
+    return { config: config as unknown as LedgerConfig, changes };
+}
+
+/**
+ * Find an old .metacog/ folder in startDir or above
+ */
+export function findLegacyRoot(startDir: string = process.cwd()): string | null {
+    let current = startDir;
+
+    while (current !== path.parse(current).root) {
+        if (fs.existsSync(path.join(current, LEGACY_DIR))) {
+            return current;
+        }
+        current = path.dirname(current);
+    }
+
+    return null;
+}
+
+/**
+ * Rename root/.metacog/ to root/.ledgersync/. Returns false if there is
+ * no .metacog/; throws if both folders exist.
+ */
+export function migrateLegacyDir(root: string): boolean {
+    const legacyDir = path.join(root, LEGACY_DIR);
+    const currentDir = path.join(root, LEDGERSYNC_DIR);
+
+    if (!fs.existsSync(legacyDir)) {
+        return false;
+    }
+    if (fs.existsSync(currentDir)) {
+        throw new Error(`Both ${LEGACY_DIR}/ and ${LEDGERSYNC_DIR}/ exist in ${root}; merge them by hand`);
+    }
+
+    fs.renameSync(legacyDir, currentDir);
+    return true;
+}
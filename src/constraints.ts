@@ -0,0 +1,341 @@
+/**
+ * Constraint enforcement: which constraints apply to which files,
+ * which ledger entries touched a codebase without citing them,
+ * and which changes break a constraint's machine-checkable rules
+ */
+
+import type {
+    LedgerEntry,
+    LedgerConfig,
+    CodebaseConfig,
+    Constraint,
+    ConstraintRules,
+    ReviewFinding,
+} from './types.js';
+import type { AddedLine } from './git.js';
+import { matchesAnyGlob, matchesGlob } from './glob.js';
+import { appendEntry, createReviewEntry, readByTag, normalizeProjectPath, LEDGERSYNC_DIR } from './ledger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ConstraintSeverity = Constraint['severity'];
+
+export interface ConstraintViolation {
+    entryId: string;
+    timestamp: string;
+    agent: string;
+    summary: string;
+    constraint: Constraint;
+    files: string[];               // Artifacts the constraint applies to
+    codebases: string[];           // Codebases those files belong to
+}
+
+export type ConstraintRuleName = keyof ConstraintRules;
+
+export interface RuleViolation {
+    constraint: Constraint;
+    rule: ConstraintRuleName;
+    location: string;              // File, or file:line for pattern matches
+    issue: string;
+    entryId?: string;              // Entry whose artifact broke the rule; absent for working tree findings
+    agent?: string;
+    timestamp?: string;
+}
+
+export interface RuleEvaluationOptions {
+    severities?: ConstraintSeverity[];
+    reviews?: LedgerEntry[];       // Entries that can satisfy requireReview (defaults to the checked entries)
+    workingTree?: Map<string, AddedLine[]> | null;  // Added lines; pattern checks are skipped without it
+}
+
+/** Tag on review entries generated from rule violations */
+export const RULE_VIOLATION_TAG = 'constraint-rule';
+
+// ============================================
+// PATH MATCHING
+// ============================================
+
+/**
+ * Find the codebase a file belongs to (longest matching path wins)
+ */
+export function findCodebase(filePath: string, codebases: CodebaseConfig[]): CodebaseConfig | undefined {
+    const file = normalizeProjectPath(filePath);
+    let best: CodebaseConfig | undefined;
+    let bestLength = -1;
+
+    for (const codebase of codebases) {
+        const base = normalizeProjectPath(codebase.path);
+        const matches = base === '' || base === '.' || file === base || file.startsWith(base + '/');
+        if (matches && base.length > bestLength) {
+            best = codebase;
+            bestLength = base.length;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Constraints that apply to a file: those targeting its codebase, plus '*'
+ */
+export function getApplicableConstraints(filePath: string, config: LedgerConfig): Constraint[] {
+    const codebase = findCodebase(filePath, config.codebases ?? []);
+    return (config.constraints ?? []).filter(c => {
+        const appliesTo = c.appliesTo ?? ['*'];
+        return appliesTo.includes('*') || (codebase !== undefined && appliesTo.includes(codebase.name));
+    });
+}
+
+/**
+ * Whether an entry cited a constraint in grounding.constraintsApplied.
+ * Only the exact ID counts: "c10" doesn't cite "c1".
+ */
+export function citesConstraint(entry: LedgerEntry, constraintId: string): boolean {
+    return entry.grounding?.constraintsApplied?.some(c => c.trim() === constraintId) ?? false;
+}
+
+// ============================================
+// CHECKING
+// ============================================
+
+/**
+ * Find entries that changed files governed by a constraint of the given
+ * severities without citing it. Read-only artifacts are ignored.
+ */
+export function checkConstraints(
+    entries: LedgerEntry[],
+    config: LedgerConfig,
+    severities: ConstraintSeverity[] = ['critical', 'high']
+): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = [];
+
+    for (const entry of entries) {
+        const byConstraint = new Map<string, { constraint: Constraint; files: Set<string>; codebases: Set<string> }>();
+
+        for (const artifact of entry.artifacts) {
+            if (artifact.action === 'read') continue;
+
+            const codebase = findCodebase(artifact.path, config.codebases ?? []);
+            for (const constraint of getApplicableConstraints(artifact.path, config)) {
+                if (!severities.includes(constraint.severity) || citesConstraint(entry, constraint.id)) {
+                    continue;
+                }
+
+                const hit = byConstraint.get(constraint.id)
+                    ?? { constraint, files: new Set<string>(), codebases: new Set<string>() };
+                hit.files.add(artifact.path);
+                if (codebase) hit.codebases.add(codebase.name);
+                byConstraint.set(constraint.id, hit);
+            }
+        }
+
+        for (const { constraint, files, codebases } of byConstraint.values()) {
+            violations.push({
+                entryId: entry.id,
+                timestamp: entry.timestamp,
+                agent: entry.agent.name,
+                summary: entry.action.summary,
+                constraint,
+                files: [...files],
+                codebases: [...codebases],
+            });
+        }
+    }
+
+    return violations;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+function compilePatterns(constraint: Constraint): RegExp[] {
+    return (constraint.rules?.forbiddenPatterns ?? []).map(pattern => {
+        try {
+            return new RegExp(pattern);
+        } catch (e) {
+            throw new Error(`Invalid forbiddenPatterns regex in constraint ${constraint.id}: ${(e as Error).message}`);
+        }
+    });
+}
+
+/**
+ * Whether a review entry logged at or after a change covers the changed
+ * file in its scope. The author of the change can't review it.
+ */
+function isReviewed(filePath: string, change: LedgerEntry, reviews: LedgerEntry[]): boolean {
+    return reviews.some(r =>
+        r.review !== undefined &&
+        !r.tags?.includes(RULE_VIOLATION_TAG) &&
+        r.agent.name !== change.agent.name &&
+        r.timestamp >= change.timestamp &&
+        r.review.scope.some(scope => matchesGlob(filePath, normalizeProjectPath(scope)))
+    );
+}
+
+/**
+ * Evaluate constraint rules against the artifacts of ledger entries and,
+ * if given, lines added in the working tree. Artifacts record paths, not
+ * content, so forbiddenPatterns are only checked in the working tree.
+ * Rules only apply to files within the constraint's codebases; read-only
+ * artifacts and the .ledgersync/ directory are ignored.
+ */
+export function evaluateConstraintRules(
+    entries: LedgerEntry[],
+    config: LedgerConfig,
+    options: RuleEvaluationOptions = {}
+): RuleViolation[] {
+    const severities = options.severities ?? ['critical', 'high', 'medium', 'low'];
+    const reviews = (options.reviews ?? entries).filter(e => e.entryType === 'review');
+    const violations: RuleViolation[] = [];
+
+    const ruled = (config.constraints ?? []).filter(c => c.rules && severities.includes(c.severity));
+    if (ruled.length === 0) {
+        return violations;
+    }
+
+    const governs = (constraint: Constraint, filePath: string) =>
+        getApplicableConstraints(filePath, config).some(c => c.id === constraint.id);
+
+    // Artifact checks: forbidden paths, required reviews, size limits
+    const flaggedPaths = new Set<string>();
+    for (const entry of entries) {
+        const changed = entry.artifacts.filter(a => a.action !== 'read');
+
+        for (const constraint of ruled) {
+            const rules = constraint.rules!;
+            const governed = changed.filter(a => governs(constraint, a.path));
+            const source = { entryId: entry.id, agent: entry.agent.name, timestamp: entry.timestamp };
+
+            for (const artifact of governed) {
+                const file = normalizeProjectPath(artifact.path);
+
+                if (rules.forbiddenPaths && matchesAnyGlob(file, rules.forbiddenPaths)) {
+                    flaggedPaths.add(`${constraint.id}\0${file}`);
+                    violations.push({
+                        constraint,
+                        rule: 'forbiddenPaths',
+                        location: file,
+                        issue: `${file} was ${artifact.action} but is off-limits`,
+                        ...source,
+                    });
+                }
+
+                if (rules.requireReview && matchesAnyGlob(file, rules.requireReview) &&
+                    !isReviewed(file, entry, reviews)) {
+                    violations.push({
+                        constraint,
+                        rule: 'requireReview',
+                        location: file,
+                        issue: `${file} was ${artifact.action} with no review by another agent covering it since`,
+                        ...source,
+                    });
+                }
+            }
+
+            if (rules.maxLinesChanged !== undefined) {
+                const lines = governed.reduce((sum, a) => sum + (a.linesChanged ?? 0), 0);
+                if (lines > rules.maxLinesChanged) {
+                    violations.push({
+                        constraint,
+                        rule: 'maxLinesChanged',
+                        location: governed.map(a => normalizeProjectPath(a.path)).join(', '),
+                        issue: `${lines} lines changed in one entry (limit ${rules.maxLinesChanged})`,
+                        ...source,
+                    });
+                }
+            }
+        }
+    }
+
+    // Working tree checks: forbidden patterns in added lines, and forbidden paths nobody logged
+    if (options.workingTree) {
+        for (const constraint of ruled) {
+            const rules = constraint.rules!;
+            const patterns = compilePatterns(constraint);
+
+            for (const [file, added] of options.workingTree) {
+                if (file.startsWith(LEDGERSYNC_DIR + '/') || !governs(constraint, file)) continue;
+
+                if (rules.forbiddenPaths && matchesAnyGlob(file, rules.forbiddenPaths) &&
+                    !flaggedPaths.has(`${constraint.id}\0${file}`)) {
+                    violations.push({
+                        constraint,
+                        rule: 'forbiddenPaths',
+                        location: file,
+                        issue: `${file} has uncommitted changes but is off-limits`,
+                    });
+                }
+
+                for (const { line, text } of added) {
+                    const pattern = patterns.find(p => p.test(text));
+                    if (pattern) {
+                        violations.push({
+                            constraint,
+                            rule: 'forbiddenPatterns',
+                            location: `${file}:${line}`,
+                            // The matched text is left out: it may be a secret, and this ends up in the ledger
+                            issue: `Added line matches forbidden pattern /${pattern.source}/`,
+                        });
+                    }
+                }
+            }
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Log critical rule violations as a review entry, so agents see them in
+ * the ledger. Violations already recorded by an earlier run are skipped.
+ * Returns the new entry, or null if there was nothing new to record.
+ */
+export function recordRuleViolations(root: string, violations: RuleViolation[]): LedgerEntry | null {
+    const recorded = new Set(
+        readByTag(root, RULE_VIOLATION_TAG)
+            .flatMap(e => e.review?.findings ?? [])
+            .map(f => `${f.location}\0${f.issue}`)
+    );
+
+    const findings: ReviewFinding[] = violations
+        .filter(v => v.constraint.severity === 'critical')
+        .map(v => ({
+            severity: v.constraint.severity,
+            location: v.location,
+            issue: `[${v.constraint.id}] ${v.issue}${v.entryId ? ` (entry ${v.entryId.slice(0, 8)} by ${v.agent})` : ''}`,
+            recommendation: v.constraint.description,
+        }))
+        .filter(f => !recorded.has(`${f.location}\0${f.issue}`));
+
+    if (findings.length === 0) {
+        return null;
+    }
+
+    const constraintIds = [...new Set(violations.filter(v => v.constraint.severity === 'critical').map(v => v.constraint.id))];
+    const entry = createReviewEntry(
+        { name: 'ledgersync' },
+        {
+            type: 'analyze',
+            summary: `Constraint check: ${findings.length} critical rule violation${findings.length === 1 ? '' : 's'}`,
+        },
+        {
+            intent: 'Record constraint rule violations where agents will see them',
+            confidence: 1,
+        },
+        {
+            scope: [...new Set(findings.map(f => f.location.replace(/:\d+$/, '')))],
+            findings,
+            overallAssessment: `Changes break critical constraints: ${constraintIds.join(', ')}`,
+        },
+        {
+            tags: [RULE_VIOLATION_TAG],
+            grounding: { constraintsApplied: constraintIds },
+        }
+    );
+
+    appendEntry(root, entry);
+    return entry;
+}
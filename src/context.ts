@@ -0,0 +1,290 @@
+/**
+ * Context bundle: everything an agent should know before starting work,
+ * in one document
+ *
+ * Combines the project info, the applicable constraints, grounding doc
+ * contents, the latest handoff, per-file history and active promises.
+ * Sections are ranked by priority and dropped or truncated from the
+ * bottom to fit a token budget.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LedgerConfig, Constraint, PromiseEntry } from './types.js';
+import {
+    generateSummary,
+    formatSummaryForAgent,
+    getFileHistory,
+    normalizeProjectPath,
+} from './ledger.js';
+import { formatPromiseSummary, getPromisesForFiles, readLivePromises, readPromises } from './promises.js';
+import { getApplicableConstraints } from './constraints.js';
+import { resolveGroundingDocs } from './grounding.js';
+import { getCalibratedConfidence, loadCalibrationProfile } from './calibration.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ContextSectionKind =
+    | 'project'
+    | 'constraints'
+    | 'required-doc'
+    | 'handoff'
+    | 'promises'
+    | 'file-history'
+    | 'optional-doc';
+
+export interface ContextSection {
+    kind: ContextSectionKind;
+    title: string;
+    priority: number;              // Lower is kept first
+    content: string;               // Markdown, including its heading
+    tokens: number;                // Estimated, after trimming
+    truncated: boolean;
+}
+
+export interface ContextBundle {
+    project: string;
+    generatedAt: string;
+    files: string[];
+    budget: number | null;         // Null: no budget, nothing trimmed
+    tokens: number;
+    sections: ContextSection[];
+    omitted: { kind: ContextSectionKind; title: string; tokens: number }[];
+}
+
+export interface ContextOptions {
+    files?: string[];
+    budget?: number;
+    lastN?: number;                // Entries to summarize (default config.ledger.maxEntriesToLoad)
+    historyPerFile?: number;       // Entries shown per file (default 5)
+}
+
+const PRIORITY: Record<ContextSectionKind, number> = {
+    'project': 0,
+    'constraints': 1,
+    'required-doc': 2,
+    'handoff': 3,
+    'promises': 4,
+    'file-history': 5,
+    'optional-doc': 6,
+};
+
+const SEVERITY_ORDER: Record<Constraint['severity'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Below this many tokens a truncated section isn't worth including
+const MIN_TRUNCATED_TOKENS = 64;
+
+const TRUNCATION_NOTE = '\n\n_…truncated to fit the token budget_';
+
+// ============================================
+// TOKENS
+// ============================================
+
+/**
+ * Rough token count: about four characters per token for English and code
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut text to a token count at a line boundary, marking the cut
+ */
+function truncateToTokens(text: string, tokens: number): string {
+    const maxChars = tokens * 4 - TRUNCATION_NOTE.length;
+    if (maxChars <= 0) {
+        return '';
+    }
+    const cut = text.slice(0, maxChars);
+    const lastNewline = cut.lastIndexOf('\n');
+    return (lastNewline > 0 ? cut.slice(0, lastNewline) : cut).trimEnd() + TRUNCATION_NOTE;
+}
+
+// ============================================
+// SECTIONS
+// ============================================
+
+function section(kind: ContextSectionKind, title: string, content: string): ContextSection {
+    return { kind, title, priority: PRIORITY[kind], content, tokens: estimateTokens(content), truncated: false };
+}
+
+function formatProject(config: LedgerConfig, files: string[]): string {
+    const lines = [`# Project: ${config.project.name}`];
+    if (config.project.description) {
+        lines.push('', config.project.description);
+    }
+    if (config.codebases.length > 0) {
+        lines.push('', '**Codebases:**', ...config.codebases.map(c => `- ${c.name} (${c.path})`));
+    }
+    if (files.length > 0) {
+        lines.push('', '**Files in scope:**', ...files.map(f => `- ${f}`));
+    }
+    return lines.join('\n');
+}
+
+function formatConstraints(constraints: Constraint[]): string {
+    const lines = ['## Constraints', ''];
+    for (const c of constraints) {
+        lines.push(`- **${c.id}** (${c.severity}): ${c.description}`);
+        const rules = c.rules;
+        if (rules?.forbiddenPaths?.length) lines.push(`  - Do not touch: ${rules.forbiddenPaths.join(', ')}`);
+        if (rules?.requireReview?.length) lines.push(`  - Needs a review entry: ${rules.requireReview.join(', ')}`);
+        if (rules?.forbiddenPatterns?.length) lines.push(`  - Forbidden patterns: ${rules.forbiddenPatterns.map(p => `\`${p}\``).join(', ')}`);
+        if (rules?.maxLinesChanged !== undefined) lines.push(`  - At most ${rules.maxLinesChanged} lines changed per entry, across the files this constraint governs`);
+    }
+    lines.push('', '_Cite the ones you follow in grounding.constraintsApplied._');
+    return lines.join('\n');
+}
+
+function formatDoc(root: string, docPath: string, files?: string[]): string {
+    const fullPath = path.resolve(root, docPath);
+    const scope = files ? ` (for ${files.join(', ')})` : '';
+    const body = fs.existsSync(fullPath)
+        ? fs.readFileSync(fullPath, 'utf-8').trim()
+        : '_File not found._';
+    return [`## Grounding: ${docPath}${scope}`, '', body].join('\n');
+}
+
+function formatFileHistory(root: string, file: string, limit: number): string | null {
+    const history = getFileHistory(root, file);
+    if (history.entries.length === 0) {
+        return null;
+    }
+
+    const lines = [`## History: ${history.path}`, ''];
+    for (const rename of history.renames) {
+        lines.push(`_Renamed from ${rename.from}_`);
+    }
+
+    const shown = history.entries.slice(-limit);
+    if (shown.length < history.entries.length) {
+        lines.push(`_${history.entries.length - shown.length} earlier entries omitted; run \`ledgersync why ${history.path}\`_`);
+    }
+    for (const entry of shown) {
+        lines.push(`- ${entry.timestamp.slice(0, 10)} [${entry.agent.name}] ${entry.action.summary} — ${entry.reasoning.intent}`);
+        for (const u of entry.reasoning.uncertainties ?? []) {
+            lines.push(`  - ? ${u}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function formatFilePromises(promises: PromiseEntry[]): string[] {
+    return [
+        '### Promises About These Files',
+        ...promises.map(p => `- [${p.promiser.agent} → ${p.promisee.agent}] ${p.promise.type}: "${p.promise.summary}"`),
+        '',
+    ];
+}
+
+// ============================================
+// BUNDLE
+// ============================================
+
+/**
+ * Build the context bundle, optionally focused on some files.
+ * With a budget, whole sections are kept in priority order; the first
+ * one that doesn't fit is truncated and the rest are dropped unless
+ * they still fit.
+ */
+export function buildContextBundle(root: string, config: LedgerConfig, options: ContextOptions = {}): ContextBundle {
+    const files = (options.files ?? []).map(f => normalizeProjectPath(f, root));
+    const sections: ContextSection[] = [section('project', 'Project', formatProject(config, files))];
+
+    const constraints = files.length > 0
+        ? [...new Map(files.flatMap(f => getApplicableConstraints(f, config)).map(c => [c.id, c])).values()]
+        : config.constraints;
+    if (constraints.length > 0) {
+        const sorted = [...constraints].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+        sections.push(section('constraints', 'Constraints', formatConstraints(sorted)));
+    }
+
+    for (const doc of resolveGroundingDocs(root, config, files)) {
+        sections.push(doc.required
+            ? section('required-doc', doc.path, formatDoc(root, doc.path))
+            : section('optional-doc', doc.path, formatDoc(root, doc.path, doc.files)));
+    }
+
+    const summary = generateSummary(root, options.lastN ?? config.ledger.maxEntriesToLoad, {
+        handoff: true,
+        confidence: getCalibratedConfidence(loadCalibrationProfile(root)),
+    });
+    sections.push(section('handoff', 'Recent Activity', formatSummaryForAgent(summary)));
+
+    const promises = readPromises(root);
+    const live = readLivePromises(root, promises);
+    const liveIds = new Set(live.map(p => p.id));
+    const filePromises = files.length > 0
+        ? getPromisesForFiles(root, files).filter(p => liveIds.has(p.id))
+        : [];
+    if (promises.length > 0) {
+        const promiseLines = filePromises.length > 0 ? formatFilePromises(filePromises) : [];
+        sections.push(section('promises', 'Promises', [...promiseLines, formatPromiseSummary(root, promises, live)].join('\n')));
+    }
+
+    for (const file of files) {
+        const history = formatFileHistory(root, file, options.historyPerFile ?? 5);
+        if (history) {
+            sections.push(section('file-history', file, history));
+        }
+    }
+
+    sections.sort((a, b) => a.priority - b.priority);
+
+    if (options.budget === undefined) {
+        return {
+            project: config.project.name,
+            generatedAt: new Date().toISOString(),
+            files,
+            budget: null,
+            tokens: sections.reduce((sum, s) => sum + s.tokens, 0),
+            sections,
+            omitted: [],
+        };
+    }
+
+    const kept: ContextSection[] = [];
+    const omitted: ContextBundle['omitted'] = [];
+    let remaining = options.budget;
+
+    for (const s of sections) {
+        if (s.tokens <= remaining) {
+            kept.push(s);
+            remaining -= s.tokens;
+        } else if (remaining >= MIN_TRUNCATED_TOKENS) {
+            const content = truncateToTokens(s.content, remaining);
+            const tokens = estimateTokens(content);
+            kept.push({ ...s, content, tokens, truncated: true });
+            remaining -= tokens;
+        } else {
+            omitted.push({ kind: s.kind, title: s.title, tokens: s.tokens });
+        }
+    }
+
+    return {
+        project: config.project.name,
+        generatedAt: new Date().toISOString(),
+        files,
+        budget: options.budget,
+        tokens: options.budget - remaining,
+        sections: kept,
+        omitted,
+    };
+}
+
+export function formatContextBundle(bundle: ContextBundle): string {
+    const parts = bundle.sections.map(s => s.content);
+
+    if (bundle.omitted.length > 0) {
+        parts.push([
+            '## Omitted',
+            '',
+            `_Left out to stay within ${bundle.budget} tokens:_`,
+            ...bundle.omitted.map(o => `- ${o.title} (${o.kind}, ~${o.tokens} tokens)`),
+        ].join('\n'));
+    }
+
+    return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,240 @@
+/**
+ * Git helpers: read-only access to the repository the ledger lives in
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ArtifactChange } from './types.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AddedLine {
+    line: number;               // 1-based line number in the working tree file
+    text: string;
+}
+
+export interface CommitInfo {
+    sha: string;
+    parents: string[];
+    timestamp: string;          // Committer date, ISO 8601
+    author: string;
+    subject: string;
+}
+
+export interface BlameInfo {
+    sha: string;
+    uncommitted: boolean;       // The line has not been committed yet
+    author: string;
+    summary: string;
+    timestamp: string;          // Author date, ISO 8601
+}
+
+/** Hash of the empty tree, for diffing a root commit or an unborn HEAD */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// ============================================
+// COMMANDS
+// ============================================
+
+/**
+ * Run a git command in root. Returns stdout, or null if git fails
+ * (not installed, not a repository, unknown revision, ...).
+ */
+export function runGit(root: string, args: string[]): string | null {
+    try {
+        return execFileSync('git', args, {
+            cwd: root,
+            encoding: 'utf-8',
+            stdio: ['ignore', 'pipe', 'ignore'],
+            maxBuffer: 64 * 1024 * 1024,
+        });
+    } catch {
+        return null;
+    }
+}
+
+export function isGitRepo(root: string): boolean {
+    return runGit(root, ['rev-parse', '--is-inside-work-tree'])?.trim() === 'true';
+}
+
+/**
+ * Directory git runs hooks from (honours core.hooksPath)
+ */
+export function getHooksDir(root: string): string | null {
+    const dir = runGit(root, ['rev-parse', '--git-path', 'hooks'])?.trim();
+    return dir ? path.resolve(root, dir) : null;
+}
+
+/**
+ * Path of root relative to the top of the repository ('' at the top)
+ */
+export function getRepoPrefix(root: string): string {
+    return runGit(root, ['rev-parse', '--show-prefix'])?.trim() ?? '';
+}
+
+export function getCommitInfo(root: string, rev: string = 'HEAD'): CommitInfo | null {
+    const out = runGit(root, ['log', '-1', '--format=%H%n%P%n%cI%n%an%n%s', rev, '--']);
+    if (!out) return null;
+
+    const [sha, parents, timestamp, author, subject] = out.split('\n');
+    return {
+        sha,
+        parents: parents ? parents.split(' ') : [],
+        timestamp: new Date(timestamp).toISOString(),
+        author,
+        subject: subject ?? '',
+    };
+}
+
+// ============================================
+// DIFFS
+// ============================================
+
+function countLines(filePath: string): number | undefined {
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        if (content.includes('\0')) return undefined;
+        return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Artifacts changed between two revisions, from `git diff --numstat`.
+ * Without `to`, compares `from` with the working tree and includes untracked
+ * files as created. Binary files have no linesChanged.
+ * Paths are relative to root. Returns null outside a git repository.
+ */
+export function getDiffArtifacts(root: string, from: string = 'HEAD', to?: string): ArtifactChange[] | null {
+    if (!isGitRepo(root)) {
+        return null;
+    }
+
+    // An unborn HEAD has nothing to diff against but the empty tree
+    if (from === 'HEAD' && runGit(root, ['rev-parse', '--verify', '--quiet', 'HEAD']) === null) {
+        from = EMPTY_TREE;
+    }
+
+    const range = to ? [from, to] : [from];
+    const base = ['diff', '--no-renames', '--relative', '--no-ext-diff', ...range];
+    const numstat = runGit(root, [...base, '--numstat']);
+    const nameStatus = runGit(root, [...base, '--name-status']);
+    if (numstat === null || nameStatus === null) {
+        return null;
+    }
+
+    const actions = new Map<string, ArtifactChange['action']>();
+    for (const line of nameStatus.split('\n').filter(Boolean)) {
+        const [status, file] = line.split('\t');
+        actions.set(file, status === 'A' ? 'created' : status === 'D' ? 'deleted' : 'modified');
+    }
+
+    const artifacts: ArtifactChange[] = [];
+    for (const line of numstat.split('\n').filter(Boolean)) {
+        const [added, deleted, file] = line.split('\t');
+        artifacts.push({
+            path: file,
+            action: actions.get(file) ?? 'modified',
+            // Binary files show "-" for both counts
+            linesChanged: added === '-' ? undefined : parseInt(added, 10) + parseInt(deleted, 10),
+        });
+    }
+
+    if (!to) {
+        const untracked = runGit(root, ['ls-files', '--others', '--exclude-standard']) ?? '';
+        for (const file of untracked.split('\n').filter(Boolean)) {
+            artifacts.push({ path: file, action: 'created', linesChanged: countLines(path.join(root, file)) });
+        }
+    }
+
+    return artifacts;
+}
+
+/**
+ * Artifacts a commit changed, compared with its first parent
+ */
+export function getCommitArtifacts(root: string, sha: string): ArtifactChange[] | null {
+    const commit = getCommitInfo(root, sha);
+    if (!commit) return null;
+    return getDiffArtifacts(root, commit.parents[0] ?? EMPTY_TREE, commit.sha);
+}
+
+// ============================================
+// BLAME
+// ============================================
+
+/**
+ * The commit that last touched a line (1-based) of a file relative to root.
+ * Returns null if the file or line doesn't exist or root isn't a git repository.
+ */
+export function blameLine(root: string, filePath: string, line: number): BlameInfo | null {
+    const out = runGit(root, ['blame', '--porcelain', '-L', `${line},${line}`, '--', filePath]);
+    if (!out) return null;
+
+    const lines = out.split('\n');
+    const sha = lines[0].split(' ')[0];
+    const field = (name: string) => lines.find(l => l.startsWith(name + ' '))?.slice(name.length + 1) ?? '';
+    const authorTime = parseInt(field('author-time'), 10);
+
+    return {
+        sha,
+        uncommitted: /^0+$/.test(sha),
+        author: field('author'),
+        summary: field('summary'),
+        timestamp: new Date((isNaN(authorTime) ? 0 : authorTime) * 1000).toISOString(),
+    };
+}
+
+// ============================================
+// WORKING TREE
+// ============================================
+
+/**
+ * Lines added in the working tree relative to HEAD, by project-relative path.
+ * Untracked files count as entirely added. Returns null outside a git repository.
+ */
+export function getWorkingTreeAdditions(root: string): Map<string, AddedLine[]> | null {
+    if (!isGitRepo(root)) {
+        return null;
+    }
+
+    const additions = new Map<string, AddedLine[]>();
+
+    // A repository without commits has no HEAD; diff against the empty tree instead
+    const base = runGit(root, ['rev-parse', '--verify', '--quiet', 'HEAD']) !== null
+        ? 'HEAD'
+        : EMPTY_TREE;
+
+    const diff = runGit(root, ['diff', base, '--unified=0', '--no-color', '--no-ext-diff', '--relative']) ?? '';
+    let file: string | null = null;
+    let lineNumber = 0;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            file = line === '+++ /dev/null' ? null : line.slice(4).replace(/^b\//, '');
+        } else if (line.startsWith('@@')) {
+            const hunk = /\+(\d+)/.exec(line);
+            lineNumber = hunk ? parseInt(hunk[1], 10) : 0;
+        } else if (file && line.startsWith('+')) {
+            const lines = additions.get(file) ?? [];
+            lines.push({ line: lineNumber++, text: line.slice(1) });
+            additions.set(file, lines);
+        }
+    }
+
+    const untracked = runGit(root, ['ls-files', '--others', '--exclude-standard']) ?? '';
+    for (const relative of untracked.split('\n').filter(Boolean)) {
+        try {
+            const content = fs.readFileSync(path.join(root, relative), 'utf-8');
+            additions.set(relative, content.split('\n').map((text, i) => ({ line: i + 1, text })));
+        } catch {
+            // Unreadable (e.g. removed since listing): nothing to check
+        }
+    }
+
+    return additions;
+}
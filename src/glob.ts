@@ -0,0 +1,79 @@
+/**
+ * Minimal glob matching for project-relative paths
+ *
+ * Supports ** (any number of directories), * and ? (within one path
+ * segment) and {a,b} alternatives. Paths are compared with forward slashes.
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+    const cached = cache.get(glob);
+    if (cached) return cached;
+
+    let pattern = '';
+    let i = 0;
+    let braceDepth = 0;
+    const normalized = glob.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+
+    while (i < normalized.length) {
+        const char = normalized[i];
+
+        if (char === '/' && normalized.slice(i) === '/**') {
+            // A trailing "/**" also matches the directory itself
+            pattern += '(?:/.*)?';
+            i += 3;
+            continue;
+        }
+
+        if (char === '*') {
+            if (normalized[i + 1] === '*') {
+                // "**/" matches zero or more directories; a trailing "**" matches everything
+                if (normalized[i + 2] === '/') {
+                    pattern += '(?:.*/)?';
+                    i += 3;
+                } else {
+                    pattern += '.*';
+                    i += 2;
+                }
+                continue;
+            }
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            pattern += '(?:';
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            pattern += ')';
+            braceDepth--;
+        } else if (char === ',' && braceDepth > 0) {
+            pattern += '|';
+        } else {
+            pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+        i++;
+    }
+
+    const regex = new RegExp(`^${pattern}$`);
+    cache.set(glob, regex);
+    return regex;
+}
+
+/**
+ * Whether a project-relative path matches a glob.
+ * A glob without wildcards also matches everything under it as a directory.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+    const file = filePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+    if (globToRegExp(glob).test(file)) {
+        return true;
+    }
+
+    const dir = glob.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+    return !/[*?{]/.test(dir) && file.startsWith(dir + '/');
+}
+
+export function matchesAnyGlob(filePath: string, globs: string[]): boolean {
+    return globs.some(g => matchesGlob(filePath, g));
+}
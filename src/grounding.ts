@@ -0,0 +1,230 @@
+/**
+ * Grounding docs: which of the registered docs apply to a set of files,
+ * and which changed since agents last read them
+ *
+ * Required docs apply to everything. Optional docs are paths or globs,
+ * optionally scoped with appliesTo path globs, so an agent touching
+ * src/billing/ reads the billing docs and skips the rest.
+ *
+ * Each doc's SHA-256 is stored when it is registered and when an entry
+ * consults it, so decisions made against an older version can be found.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { LedgerConfig, LedgerEntry, GroundingInfo, OptionalDoc } from './types.js';
+import { LEDGERSYNC_DIR, normalizeProjectPath } from './ledger.js';
+import { globToRegExp, matchesAnyGlob } from './glob.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ApplicableDoc {
+    path: string;                  // Doc file, relative to the project root
+    pattern: string;               // The registered path or glob it came from
+    required: boolean;
+    files: string[];               // Which of the given files it applies to (all, for required docs)
+}
+
+export interface DocConsultation {
+    entryId: string;
+    agent: string;
+    timestamp: string;
+    summary: string;
+    hash: string;
+}
+
+export interface DocDrift {
+    path: string;
+    currentHash: string | null;    // Null if the file is gone
+    baselineHash: string | null;   // Version last consulted, else when registered; null if never hashed
+    lastConsulted: DocConsultation | null;
+    changed: boolean;              // Current content differs from the baseline
+    outdatedEntries: DocConsultation[];  // Entries that consulted a version other than the current one
+}
+
+// Directories never searched when expanding doc globs
+const SKIP_DIRS = new Set(['node_modules', '.git', LEDGERSYNC_DIR]);
+
+// ============================================
+// OPTIONAL DOCS
+// ============================================
+
+export function toOptionalDoc(item: string | OptionalDoc): OptionalDoc {
+    return typeof item === 'string' ? { path: item } : item;
+}
+
+export function isGlob(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+}
+
+/**
+ * Files under root matching a doc path or glob, relative to root.
+ * Only the part of the tree below the glob's fixed prefix is searched.
+ */
+export function expandDocPattern(root: string, pattern: string): string[] {
+    const normalized = normalizeProjectPath(pattern, root);
+
+    if (!isGlob(normalized)) {
+        return fs.existsSync(path.join(root, normalized)) ? [normalized] : [];
+    }
+
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(isGlob);
+    const base = segments.slice(0, firstGlob).join('/');
+    const regex = globToRegExp(normalized);
+    const matches: string[] = [];
+
+    const walk = (dir: string) => {
+        let dirents: fs.Dirent[];
+        try {
+            dirents = fs.readdirSync(path.join(root, dir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const dirent of dirents) {
+            const relative = dir ? `${dir}/${dirent.name}` : dirent.name;
+            if (dirent.isDirectory()) {
+                if (!SKIP_DIRS.has(dirent.name)) walk(relative);
+            } else if (regex.test(relative)) {
+                matches.push(relative);
+            }
+        }
+    };
+
+    walk(base);
+    return matches.sort();
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Docs an agent should read before touching the given files: every
+ * required doc, plus optional docs whose appliesTo matches one of the files.
+ * With no files, only required docs are returned.
+ */
+export function resolveGroundingDocs(root: string, config: LedgerConfig, files: string[]): ApplicableDoc[] {
+    const targets = files.map(f => normalizeProjectPath(f, root));
+    const docs = new Map<string, ApplicableDoc>();
+
+    for (const doc of config.philosophy.required) {
+        const docPath = normalizeProjectPath(doc, root);
+        docs.set(docPath, { path: docPath, pattern: doc, required: true, files: targets });
+    }
+
+    for (const item of config.philosophy.optional ?? []) {
+        const optional = toOptionalDoc(item);
+        const relevant = optional.appliesTo
+            ? targets.filter(f => matchesAnyGlob(f, optional.appliesTo!))
+            : targets;
+        if (relevant.length === 0) continue;
+
+        for (const docPath of expandDocPattern(root, optional.path)) {
+            const existing = docs.get(docPath);
+            if (existing) {
+                existing.files = [...new Set([...existing.files, ...relevant])];
+            } else {
+                docs.set(docPath, { path: docPath, pattern: optional.path, required: false, files: relevant });
+            }
+        }
+    }
+
+    return [...docs.values()];
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+/**
+ * SHA-256 of a doc's content, or null if it doesn't exist
+ */
+export function hashDoc(root: string, docPath: string): string | null {
+    try {
+        const content = fs.readFileSync(path.join(root, normalizeProjectPath(docPath, root)));
+        return createHash('sha256').update(content).digest('hex');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Every registered doc file: required docs plus optional globs expanded
+ */
+export function listGroundingDocs(root: string, config: LedgerConfig): string[] {
+    const docs = config.philosophy.required.map(d => normalizeProjectPath(d, root));
+    for (const item of config.philosophy.optional ?? []) {
+        docs.push(...expandDocPattern(root, toOptionalDoc(item).path));
+    }
+    return [...new Set(docs)];
+}
+
+/**
+ * Fill in philosophyHashes for consulted docs that don't have one yet,
+ * using their current content
+ */
+export function stampGroundingHashes(root: string, grounding: GroundingInfo | undefined): GroundingInfo | undefined {
+    if (!grounding?.philosophyRefs?.length) {
+        return grounding;
+    }
+
+    const hashes = { ...grounding.philosophyHashes };
+    for (const ref of grounding.philosophyRefs) {
+        const docPath = normalizeProjectPath(ref, root);
+        if (hashes[docPath] === undefined) {
+            const hash = hashDoc(root, docPath);
+            if (hash) hashes[docPath] = hash;
+        }
+    }
+
+    return Object.keys(hashes).length > 0 ? { ...grounding, philosophyHashes: hashes } : grounding;
+}
+
+// ============================================
+// DRIFT
+// ============================================
+
+/**
+ * For each registered doc, compare its content with the version agents
+ * last consulted (or, if none did, the version registered). Entries that
+ * consulted another version than the current one are listed as outdated.
+ */
+export function detectGroundingDrift(root: string, config: LedgerConfig, entries: LedgerEntry[]): DocDrift[] {
+    const registered = config.philosophy.hashes ?? {};
+
+    const consultations = new Map<string, DocConsultation[]>();
+    for (const entry of entries) {
+        for (const [ref, hash] of Object.entries(entry.grounding?.philosophyHashes ?? {})) {
+            const docPath = normalizeProjectPath(ref, root);
+            const list = consultations.get(docPath) ?? [];
+            list.push({
+                entryId: entry.id,
+                agent: entry.agent.name,
+                timestamp: entry.timestamp,
+                summary: entry.action.summary,
+                hash,
+            });
+            consultations.set(docPath, list);
+        }
+    }
+
+    return listGroundingDocs(root, config).map(docPath => {
+        const currentHash = hashDoc(root, docPath);
+        const consulted = consultations.get(docPath) ?? [];
+        const lastConsulted = consulted[consulted.length - 1] ?? null;
+        const baselineHash = lastConsulted?.hash ?? registered[docPath] ?? null;
+
+        return {
+            path: docPath,
+            currentHash,
+            baselineHash,
+            lastConsulted,
+            changed: baselineHash !== null && currentHash !== baselineHash,
+            outdatedEntries: consulted.filter(c => c.hash !== currentHash),
+        };
+    });
+}
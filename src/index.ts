@@ -3,9 +3,30 @@
  * Shared context ledger for multi-agent development
  * 
  * Now with Promise Graphs for bilateral agent coordination.
+ *
+ * The MCP server is a separate entry point (metacog-ledgersync/mcp), so
+ * library users don't load the MCP SDK.
  */
 
 export * from './types.js';
 export * from './ledger.js';
 export * from './promises.js';
-export * from './reports.js';
\ No newline at end of file
+export * from './reports.js';
+export * from './lock.js';
+export * from './ledger-index.js';
+export * from './query.js';
+export * from './constraints.js';
+export * from './glob.js';
+export * from './git.js';
+export * from './commits.js';
+export * from './config.js';
+export * from './grounding.js';
+export * from './context.js';
+export * from './compaction.js';
+export * from './integrity.js';
+export * from './signing.js';
+export * from './verdicts.js';
+export * from './promise-graph.js';
+export * from './promise-violations.js';
+export * from './scorecard.js';
+export * from './calibration.js';
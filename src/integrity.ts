@@ -0,0 +1,299 @@
+/**
+ * Integrity chain: tamper-evident history for the .jsonl files
+ *
+ * Every line appended to ledger.jsonl, promises.jsonl and reports.jsonl
+ * carries prevHash, the SHA-256 of the line before it (GENESIS_HASH for
+ * the first line). Editing, inserting or removing a line breaks the link
+ * after it. The last line has nothing after it, so `ledgersync seal`
+ * appends a checkpoint to seals.jsonl (line count and content hash of
+ * each file) that can be committed to git.
+ *
+ * Lines written before the chain existed have no prevHash. They are
+ * counted as unlinked rather than treated as breaks; the first line
+ * written by ledgersync links to them, and seals cover them. Once a line
+ * carries a prevHash, every line after it must too.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { Seal, SealedFile } from './types.js';
+import { appendLineLocked, withFileLock } from './lock.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** prevHash of the first line in a file */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const SEALS_FILE = 'seals.jsonl';
+
+/** Files covered by the chain and by seals, relative to .ledgersync/ */
+export const CHAINED_FILES = ['ledger.jsonl', 'promises.jsonl', 'reports.jsonl'];
+
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ChainVerification {
+    valid: boolean;
+    lines: number;
+    chained: number;               // Lines carrying a prevHash
+    unlinked: number;              // Lines without one, written before the chain started
+    brokenAt?: number;             // 1-based line number of the first broken link
+    error?: string;
+}
+
+export interface SealVerification {
+    valid: boolean;
+    seals: number;
+    errors: string[];
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+export function hashLine(line: string): string {
+    return createHash('sha256').update(line, 'utf-8').digest('hex');
+}
+
+/**
+ * Non-empty lines of a .jsonl file, exactly as written
+ */
+function readLines(filePath: string): string[] {
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+    return fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+}
+
+/**
+ * The last non-empty line of a file, scanning backwards in chunks
+ */
+function readLastLine(filePath: string): string | null {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        let position = fs.fstatSync(fd).size;
+        const chunks: Buffer[] = [];
+
+        while (position > 0) {
+            const length = Math.min(READ_CHUNK_SIZE, position);
+            position -= length;
+
+            const chunk = Buffer.alloc(length);
+            fs.readSync(fd, chunk, 0, length, position);
+            chunks.unshift(chunk);
+
+            const lines = Buffer.concat(chunks).toString('utf-8').split('\n');
+            // Unless we reached the start of the file, the first line is partial
+            if (position > 0) lines.shift();
+            const complete = lines.filter(line => line.trim());
+
+            if (complete.length > 0) {
+                return complete[complete.length - 1];
+            }
+        }
+
+        return null;
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+function prevHashOf(previousLine: string | null): string {
+    return previousLine === null ? GENESIS_HASH : hashLine(previousLine);
+}
+
+// ============================================
+// WRITE OPERATIONS
+// ============================================
+
+/**
+ * Append a record linked to the current last line. The record is
+ * returned with its prevHash.
+ */
+export function appendChained<T extends object>(filePath: string, record: T): T & { prevHash: string } {
+    return withFileLock(filePath, () => {
+        const chained = { ...record, prevHash: prevHashOf(readLastLine(filePath)) };
+        appendLineLocked(filePath, JSON.stringify(chained));
+        return chained;
+    });
+}
+
+/**
+ * Re-link serialized records from the start, for rewrites such as migrations
+ */
+export function chainLines(lines: string[]): string[] {
+    const chained: string[] = [];
+    for (const line of lines) {
+        const { prevHash: _previous, ...record } = JSON.parse(line);
+        chained.push(JSON.stringify({ ...record, prevHash: prevHashOf(chained[chained.length - 1] ?? null) }));
+    }
+    return chained;
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Check every link in a .jsonl file and report the first broken one
+ */
+export function verifyChain(filePath: string): ChainVerification {
+    const lines = readLines(filePath);
+    let chained = 0;
+    let unlinked = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        let prevHash: unknown;
+        let parsed = true;
+        try {
+            prevHash = JSON.parse(lines[i]).prevHash;
+        } catch {
+            // Unparseable lines are reported by the schema validation; the next link still checks them
+            prevHash = undefined;
+            parsed = false;
+        }
+
+        if (prevHash === undefined) {
+            if (parsed && chained > 0) {
+                return {
+                    valid: false, lines: lines.length, chained, unlinked, brokenAt: i + 1,
+                    error: `Line ${i + 1}: hash chain broken: no prevHash after the chain started (was it appended by hand?)`,
+                };
+            }
+            unlinked++;
+            continue;
+        }
+
+        const expected = prevHashOf(i === 0 ? null : lines[i - 1]);
+        if (prevHash !== expected) {
+            const cause = i === 0
+                ? 'the first line must link to the genesis hash (were lines removed from the start?)'
+                : `doesn't match line ${i} (was it edited, or a line inserted or removed?)`;
+            return {
+                valid: false, lines: lines.length, chained, unlinked, brokenAt: i + 1,
+                error: `Line ${i + 1}: hash chain broken: prevHash ${cause}`,
+            };
+        }
+        chained++;
+    }
+
+    return { valid: true, lines: lines.length, chained, unlinked };
+}
+
+// ============================================
+// SEALS
+// ============================================
+
+export function getSealsPath(ledgersyncDir: string): string {
+    return path.join(ledgersyncDir, SEALS_FILE);
+}
+
+export function readSeals(ledgersyncDir: string): Seal[] {
+    return readLines(getSealsPath(ledgersyncDir)).map((line, index) => {
+        try {
+            return JSON.parse(line) as Seal;
+        } catch (e) {
+            throw new Error(`Invalid JSON on line ${index + 1} of ${SEALS_FILE}: ${(e as Error).message}`);
+        }
+    });
+}
+
+/**
+ * The checkpoint hash over a seal's file states
+ */
+function hashSealedFiles(files: Record<string, SealedFile>): string {
+    const canonical = CHAINED_FILES
+        .filter(name => files[name])
+        .map(name => `${name}:${files[name].lines}:${files[name].contentHash}`)
+        .join('\n');
+    return hashLine(canonical);
+}
+
+/**
+ * Hash of a file's first n lines
+ */
+function hashPrefix(lines: string[], n: number): string {
+    return hashLine(lines.slice(0, n).join('\n'));
+}
+
+/**
+ * Record the current line count and content hash of every chained file
+ */
+export function sealLedger(ledgersyncDir: string, sealedBy: string): Seal {
+    const sealsPath = getSealsPath(ledgersyncDir);
+
+    // Hold the lock so no line is appended between reading the files and sealing them
+    return withFileLock(sealsPath, () => {
+        const files: Record<string, SealedFile> = {};
+        for (const name of CHAINED_FILES) {
+            const lines = readLines(path.join(ledgersyncDir, name));
+            files[name] = {
+                lines: lines.length,
+                headHash: prevHashOf(lines[lines.length - 1] ?? null),
+                contentHash: hashPrefix(lines, lines.length),
+            };
+        }
+
+        const seal = {
+            id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            sealedBy,
+            files,
+            hash: hashSealedFiles(files),
+        };
+        return appendChained(sealsPath, seal);
+    });
+}
+
+/**
+ * Check that every sealed prefix is still there, unchanged
+ */
+export function verifySeals(ledgersyncDir: string): SealVerification {
+    const sealsPath = getSealsPath(ledgersyncDir);
+    const errors: string[] = [];
+
+    const chain = verifyChain(sealsPath);
+    if (!chain.valid) {
+        errors.push(`${SEALS_FILE} ${chain.error}`);
+    }
+
+    let seals: Seal[];
+    try {
+        seals = readSeals(ledgersyncDir);
+    } catch (e) {
+        return { valid: false, seals: 0, errors: [...errors, (e as Error).message] };
+    }
+
+    const current = new Map(CHAINED_FILES.map(name => [name, readLines(path.join(ledgersyncDir, name))]));
+
+    for (const seal of seals) {
+        const label = `Seal ${seal.hash.slice(0, 12)} (${seal.timestamp})`;
+
+        if (hashSealedFiles(seal.files) !== seal.hash) {
+            errors.push(`${label}: checkpoint hash doesn't match its contents`);
+            continue;
+        }
+
+        for (const [name, sealed] of Object.entries(seal.files)) {
+            const lines = current.get(name) ?? [];
+            if (lines.length < sealed.lines) {
+                errors.push(`${label}: ${name} had ${sealed.lines} lines, now ${lines.length}`);
+            } else if (hashPrefix(lines, sealed.lines) !== sealed.contentHash) {
+                errors.push(`${label}: ${name} lines 1-${sealed.lines} changed since they were sealed`);
+            }
+        }
+    }
+
+    return { valid: errors.length === 0, seals: seals.length, errors };
+}
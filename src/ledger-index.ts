@@ -0,0 +1,244 @@
+/**
+ * Optional on-disk index for ledger.jsonl
+ *
+ * Maps agent, file, session, tag and entryType to line numbers, plus the
+ * byte offset of every line, so lookups read only the matching lines.
+ * Lives in .ledgersync/.cache/ and is only maintained once it exists
+ * (`ledgersync index`). Agents that append to ledger.jsonl by hand are
+ * picked up on the next read: the index catches up from the last byte it saw.
+ * If the last line it indexed is no longer there, the ledger was rewritten
+ * and the index is rebuilt.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LedgerEntry } from './types.js';
+import { hashLine } from './integrity.js';
+import { writeFileAtomic } from './lock.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CACHE_DIR = '.cache';
+export const LEDGER_INDEX_FILE = 'ledger-index.json';
+
+const INDEX_VERSION = 2;
+
+export type IndexField = 'agent' | 'file' | 'session' | 'tag' | 'entryType';
+
+export interface LedgerIndex {
+    version: number;
+    indexedBytes: number;                   // How far into ledger.jsonl the index reaches
+    offsets: number[];                      // Byte offset of each non-empty line
+    lastLineHash: string | null;            // Hash of the last indexed line, to spot rewrites
+    keys: Record<IndexField, Record<string, number[]>>;  // Value -> line numbers (0-based)
+}
+
+// ============================================
+// PATH UTILITIES
+// ============================================
+
+/**
+ * A file in .ledgersync/.cache/, next to the ledger
+ */
+export function getCachePath(ledgerPath: string, fileName: string): string {
+    return path.join(path.dirname(ledgerPath), CACHE_DIR, fileName);
+}
+
+export function getLedgerIndexPath(ledgerPath: string): string {
+    return getCachePath(ledgerPath, LEDGER_INDEX_FILE);
+}
+
+// ============================================
+// BUILD & UPDATE
+// ============================================
+
+function emptyIndex(): LedgerIndex {
+    return {
+        version: INDEX_VERSION,
+        indexedBytes: 0,
+        offsets: [],
+        lastLineHash: null,
+        keys: { agent: {}, file: {}, session: {}, tag: {}, entryType: {} },
+    };
+}
+
+function addKey(index: LedgerIndex, field: IndexField, value: string | undefined, line: number): void {
+    if (!value) return;
+    const lines = index.keys[field][value] ?? (index.keys[field][value] = []);
+    if (lines[lines.length - 1] !== line) {
+        lines.push(line);
+    }
+}
+
+/**
+ * Index every complete line in ledger.jsonl from index.indexedBytes onwards
+ */
+function indexFrom(ledgerPath: string, index: LedgerIndex): void {
+    const size = fs.statSync(ledgerPath).size;
+    if (size <= index.indexedBytes) return;
+
+    const fd = fs.openSync(ledgerPath, 'r');
+    const buffer = Buffer.alloc(size - index.indexedBytes);
+    try {
+        fs.readSync(fd, buffer, 0, buffer.length, index.indexedBytes);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    let start = 0;
+    while (start < buffer.length) {
+        const end = buffer.indexOf(0x0a, start);
+        // A trailing line without newline may still be mid-write; index it next time
+        if (end === -1) break;
+
+        const text = buffer.toString('utf-8', start, end);
+        if (text.trim()) {
+            const line = index.offsets.length;
+            index.offsets.push(index.indexedBytes + start);
+            index.lastLineHash = hashLine(text.trim());
+
+            try {
+                const entry = JSON.parse(text) as LedgerEntry;
+                addKey(index, 'agent', entry.agent?.name, line);
+                addKey(index, 'session', entry.session?.id, line);
+                addKey(index, 'entryType', entry.entryType, line);
+                entry.artifacts?.forEach(a => addKey(index, 'file', a.path, line));
+                entry.tags?.forEach(t => addKey(index, 'tag', t, line));
+            } catch {
+                // Invalid lines keep their offset; validate reports them
+            }
+        }
+        start = end + 1;
+    }
+
+    index.indexedBytes += start;
+}
+
+/**
+ * Write a file in .ledgersync/.cache/, creating the directory if needed
+ */
+export function writeCacheFile(ledgerPath: string, fileName: string, content: string): void {
+    const cachePath = getCachePath(ledgerPath, fileName);
+    const cacheDir = path.dirname(cachePath);
+
+    if (!fs.existsSync(cacheDir)) {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        // The cache is derived data: keep it out of git
+        fs.writeFileSync(path.join(cacheDir, '.gitignore'), '*\n', 'utf-8');
+    }
+
+    writeFileAtomic(cachePath, content);
+}
+
+function saveIndex(ledgerPath: string, index: LedgerIndex): void {
+    writeCacheFile(ledgerPath, LEDGER_INDEX_FILE, JSON.stringify(index));
+}
+
+/**
+ * Build (or rebuild) the index from scratch
+ */
+export function buildLedgerIndex(ledgerPath: string): LedgerIndex {
+    const index = emptyIndex();
+    if (fs.existsSync(ledgerPath)) {
+        indexFrom(ledgerPath, index);
+    }
+    saveIndex(ledgerPath, index);
+    return index;
+}
+
+/**
+ * Whether the last line the index saw is still where it was
+ */
+function isLastLineIndexed(ledgerPath: string, index: LedgerIndex): boolean {
+    if (index.offsets.length === 0) {
+        return index.indexedBytes === 0;
+    }
+    const [line] = readIndexedLines(ledgerPath, index, [index.offsets.length - 1]);
+    return hashLine(line) === index.lastLineHash;
+}
+
+/**
+ * Load the index, catching up with lines appended since it was saved.
+ * Returns null if no index has been built.
+ */
+export function loadLedgerIndex(ledgerPath: string): LedgerIndex | null {
+    const indexPath = getLedgerIndexPath(ledgerPath);
+    if (!fs.existsSync(indexPath)) {
+        return null;
+    }
+
+    let index: LedgerIndex;
+    try {
+        index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as LedgerIndex;
+    } catch {
+        return buildLedgerIndex(ledgerPath);
+    }
+
+    if (index.version !== INDEX_VERSION || !fs.existsSync(ledgerPath)) {
+        return buildLedgerIndex(ledgerPath);
+    }
+
+    // The ledger shrank, or its last indexed line changed: it was rewritten,
+    // so the offsets are meaningless
+    const size = fs.statSync(ledgerPath).size;
+    if (size < index.indexedBytes || !isLastLineIndexed(ledgerPath, index)) {
+        return buildLedgerIndex(ledgerPath);
+    }
+
+    if (size > index.indexedBytes) {
+        indexFrom(ledgerPath, index);
+        saveIndex(ledgerPath, index);
+    }
+
+    return index;
+}
+
+/**
+ * Remove the index; reads fall back to scanning the ledger
+ */
+export function dropLedgerIndex(ledgerPath: string): void {
+    fs.rmSync(getLedgerIndexPath(ledgerPath), { force: true });
+}
+
+// ============================================
+// READ
+// ============================================
+
+/**
+ * Line numbers whose key matches, in ledger order
+ */
+export function lookupLedgerIndex(
+    index: LedgerIndex,
+    field: IndexField,
+    match: (value: string) => boolean
+): number[] {
+    const lines = new Set<number>();
+    for (const [value, valueLines] of Object.entries(index.keys[field])) {
+        if (match(value)) {
+            valueLines.forEach(l => lines.add(l));
+        }
+    }
+    return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Read specific lines of ledger.jsonl by line number, using the index offsets
+ */
+export function readIndexedLines(ledgerPath: string, index: LedgerIndex, lines: number[]): string[] {
+    if (lines.length === 0) return [];
+
+    const fd = fs.openSync(ledgerPath, 'r');
+    try {
+        return lines.map(line => {
+            const start = index.offsets[line];
+            const end = index.offsets[line + 1] ?? index.indexedBytes;
+            const buffer = Buffer.alloc(end - start);
+            fs.readSync(fd, buffer, 0, buffer.length, start);
+            return buffer.toString('utf-8').trim();
+        });
+    } finally {
+        fs.closeSync(fd);
+    }
+}
@@ -4,9 +4,31 @@
 
 import fs from 'node:fs';
 import path from 'node:path';
+import readline from 'node:readline';
 import { createRequire } from 'node:module';
 import { v4 as uuidv4 } from 'uuid';
-import type { LedgerEntry, LedgerSummary } from './types.js';
+import { withFileLock } from './lock.js';
+import { appendChained, verifyChain } from './integrity.js';
+import { loadLedgerIndex, lookupLedgerIndex, readIndexedLines } from './ledger-index.js';
+import type { IndexField } from './ledger-index.js';
+import { loadConfig } from './config.js';
+import { checkEntrySignature } from './signing.js';
+import { isHandoffEntry, isTransitionEntry, isRollupEntry } from './types.js';
+import type {
+    LedgerConfig,
+    LedgerEntry,
+    LedgerSummary,
+    HandoffBriefing,
+    ArtifactChange,
+    FileHistory,
+    EntryType,
+    SessionSummary,
+    TransitionInfo,
+    ImplementationInfo,
+    BugfixInfo,
+    ReviewInfo,
+    RollupInfo,
+} from './types.js';
 
 // Load JSON schema using createRequire for ESM compatibility
 const require = createRequire(import.meta.url);
@@ -20,6 +42,8 @@ export const LEDGERSYNC_DIR = '.ledgersync';
 export const LEDGER_FILE = 'ledger.jsonl';
 export const CONFIG_FILE = 'config.yaml';
 
+const READ_CHUNK_SIZE = 64 * 1024;
+
 // ============================================
 // VALIDATION
 // ============================================
@@ -68,6 +92,34 @@ export function getConfigPath(root: string): string {
     return path.join(root, LEDGERSYNC_DIR, CONFIG_FILE);
 }
 
+/**
+ * Normalize a project-relative path: forward slashes, no leading ./ or trailing /.
+ * Absolute paths are made relative to root if one is given.
+ */
+export function normalizeProjectPath(filePath: string, root?: string): string {
+    const relative = root && path.isAbsolute(filePath) ? path.relative(root, filePath) : filePath;
+    return relative
+        .replace(/\\/g, '/')
+        .replace(/^(\.\/)+/, '')
+        .replace(/\/+$/, '');
+}
+
+/**
+ * Whether a path is the given file, or inside it if it is a directory
+ */
+export function isSameOrUnder(filePath: string, target: string): boolean {
+    return target === '' || filePath === target || filePath.startsWith(target + '/');
+}
+
+/**
+ * Match artifact paths against a file, or anything under it if it is a
+ * directory. Paths are compared whole: "auth.ts" does not match "oauth.ts".
+ */
+export function fileMatcher(filePath: string, root?: string): (artifactPath: string) => boolean {
+    const target = normalizeProjectPath(filePath, root);
+    return artifactPath => isSameOrUnder(normalizeProjectPath(artifactPath, root), target);
+}
+
 // ============================================
 // READ OPERATIONS
 // ============================================
@@ -91,27 +143,255 @@ export function readLedger(root: string): LedgerEntry[] {
     });
 }
 
+/**
+ * Stream entries oldest-first without loading the whole ledger into memory
+ */
+export async function* streamLedger(root: string): AsyncGenerator<LedgerEntry> {
+    const ledgerPath = getLedgerPath(root);
+
+    if (!fs.existsSync(ledgerPath)) {
+        return;
+    }
+
+    const lines = readline.createInterface({
+        input: fs.createReadStream(ledgerPath, 'utf-8'),
+        crlfDelay: Infinity,
+    });
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        lineNumber++;
+
+        let entry: LedgerEntry;
+        try {
+            entry = JSON.parse(line) as LedgerEntry;
+        } catch (e) {
+            throw new Error(`Invalid JSON on line ${lineNumber}: ${(e as Error).message}`);
+        }
+        yield entry;
+    }
+}
+
+/**
+ * Read the last n non-empty lines of a file, scanning backwards in chunks
+ */
+function readTailLines(filePath: string, n: number): string[] {
+    if (n <= 0) return [];
+
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        let position = fs.fstatSync(fd).size;
+        const chunks: Buffer[] = [];
+        let lines: string[] = [];
+
+        while (position > 0) {
+            const length = Math.min(READ_CHUNK_SIZE, position);
+            position -= length;
+
+            const chunk = Buffer.alloc(length);
+            fs.readSync(fd, chunk, 0, length, position);
+            chunks.unshift(chunk);
+
+            lines = Buffer.concat(chunks).toString('utf-8').split('\n');
+            // Unless we reached the start of the file, the first line is partial
+            if (position > 0) lines.shift();
+            lines = lines.filter(line => line.trim());
+
+            if (lines.length >= n) break;
+        }
+
+        return lines.slice(-n);
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
 export function readLastN(root: string, n: number): LedgerEntry[] {
-    const entries = readLedger(root);
-    return entries.slice(-n);
+    const ledgerPath = getLedgerPath(root);
+
+    if (!fs.existsSync(ledgerPath)) {
+        return [];
+    }
+
+    return readTailLines(ledgerPath, n).map((line, index, lines) => {
+        try {
+            return JSON.parse(line) as LedgerEntry;
+        } catch (e) {
+            throw new Error(`Invalid JSON ${lines.length - index} lines from the end: ${(e as Error).message}`);
+        }
+    });
+}
+
+/**
+ * Count entries without parsing them
+ */
+export function countLedgerEntries(root: string): number {
+    const ledgerPath = getLedgerPath(root);
+
+    if (!fs.existsSync(ledgerPath)) {
+        return 0;
+    }
+
+    const index = loadLedgerIndex(ledgerPath);
+    if (index) {
+        return index.offsets.length;
+    }
+
+    const fd = fs.openSync(ledgerPath, 'r');
+    try {
+        const chunk = Buffer.alloc(READ_CHUNK_SIZE);
+        let count = 0;
+        let lineHasContent = false;
+        let bytesRead: number;
+
+        while ((bytesRead = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+            for (let i = 0; i < bytesRead; i++) {
+                const byte = chunk[i];
+                if (byte === 0x0a) {
+                    if (lineHasContent) count++;
+                    lineHasContent = false;
+                } else if (byte !== 0x20 && byte !== 0x09 && byte !== 0x0d) {
+                    lineHasContent = true;
+                }
+            }
+        }
+
+        return lineHasContent ? count + 1 : count;
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Read entries whose indexed field matches, using the on-disk index if one exists
+ */
+function readIndexed(
+    root: string,
+    field: IndexField,
+    matchKey: (value: string) => boolean,
+    matchEntry: (entry: LedgerEntry) => boolean
+): LedgerEntry[] {
+    const ledgerPath = getLedgerPath(root);
+    const index = fs.existsSync(ledgerPath) ? loadLedgerIndex(ledgerPath) : null;
+
+    if (!index) {
+        return readLedger(root).filter(matchEntry);
+    }
+
+    const lines = lookupLedgerIndex(index, field, matchKey);
+    return readIndexedLines(ledgerPath, index, lines).map((line, i) => {
+        try {
+            return JSON.parse(line) as LedgerEntry;
+        } catch (e) {
+            throw new Error(`Invalid JSON on line ${lines[i] + 1}: ${(e as Error).message}`);
+        }
+    });
 }
 
 export function readByAgent(root: string, agentName: string): LedgerEntry[] {
-    const entries = readLedger(root);
-    return entries.filter(e => e.agent.name === agentName);
+    return readIndexed(root, 'agent', name => name === agentName, e => e.agent.name === agentName);
 }
 
+/**
+ * Entries that touched a file, or anything under it if it is a directory
+ */
 export function readByFile(root: string, filePath: string): LedgerEntry[] {
+    const matches = fileMatcher(filePath, root);
+    return readIndexed(root, 'file', matches, e => e.artifacts.some(a => matches(a.path)));
+}
+
+export function readBySession(root: string, sessionId: string): LedgerEntry[] {
+    return readIndexed(root, 'session', id => id === sessionId, e => e.session.id === sessionId);
+}
+
+export function readByTag(root: string, tag: string): LedgerEntry[] {
+    return readIndexed(root, 'tag', t => t === tag, e => e.tags?.includes(tag) ?? false);
+}
+
+export function readByEntryType(root: string, entryType: EntryType): LedgerEntry[] {
+    return readIndexed(root, 'entryType', t => t === entryType, e => e.entryType === entryType);
+}
+
+/**
+ * Where a created file was renamed from, if the same entry deleted one file
+ * (or several, one with the same basename)
+ */
+function findRenameSource(created: string, artifacts: ArtifactChange[]): string | undefined {
+    const deleted = artifacts.filter(a => a.action === 'deleted' && a.path !== created);
+    if (deleted.length === 1) {
+        return deleted[0].path;
+    }
+    return deleted.find(a => path.posix.basename(a.path) === path.posix.basename(created))?.path;
+}
+
+/**
+ * The full decision trail of a file (or directory). An entry that creates
+ * the file and deletes another is treated as a rename, and older entries
+ * on the old name are included.
+ */
+export function getFileHistory(root: string, filePath: string): FileHistory {
+    const target = normalizeProjectPath(filePath, root);
+    const history: FileHistory = { path: target, names: [target], renames: [], entries: [] };
     const entries = readLedger(root);
-    return entries.filter(e =>
-        e.artifacts.some(a => a.path === filePath || a.path.includes(filePath))
-    );
+
+    // Walk backwards, so a rename only pulls in entries older than itself
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const entry = entries[i];
+        const artifacts = entry.artifacts.map(a => ({ ...a, path: normalizeProjectPath(a.path, root) }));
+        const touched = artifacts.filter(a => history.names.some(n => isSameOrUnder(a.path, n)));
+        if (touched.length === 0) continue;
+
+        history.entries.push(entry);
+
+        for (const created of touched.filter(a => a.action === 'created' && history.names.includes(a.path))) {
+            const from = findRenameSource(created.path, artifacts);
+            if (from && !history.names.includes(from)) {
+                history.names.push(from);
+                history.renames.push({ from, to: created.path, entryId: entry.id, timestamp: entry.timestamp });
+            }
+        }
+    }
+
+    history.entries.reverse();
+    return history;
+}
+
+// ============================================
+// APPEND HOOKS
+// ============================================
+/**
+ * Called after appendEntry writes an entry, in registration order
+ */
+export type AppendHook = (root: string, entry: LedgerEntry) => void;
+
+const appendHooks: AppendHook[] = [];
+
+/**
+ * Run a hook after every appended entry. Returns a function that removes it.
+ */
+export function addAppendHook(hook: AppendHook): () => void {
+    appendHooks.push(hook);
+    return () => {
+        const index = appendHooks.indexOf(hook);
+        if (index !== -1) {
+            appendHooks.splice(index, 1);
+        }
+    };
 }
 
 // ============================================
 // WRITE OPERATIONS
 // ============================================
 
+function readLedgerConfig(root: string): LedgerConfig | null {
+    try {
+        return loadConfig(root);
+    } catch {
+        return null;
+    }
+}
+
 export function appendEntry(root: string, entry: LedgerEntry): void {
     const ledgerPath = getLedgerPath(root);
 
@@ -120,15 +400,33 @@ export function appendEntry(root: string, entry: LedgerEntry): void {
         throw new Error(`Invalid entry: ${getValidationErrors().join(', ')}`);
     }
 
+    // A signed entry must verify against a key config.yaml trusts for its agent
+    if (entry.signature) {
+        const signatureProblem = checkEntrySignature(entry, readLedgerConfig(root));
+        if (signatureProblem) {
+            throw new Error(`Rejected entry: ${signatureProblem}`);
+        }
+    }
+
     // Ensure directory exists
     const dir = path.dirname(ledgerPath);
     if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Append with newline
-    const line = JSON.stringify(entry) + '\n';
-    fs.appendFileSync(ledgerPath, line, 'utf-8');
+    // Append linked to the previous line, and keep the optional index current, under the shared lock
+    withFileLock(ledgerPath, () => {
+        appendChained(ledgerPath, entry);
+        loadLedgerIndex(ledgerPath);
+    });
+
+    for (const hook of [...appendHooks]) {
+        try {
+            hook(root, entry);
+        } catch {
+            // The entry is written; a failing hook must not make it look like it wasn't
+        }
+    }
 }
 
 export function createEntry(
@@ -141,7 +439,7 @@ export function createEntry(
         id: uuidv4(),
         timestamp: new Date().toISOString(),
         agent,
-        session: options.session ?? { id: uuidv4(), entryIndex: 0 },
+        session: options.session ?? { id: uuidv4(), entryIndex: 0, generated: true },
         action,
         reasoning,
         tools: options.tools ?? [],
@@ -150,15 +448,225 @@ export function createEntry(
         tags: options.tags,
         relatedEntries: options.relatedEntries,
         grounding: options.grounding,
+        entryType: options.entryType,
+        sessionSummary: options.sessionSummary,
+        transition: options.transition,
+        implementation: options.implementation,
+        bugfix: options.bugfix,
+        review: options.review,
+        rollup: options.rollup,
     };
 }
 
+// ============================================
+// TYPED ENTRY FACTORIES
+// ============================================
+
+type EntryOptions = Partial<Omit<LedgerEntry, 'id' | 'timestamp' | 'agent' | 'action' | 'reasoning' | 'entryType'>>;
+
+/**
+ * Payload fields each entry type must carry (see templates/ENTRY_TYPES.md)
+ */
+export const REQUIRED_PAYLOAD_FIELDS: Record<EntryType, { field: keyof LedgerEntry; keys: string[] }> = {
+    handoff: { field: 'sessionSummary', keys: ['completed', 'currentState', 'deferred', 'blockers', 'importantContext'] },
+    transition: { field: 'transition', keys: ['fromAgent', 'fromSessionId', 'fromEntryId', 'contextAcquired', 'inheritedState', 'readiness'] },
+    implementation: { field: 'implementation', keys: ['feature', 'designDecisions', 'testsAdded', 'docsUpdated', 'breakingChanges'] },
+    bugfix: { field: 'bugfix', keys: ['symptom', 'rootCause', 'fix', 'regressionRisk', 'verificationSteps'] },
+    review: { field: 'review', keys: ['scope', 'findings', 'overallAssessment'] },
+    rollup: { field: 'rollup', keys: ['fromEntryId', 'toEntryId', 'from', 'to', 'entryCount', 'agents', 'files', 'decisions', 'uncertainties'] },
+};
+
+/**
+ * Default action type for each entry type
+ */
+export const DEFAULT_ACTION_TYPES: Record<EntryType, LedgerEntry['action']['type']> = {
+    handoff: 'other',
+    transition: 'analyze',
+    implementation: 'modify',
+    bugfix: 'debug',
+    review: 'analyze',
+    rollup: 'other',
+};
+
+/**
+ * List the type-specific payload fields missing from a payload
+ */
+export function getMissingPayloadFields(entryType: EntryType, payload: object | undefined): string[] {
+    const { field, keys } = REQUIRED_PAYLOAD_FIELDS[entryType];
+    if (payload === undefined || payload === null) {
+        return [field];
+    }
+
+    const record = payload as Record<string, unknown>;
+    return keys
+        .filter(k => record[k] === undefined || record[k] === null || record[k] === '')
+        .map(k => `${field}.${k}`);
+}
+
+function createTypedEntry<T extends object>(
+    entryType: EntryType,
+    payload: T,
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    options: EntryOptions
+): LedgerEntry {
+    const missing = getMissingPayloadFields(entryType, payload);
+    if (missing.length > 0) {
+        throw new Error(`Invalid ${entryType} entry: missing ${missing.join(', ')}`);
+    }
+
+    return createEntry(agent, action, reasoning, {
+        ...options,
+        entryType,
+        [REQUIRED_PAYLOAD_FIELDS[entryType].field]: payload,
+    });
+}
+
+/**
+ * Create a 'handoff' entry (outgoing agent wrapping up)
+ */
+export function createHandoffEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    sessionSummary: SessionSummary,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('handoff', sessionSummary, agent, action, reasoning, options);
+}
+
+/**
+ * Create a 'transition' entry (incoming agent confirming receipt)
+ */
+export function createTransitionEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    transition: TransitionInfo,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('transition', transition, agent, action, reasoning, options);
+}
+
+/**
+ * Create an 'implementation' entry (feature work)
+ */
+export function createImplementationEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    implementation: ImplementationInfo,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('implementation', implementation, agent, action, reasoning, options);
+}
+
+/**
+ * Create a 'bugfix' entry
+ */
+export function createBugfixEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    bugfix: BugfixInfo,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('bugfix', bugfix, agent, action, reasoning, options);
+}
+
+/**
+ * Create a 'review' entry (audit without changes)
+ */
+export function createReviewEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    review: ReviewInfo,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('review', review, agent, action, reasoning, options);
+}
+
+/**
+ * Create a 'rollup' entry (compaction summary of older entries)
+ */
+export function createRollupEntry(
+    agent: LedgerEntry['agent'],
+    action: LedgerEntry['action'],
+    reasoning: LedgerEntry['reasoning'],
+    rollup: RollupInfo,
+    options: EntryOptions = {}
+): LedgerEntry {
+    return createTypedEntry('rollup', rollup, agent, action, reasoning, options);
+}
+
 // ============================================
 // SUMMARY OPERATIONS
 // ============================================
 
-export function generateSummary(root: string, lastN: number = 20): LedgerSummary {
-    const entries = readLastN(root, lastN);
+/** Confidence at or above which an entry is a key decision */
+export const KEY_DECISION_CONFIDENCE = 0.7;
+
+/**
+ * Whether an entry is confident enough to be a key decision. Entries that
+ * state no confidence count. confidence overrides the stated value, e.g.
+ * with calibrated confidence.
+ */
+export function isKeyDecision(entry: LedgerEntry, confidence?: (entry: LedgerEntry) => number | undefined): boolean {
+    const value = confidence ? confidence(entry) : entry.reasoning.confidence;
+    return value === undefined || value >= KEY_DECISION_CONFIDENCE;
+}
+
+/** Rollups a summary lists; older ones are folded into the first */
+export const SUMMARY_ROLLUPS = 3;
+
+/**
+ * Keep a summary's rollups bounded: the newest SUMMARY_ROLLUPS - 1 as they
+ * are, and everything before them folded into one
+ */
+export function foldRollups(rollups: RollupInfo[]): RollupInfo[] {
+    if (rollups.length <= SUMMARY_ROLLUPS) {
+        return rollups;
+    }
+
+    const older = rollups.slice(0, rollups.length - SUMMARY_ROLLUPS + 1);
+    const first = older[0];
+    const last = older[older.length - 1];
+    const folded: RollupInfo = {
+        fromEntryId: first.fromEntryId,
+        toEntryId: last.toEntryId,
+        from: first.from,
+        to: last.to,
+        entryCount: older.reduce((sum, r) => sum + r.entryCount, 0),
+        agents: [...new Set(older.flatMap(r => r.agents))],
+        files: [...new Set(older.flatMap(r => r.files))].slice(-20),
+        decisions: older.flatMap(r => r.decisions).slice(-10),
+        uncertainties: [...new Set(older.flatMap(r => r.uncertainties))].slice(-10),
+    };
+
+    return [folded, ...rollups.slice(older.length)];
+}
+
+export function generateSummary(
+    root: string,
+    lastN: number = 20,
+    options: { handoff?: boolean; confidence?: (entry: LedgerEntry) => number | undefined } = {}
+): LedgerSummary {
+    // Handoff mode needs full history; otherwise only the tail is parsed
+    const allEntries = options.handoff ? readLedger(root) : undefined;
+    const rollupEntries = allEntries?.filter(isRollupEntry) ?? readByEntryType(root, 'rollup').filter(isRollupEntry);
+
+    // Rollup lines don't count toward the tail
+    const entries = (allEntries ?? readLastN(root, lastN + rollupEntries.length))
+        .filter(e => !isRollupEntry(e))
+        .slice(-lastN);
+
+    // Rollups stand in for the history before the tail
+    const tailIds = new Set(entries.map(e => e.id));
+    const rollups = foldRollups(rollupEntries
+        .filter(e => !e.relatedEntries?.every(id => tailIds.has(id)))
+        .map(e => e.rollup));
 
     if (entries.length === 0) {
         return {
@@ -167,23 +675,91 @@ export function generateSummary(root: string, lastN: number = 20): LedgerSummary
             recentAgents: [],
             recentFiles: [],
             keyDecisions: [],
+            ...(rollups.length > 0 ? { rollups } : {}),
+            ...(options.handoff ? { handoff: null } : {}),
         };
     }
 
-    const allEntries = readLedger(root);
     const recentAgents = [...new Set(entries.map(e => e.agent.name))];
     const recentFiles = [...new Set(entries.flatMap(e => e.artifacts.map(a => a.path)))];
     const keyDecisions = entries
-        .filter(e => e.reasoning.confidence === undefined || e.reasoning.confidence >= 0.7)
+        .filter(e => isKeyDecision(e, options.confidence))
         .map(e => `[${e.agent.name}] ${e.action.summary}`)
         .slice(-10);
 
     return {
-        totalEntries: allEntries.length,
+        totalEntries: allEntries?.length ?? countLedgerEntries(root),
         lastUpdated: entries[entries.length - 1].timestamp,
         recentAgents,
         recentFiles: recentFiles.slice(0, 20),
         keyDecisions,
+        ...(rollups.length > 0 ? { rollups } : {}),
+        ...(allEntries ? { handoff: buildHandoffBriefing(allEntries) } : {}),
+    };
+}
+
+/**
+ * Reconstruct inherited state from the most recent handoff entry
+ * plus everything logged after it. Returns null if no handoff exists.
+ */
+export function buildHandoffBriefing(entries: LedgerEntry[]): HandoffBriefing | null {
+    let handoffIndex = -1;
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (isHandoffEntry(entries[i])) {
+            handoffIndex = i;
+            break;
+        }
+    }
+
+    if (handoffIndex === -1) {
+        return null;
+    }
+
+    const handoff = entries[handoffIndex];
+    const summary = handoff.sessionSummary!;
+    const since = entries.slice(handoffIndex + 1).filter(e => !isRollupEntry(e));
+
+    const acknowledgements = since
+        .filter(isTransitionEntry)
+        .filter(e => e.transition.fromEntryId === handoff.id)
+        .map(e => ({
+            agent: e.agent.name,
+            entryId: e.id,
+            timestamp: e.timestamp,
+            confident: e.transition.readiness.confident,
+            clarificationsNeeded: e.transition.readiness.clarificationsNeeded,
+        }));
+
+    // Work logged since the handoff extends what the next agent inherits
+    const work = since
+        .filter(e => !isTransitionEntry(e) && e.action.type !== 'analyze' && e.action.type !== 'plan')
+        .map(e => `[${e.agent.name}] ${e.action.summary}`);
+
+    const blockers = [
+        ...summary.blockers,
+        ...since.filter(isTransitionEntry).flatMap(e => e.transition.inheritedState.blockers),
+    ];
+
+    return {
+        handoffEntryId: handoff.id,
+        fromAgent: handoff.agent.name,
+        fromSessionId: handoff.session.id,
+        handedOffAt: handoff.timestamp,
+        completed: [...summary.completed, ...work],
+        currentState: summary.currentState,
+        deferred: summary.deferred,
+        blockers: [...new Set(blockers)],
+        importantContext: summary.importantContext,
+        handoffNotes: summary.handoffNotes,
+        since: {
+            entries: since.length,
+            agents: [...new Set(since.map(e => e.agent.name))],
+            files: [...new Set(since.flatMap(e => e.artifacts.map(a => a.path)))],
+            work,
+            uncertainties: [...new Set(since.flatMap(e => e.reasoning.uncertainties ?? []))],
+        },
+        acknowledged: acknowledgements.length > 0,
+        acknowledgements,
     };
 }
 
@@ -204,18 +780,99 @@ export function formatSummaryForAgent(summary: LedgerSummary): string {
         summary.keyDecisions.map(d => `- ${d}`).join('\n'),
     ];
 
+    if (summary.rollups && summary.rollups.length > 0) {
+        lines.push('', '### Earlier History (rolled up)');
+        for (const rollup of summary.rollups) {
+            lines.push(
+                '',
+                `**${rollup.from.slice(0, 10)} – ${rollup.to.slice(0, 10)}:** ${rollup.entryCount} entries by ${rollup.agents.join(', ')}`,
+                ...rollup.decisions.slice(-5).map(d => `- ${d}`),
+                ...rollup.uncertainties.map(u => `- ? ${u}`),
+            );
+        }
+    }
+
+    if (summary.handoff !== undefined) {
+        lines.push('', ...formatHandoffBriefing(summary.handoff));
+    }
+
     return lines.join('\n');
 }
 
+function formatHandoffBriefing(briefing: HandoffBriefing | null): string[] {
+    if (!briefing) {
+        return ['## 📍 You Are Picking Up Here', '', '_No handoff entry found. Read the recent entries above._'];
+    }
+
+    const list = (items: string[]) => items.length > 0 ? items.map(i => `- ${i}`) : ['- (none)'];
+    const record = (r: Record<string, string>) => {
+        const pairs = Object.entries(r);
+        return pairs.length > 0 ? pairs.map(([k, v]) => `- **${k}:** ${v}`) : ['- (none)'];
+    };
+
+    const lines = [
+        '## 📍 You Are Picking Up Here',
+        '',
+        `**Handed off by:** ${briefing.fromAgent} at ${briefing.handedOffAt}`,
+        `**Entries since handoff:** ${briefing.since.entries}` +
+            (briefing.since.agents.length > 0 ? ` (${briefing.since.agents.join(', ')})` : ''),
+    ];
+
+    if (briefing.acknowledged) {
+        for (const ack of briefing.acknowledgements) {
+            const readiness = ack.confident ? 'ready' : 'not confident';
+            lines.push(`**Acknowledged by:** ${ack.agent} at ${ack.timestamp} (${readiness})`);
+        }
+    } else {
+        lines.push('**⚠️ Not acknowledged:** no incoming agent has written a `transition` entry for this handoff.');
+    }
+
+    lines.push(
+        '',
+        '### Completed',
+        ...list(briefing.completed),
+        '',
+        '### Current State',
+        ...record(briefing.currentState),
+        '',
+        '### Deferred',
+        ...list(briefing.deferred),
+        '',
+        '### Blockers',
+        ...list(briefing.blockers),
+        '',
+        '### Important Context',
+        ...record(briefing.importantContext),
+    );
+
+    const questions = briefing.acknowledgements.flatMap(a => a.clarificationsNeeded);
+    if (questions.length > 0 || briefing.since.uncertainties.length > 0) {
+        lines.push('', '### Open Questions', ...list([...questions, ...briefing.since.uncertainties]));
+    }
+
+    if (briefing.handoffNotes) {
+        lines.push('', '### Handoff Notes', briefing.handoffNotes);
+    }
+
+    return lines;
+}
+
 // ============================================
 // VALIDATION OPERATIONS
 // ============================================
 
-export function validateLedger(root: string): { valid: boolean; errors: string[] } {
+/**
+ * Check every line against the schema, signed entries against the keys
+ * config.yaml trusts, and the hash chain. Reads the ledger once.
+ */
+export function validateLedger(
+    root: string,
+    config: LedgerConfig | null = readLedgerConfig(root)
+): { valid: boolean; errors: string[]; entries: number } {
     const ledgerPath = getLedgerPath(root);
 
     if (!fs.existsSync(ledgerPath)) {
-        return { valid: true, errors: [] };
+        return { valid: true, errors: [], entries: 0 };
     }
 
     const content = fs.readFileSync(ledgerPath, 'utf-8');
@@ -227,11 +884,21 @@ export function validateLedger(root: string): { valid: boolean; errors: string[]
             const entry = JSON.parse(line);
             if (!isValidEntry(entry)) {
                 errors.push(`Line ${index + 1}: ${getValidationErrors().join(', ')}`);
+                return;
+            }
+            const signatureProblem = checkEntrySignature(entry, config);
+            if (signatureProblem) {
+                errors.push(`Line ${index + 1}: ${signatureProblem}`);
             }
         } catch (e) {
             errors.push(`Line ${index + 1}: Invalid JSON - ${(e as Error).message}`);
         }
     });
 
-    return { valid: errors.length === 0, errors };
+    const chain = verifyChain(ledgerPath);
+    if (chain.error) {
+        errors.push(chain.error);
+    }
+
+    return { valid: errors.length === 0, errors, entries: lines.length };
 }
@@ -0,0 +1,216 @@
+/**
+ * File locking and atomic writes
+ *
+ * Several agents (Claude Code, Cursor, the CLI) can write to .ledgersync/
+ * at the same time. Every write to a .jsonl file takes the shared lock in
+ * that directory, and full-file rewrites go through a temp file + rename
+ * so readers never see a half-written file.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const LOCK_FILE = '.lock';
+
+/** A lock older than this is assumed abandoned by a crashed writer */
+export const LOCK_STALE_MS = 30_000;
+
+/** How long to wait for another writer before giving up */
+export const LOCK_TIMEOUT_MS = 10_000;
+
+const RETRY_INTERVAL_MS = 25;
+
+interface LockInfo {
+    pid: number;
+    host: string;
+    acquiredAt: string;
+    nonce: string;                 // Identifies this holder; only it removes the lock
+}
+
+// A lock file as read at one moment, to tell whether it was replaced since
+interface LockSnapshot {
+    raw: string;
+    mtimeMs: number;
+}
+
+// Locks held by this process: nesting depth (locks are re-entrant) and our nonce
+const heldLocks = new Map<string, { depth: number; nonce: string }>();
+
+// ============================================
+// LOCKING
+// ============================================
+
+export function getLockPath(filePath: string): string {
+    return path.join(path.dirname(filePath), LOCK_FILE);
+}
+
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        return (e as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+function readLock(lockPath: string): LockSnapshot | null {
+    try {
+        return { raw: fs.readFileSync(lockPath, 'utf-8'), mtimeMs: fs.statSync(lockPath).mtimeMs };
+    } catch {
+        return null;
+    }
+}
+
+function parseLock(snapshot: LockSnapshot): LockInfo | null {
+    try {
+        return JSON.parse(snapshot.raw) as LockInfo;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * A lock is stale if it is too old, or was taken on this host by a process that no longer exists
+ */
+function isStaleLock(snapshot: LockSnapshot): boolean {
+    if (Date.now() - snapshot.mtimeMs > LOCK_STALE_MS) {
+        return true;
+    }
+
+    // Unparseable: the lock file is being written right now, or is empty; treat as held
+    const info = parseLock(snapshot);
+    return info !== null && info.host === os.hostname() && !isProcessAlive(info.pid);
+}
+
+/**
+ * Remove the lock file only if it is the one expected. It is first renamed
+ * to a name no one else uses, so another writer can't replace it between
+ * the check and the removal; if it turns out to be someone else's lock, it
+ * is put back.
+ */
+function removeLockIf(lockPath: string, expected: (snapshot: LockSnapshot) => boolean): boolean {
+    const moved = `${lockPath}.${randomUUID()}`;
+    try {
+        fs.renameSync(lockPath, moved);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            return false;
+        }
+        throw e;
+    }
+
+    const snapshot = readLock(moved);
+    if (snapshot && expected(snapshot)) {
+        fs.rmSync(moved, { force: true });
+        return true;
+    }
+
+    try {
+        // link fails rather than overwrite a lock taken in the meantime
+        fs.linkSync(moved, lockPath);
+    } catch {
+        // Someone took the free lock; theirs stands
+    } finally {
+        fs.rmSync(moved, { force: true });
+    }
+    return false;
+}
+
+function acquireLock(lockPath: string, timeoutMs: number): string {
+    const deadline = Date.now() + timeoutMs;
+    const info: LockInfo = { pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString(), nonce: randomUUID() };
+
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+    while (true) {
+        try {
+            const fd = fs.openSync(lockPath, 'wx');
+            fs.writeSync(fd, JSON.stringify(info));
+            fs.closeSync(fd);
+            return info.nonce;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw e;
+            }
+        }
+
+        // Take over only the lock we judged stale, not one taken since
+        const snapshot = readLock(lockPath);
+        if (snapshot && isStaleLock(snapshot)) {
+            removeLockIf(lockPath, current => current.raw === snapshot.raw && current.mtimeMs === snapshot.mtimeMs);
+            continue;
+        }
+
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for lock ${lockPath}. If no other agent is writing, delete it.`);
+        }
+
+        sleepSync(RETRY_INTERVAL_MS);
+    }
+}
+
+function releaseLock(lockPath: string, nonce: string): void {
+    removeLockIf(lockPath, current => parseLock(current)?.nonce === nonce);
+}
+
+/**
+ * Run fn while holding the lock for the directory containing filePath
+ */
+export function withFileLock<T>(filePath: string, fn: () => T, timeoutMs: number = LOCK_TIMEOUT_MS): T {
+    const lockPath = getLockPath(filePath);
+    const held = heldLocks.get(lockPath) ?? { depth: 0, nonce: '' };
+
+    if (held.depth === 0) {
+        held.nonce = acquireLock(lockPath, timeoutMs);
+    }
+    held.depth++;
+    heldLocks.set(lockPath, held);
+
+    try {
+        return fn();
+    } finally {
+        held.depth--;
+        if (held.depth === 0) {
+            heldLocks.delete(lockPath);
+            releaseLock(lockPath, held.nonce);
+        }
+    }
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+/**
+ * Append a line to a file under the shared lock
+ */
+export function appendLineLocked(filePath: string, line: string): void {
+    withFileLock(filePath, () => {
+        fs.appendFileSync(filePath, line.endsWith('\n') ? line : line + '\n', 'utf-8');
+    });
+}
+
+/**
+ * Replace a file's contents via temp file + rename.
+ * Callers rewriting a .jsonl file must hold the lock (see withFileLock).
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    try {
+        fs.writeFileSync(tmpPath, content, 'utf-8');
+        fs.renameSync(tmpPath, filePath);
+    } catch (e) {
+        fs.rmSync(tmpPath, { force: true });
+        throw e;
+    }
+}
@@ -0,0 +1,419 @@
+/**
+ * MCP server: exposes the ledger, promises and reports as tools
+ *
+ * Agents call these tools instead of hand-writing JSONL, so every write
+ * goes through the same factories and schema validation as the CLI.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { LedgerEntry, PromiseEntry, WorkReport } from './types.js';
+import { addAppendHook, appendEntry, createEntry, readLastN, generateSummary, formatSummaryForAgent, getFileHistory } from './ledger.js';
+import { appendPromise, createPromise, getPromisesForFiles, sweepPromises } from './promises.js';
+import { appendReport, createWorkReport } from './reports.js';
+import { loadConfig } from './config.js';
+import { resolveGroundingDocs, stampGroundingHashes } from './grounding.js';
+import { buildContextBundle, formatContextBundle } from './context.js';
+import { compactLedger } from './compaction.js';
+import { createViolationHook } from './promise-violations.js';
+import { getCalibratedConfidence, loadCalibrationProfile } from './calibration.js';
+import type { PromiseViolation } from './promise-violations.js';
+
+// ============================================
+// TOOL DEFINITIONS
+// ============================================
+
+type ToolArgs = Record<string, unknown>;
+
+interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: {
+        type: 'object';
+        properties: Record<string, unknown>;
+        required?: string[];
+    };
+    handler: (root: string, args: ToolArgs) => unknown;
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+export const MCP_TOOLS: ToolDefinition[] = [
+    {
+        name: 'append_entry',
+        description: 'Log a decision to the shared ledger. Call this after every response.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                agent: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string' },
+                        model: { type: 'string' },
+                        version: { type: 'string' },
+                    },
+                    required: ['name'],
+                },
+                action: {
+                    type: 'object',
+                    properties: {
+                        type: {
+                            type: 'string',
+                            enum: ['create', 'modify', 'delete', 'analyze', 'plan', 'debug', 'refactor', 'other'],
+                        },
+                        summary: { type: 'string', maxLength: 200 },
+                        description: { type: 'string' },
+                    },
+                    required: ['type', 'summary'],
+                },
+                reasoning: {
+                    type: 'object',
+                    properties: {
+                        intent: { type: 'string' },
+                        considerations: stringArray,
+                        assumptions: stringArray,
+                        uncertainties: stringArray,
+                        confidence: { type: 'number', minimum: 0, maximum: 1 },
+                    },
+                    required: ['intent'],
+                },
+                session: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        entryIndex: { type: 'integer', minimum: 0 },
+                        parentEntryId: { type: 'string' },
+                    },
+                    required: ['id', 'entryIndex'],
+                },
+                tools: { type: 'array', items: { type: 'object' } },
+                artifacts: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            path: { type: 'string' },
+                            action: { type: 'string', enum: ['created', 'modified', 'deleted', 'read'] },
+                            linesChanged: { type: 'integer' },
+                            summary: { type: 'string' },
+                        },
+                        required: ['path', 'action'],
+                    },
+                },
+                userPrompt: { type: 'string' },
+                tags: stringArray,
+                relatedEntries: stringArray,
+                grounding: {
+                    type: 'object',
+                    properties: {
+                        philosophyRefs: { ...stringArray, description: 'Grounding docs you read; their current versions are recorded' },
+                        constraintsApplied: stringArray,
+                        alignmentNotes: { type: 'string' },
+                    },
+                },
+                entryType: {
+                    type: 'string',
+                    enum: ['handoff', 'transition', 'implementation', 'bugfix', 'review'],
+                    description: 'Requires the matching payload field (e.g. handoff → sessionSummary)',
+                },
+                sessionSummary: { type: 'object' },
+                transition: { type: 'object' },
+                implementation: { type: 'object' },
+                bugfix: { type: 'object' },
+                review: { type: 'object' },
+            },
+            required: ['agent', 'action', 'reasoning'],
+        },
+        handler: (root, args) => {
+            const entry = createEntry(
+                args.agent as LedgerEntry['agent'],
+                args.action as LedgerEntry['action'],
+                args.reasoning as LedgerEntry['reasoning'],
+                {
+                    session: args.session as LedgerEntry['session'] | undefined,
+                    tools: args.tools as LedgerEntry['tools'] | undefined,
+                    artifacts: args.artifacts as LedgerEntry['artifacts'] | undefined,
+                    userPrompt: args.userPrompt as string | undefined,
+                    tags: args.tags as string[] | undefined,
+                    relatedEntries: args.relatedEntries as string[] | undefined,
+                    grounding: args.grounding
+                        ? stampGroundingHashes(root, args.grounding as NonNullable<LedgerEntry['grounding']>)
+                        : undefined,
+                    entryType: args.entryType as LedgerEntry['entryType'],
+                    sessionSummary: args.sessionSummary as LedgerEntry['sessionSummary'],
+                    transition: args.transition as LedgerEntry['transition'],
+                    implementation: args.implementation as LedgerEntry['implementation'],
+                    bugfix: args.bugfix as LedgerEntry['bugfix'],
+                    review: args.review as LedgerEntry['review'],
+                }
+            );
+            // Violations are collected, not printed: stdout carries the protocol
+            const violations: PromiseViolation[] = [];
+            const removeHook = addAppendHook(createViolationHook(found => violations.push(...found)));
+            try {
+                appendEntry(root, entry);
+            } finally {
+                removeHook();
+            }
+
+            // The entry is written either way; an invalid config or a busy lock
+            // only postpones compaction, and the caller is told why
+            let rolledUp: string[] = [];
+            let compactionError: string | undefined;
+            try {
+                rolledUp = compactLedger(root, loadConfig(root)).map(r => r.id);
+            } catch (e) {
+                compactionError = (e as Error).message;
+            }
+
+            // A handoff or a new session ends session-scoped promises
+            let withdrawnPromises: string[] = [];
+            let sweepError: string | undefined;
+            try {
+                withdrawnPromises = sweepPromises(root).withdrawn.map(e => e.promise.id);
+            } catch (e) {
+                sweepError = (e as Error).message;
+            }
+
+            return {
+                id: entry.id,
+                session: entry.session,
+                ...(rolledUp.length > 0 ? { rolledUp } : {}),
+                ...(compactionError !== undefined ? { compactionError } : {}),
+                ...(withdrawnPromises.length > 0 ? { withdrawnPromises } : {}),
+                ...(sweepError !== undefined ? { sweepError } : {}),
+                ...(violations.length > 0
+                    ? { promiseViolations: violations.map(v => ({ promiseId: v.promise.id, reason: v.reason })) }
+                    : {}),
+            };
+        },
+    },
+    {
+        name: 'read_recent',
+        description: 'Read the most recent ledger entries.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                n: { type: 'integer', minimum: 1, description: 'Number of entries (default 20)' },
+            },
+        },
+        handler: (root, args) => readLastN(root, (args.n as number | undefined) ?? 20),
+    },
+    {
+        name: 'why',
+        description: 'Decision history of a file: every entry that touched it (following renames) and the promises about it. Call this before editing a file.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'File or directory, relative to the project root' },
+            },
+            required: ['path'],
+        },
+        handler: (root, args) => {
+            const history = getFileHistory(root, args.path as string);
+            return { ...history, promises: getPromisesForFiles(root, history.names) };
+        },
+    },
+    {
+        name: 'ground_for',
+        description: 'List the grounding docs (required, plus optional docs scoped to these paths) to read before touching some files.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                files: { type: 'array', items: { type: 'string' }, description: 'Files relative to the project root' },
+            },
+            required: ['files'],
+        },
+        handler: (root, args) => resolveGroundingDocs(root, loadConfig(root), args.files as string[]),
+    },
+    {
+        name: 'summary',
+        description: 'Get a context summary of recent agent activity. Call this on session start.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                lastN: { type: 'integer', minimum: 1, description: 'Number of entries to summarize (default ledger.maxEntriesToLoad)' },
+                format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+                handoff: { type: 'boolean', description: 'Include state inherited from the latest handoff' },
+            },
+        },
+        handler: (root, args) => {
+            const lastN = (args.lastN as number | undefined) ?? loadConfig(root).ledger.maxEntriesToLoad;
+            const summary = generateSummary(root, lastN, {
+                handoff: args.handoff as boolean | undefined,
+                confidence: getCalibratedConfidence(loadCalibrationProfile(root)),
+            });
+            return args.format === 'json' ? summary : formatSummaryForAgent(summary);
+        },
+    },
+    {
+        name: 'context',
+        description: 'One bundle with the project info, applicable constraints, grounding doc contents, latest handoff, file history and active promises. Call this on session start instead of reading each piece.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                files: { type: 'array', items: { type: 'string' }, description: 'Files you are about to touch, relative to the project root' },
+                budget: { type: 'integer', minimum: 1, description: 'Token budget; lower-priority sections are trimmed to fit' },
+                format: { type: 'string', enum: ['markdown', 'json'], description: 'Output format (default markdown)' },
+            },
+        },
+        handler: (root, args) => {
+            const bundle = buildContextBundle(root, loadConfig(root), {
+                files: args.files as string[] | undefined,
+                budget: args.budget as number | undefined,
+            });
+            return args.format === 'json' ? bundle : formatContextBundle(bundle);
+        },
+    },
+    {
+        name: 'add_promise',
+        description: 'Make a commitment to another agent (or "*" for any future agent).',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                promiser: {
+                    type: 'object',
+                    properties: { agent: { type: 'string' }, session: { type: 'string' } },
+                    required: ['agent'],
+                },
+                promisee: {
+                    type: 'object',
+                    properties: {
+                        agent: { type: 'string' },
+                        scope: { type: 'string', enum: ['session', 'project', 'permanent'] },
+                    },
+                    required: ['agent'],
+                },
+                promise: {
+                    type: 'object',
+                    properties: {
+                        type: { type: 'string', enum: ['will-do', 'will-not-do', 'will-maintain', 'will-provide'] },
+                        summary: { type: 'string', maxLength: 200 },
+                        description: { type: 'string' },
+                        conditions: stringArray,
+                    },
+                    required: ['type', 'summary'],
+                },
+                context: {
+                    type: 'object',
+                    properties: {
+                        relatedEntries: stringArray,
+                        artifacts: stringArray,
+                        constraintRefs: stringArray,
+                        userPrompt: { type: 'string' },
+                    },
+                },
+                tags: stringArray,
+                dependsOn: { ...stringArray, description: 'Promise IDs that must be fulfilled first' },
+                dueBy: { type: 'string', description: 'ISO 8601 deadline; the promise is flagged as overdue after it' },
+            },
+            required: ['promiser', 'promisee', 'promise'],
+        },
+        handler: (root, args) => {
+            const promise = createPromise(
+                args.promiser as PromiseEntry['promiser'],
+                args.promisee as PromiseEntry['promisee'],
+                args.promise as PromiseEntry['promise'],
+                args.context as PromiseEntry['context'],
+                args.tags as string[] | undefined,
+                args.dependsOn as string[] | undefined,
+                args.dueBy as string | undefined
+            );
+            appendPromise(root, promise);
+            return { id: promise.id };
+        },
+    },
+    {
+        name: 'add_report',
+        description: 'Report progress on a promise. Report facts, not judgments.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                reporter: {
+                    type: 'object',
+                    properties: {
+                        agent: { type: 'string' },
+                        role: { type: 'string', enum: ['actor', 'witness', 'human'] },
+                        session: { type: 'string' },
+                    },
+                    required: ['agent', 'role'],
+                },
+                promiseId: { type: 'string' },
+                report: {
+                    type: 'object',
+                    properties: {
+                        workCompleted: { type: 'string' },
+                        remaining: stringArray,
+                        blockers: stringArray,
+                        confidenceInCompletion: { type: 'number', minimum: 0, maximum: 1 },
+                    },
+                    required: ['workCompleted', 'confidenceInCompletion'],
+                },
+                relatedEntries: stringArray,
+                tags: stringArray,
+            },
+            required: ['reporter', 'promiseId', 'report'],
+        },
+        handler: (root, args) => {
+            const report = createWorkReport(
+                args.reporter as WorkReport['reporter'],
+                args.promiseId as string,
+                args.report as WorkReport['report'],
+                args.relatedEntries as string[] | undefined,
+                args.tags as string[] | undefined
+            );
+            appendReport(root, report);
+            return { id: report.id };
+        },
+    },
+];
+
+// ============================================
+// SERVER
+// ============================================
+
+/**
+ * Create an MCP server bound to a LedgerSync root
+ */
+export function createMcpServer(root: string, version: string = '0.2.0'): Server {
+    const server = new Server(
+        { name: 'ledgersync', version },
+        { capabilities: { tools: {} } }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: MCP_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        const tool = MCP_TOOLS.find(t => t.name === request.params.name);
+        if (!tool) {
+            return {
+                content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }],
+                isError: true,
+            };
+        }
+
+        try {
+            const result = tool.handler(root, request.params.arguments ?? {});
+            const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+            return { content: [{ type: 'text', text }] };
+        } catch (e) {
+            return {
+                content: [{ type: 'text', text: (e as Error).message }],
+                isError: true,
+            };
+        }
+    });
+
+    return server;
+}
+
+/**
+ * Run the MCP server over stdio until the client disconnects
+ */
+export async function startMcpServer(root: string, version?: string): Promise<void> {
+    const server = createMcpServer(root, version);
+    await server.connect(new StdioServerTransport());
+}
@@ -0,0 +1,371 @@
+/**
+ * Promise graph: dependencies between promises
+ *
+ * A promise can declare dependsOn: other promises that must be fulfilled
+ * before it can be. A dependency that was superseded is replaced by the
+ * promise that superseded it. From the edges we work out which active
+ * promises are blocked, whether there are cycles, and the critical path:
+ * the longest chain of active promises that must be kept one after another.
+ */
+
+import type { PromiseEntry, PromiseStatus } from './types.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PromiseNode {
+    promise: PromiseEntry;
+    dependsOn: string[];           // Known dependencies, after following supersededBy
+    dependents: string[];          // Promises that depend on this one
+    missing: string[];             // Declared dependencies that don't exist
+}
+
+export interface PromiseGraph {
+    nodes: Map<string, PromiseNode>;
+}
+
+export type BlockerReason =
+    | 'pending'                    // Still active
+    | 'broken'
+    | 'withdrawn'
+    | 'missing';                   // Unknown promise ID
+
+export interface Blocker {
+    id: string;
+    reason: BlockerReason;
+    promise?: PromiseEntry;
+}
+
+export interface BlockedPromise {
+    promise: PromiseEntry;
+    blockers: Blocker[];
+}
+
+export type GraphFormat = 'tree' | 'dot' | 'mermaid';
+
+const STATUS_MARKS: Record<PromiseStatus, string> = {
+    active: '○',
+    fulfilled: '✓',
+    broken: '✗',
+    withdrawn: '-',
+    superseded: '→',
+};
+
+const STATUS_COLORS: Record<PromiseStatus, string> = {
+    active: '#BFDBFE',
+    fulfilled: '#BBF7D0',
+    broken: '#FECACA',
+    withdrawn: '#E5E7EB',
+    superseded: '#E5E7EB',
+};
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Follow supersededBy to the promise that currently stands for an ID
+ */
+function currentPromiseId(id: string, promises: Map<string, PromiseEntry>): string {
+    const seen = new Set<string>();
+    let current = id;
+    while (!seen.has(current)) {
+        seen.add(current);
+        const next = promises.get(current)?.supersededBy;
+        if (!next || !promises.has(next)) {
+            break;
+        }
+        current = next;
+    }
+    return current;
+}
+
+export function buildPromiseGraph(promises: PromiseEntry[]): PromiseGraph {
+    const byId = new Map(promises.map(p => [p.id, p]));
+    const nodes = new Map<string, PromiseNode>(
+        promises.map(p => [p.id, { promise: p, dependsOn: [], dependents: [], missing: [] }])
+    );
+
+    for (const node of nodes.values()) {
+        for (const declared of node.promise.dependsOn ?? []) {
+            if (!byId.has(declared)) {
+                node.missing.push(declared);
+                continue;
+            }
+            // A promise that superseded its own dependency still depends on the original
+            const current = currentPromiseId(declared, byId);
+            const id = current === node.promise.id ? declared : current;
+            if (!node.dependsOn.includes(id)) {
+                node.dependsOn.push(id);
+                nodes.get(id)!.dependents.push(node.promise.id);
+            }
+        }
+    }
+
+    return { nodes };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Active promises with a dependency that isn't fulfilled
+ */
+export function findBlockedPromises(graph: PromiseGraph): BlockedPromise[] {
+    const blocked: BlockedPromise[] = [];
+
+    for (const node of graph.nodes.values()) {
+        if (node.promise.status !== 'active') {
+            continue;
+        }
+
+        const blockers: Blocker[] = node.missing.map(id => ({ id, reason: 'missing' as const }));
+        for (const id of node.dependsOn) {
+            const dependency = graph.nodes.get(id)!.promise;
+            if (dependency.status === 'active') {
+                blockers.push({ id, reason: 'pending', promise: dependency });
+            } else if (dependency.status === 'broken' || dependency.status === 'withdrawn') {
+                blockers.push({ id, reason: dependency.status, promise: dependency });
+            } else if (dependency.status === 'superseded') {
+                // Superseded by a promise we don't have
+                blockers.push({ id, reason: 'missing', promise: dependency });
+            }
+        }
+
+        if (blockers.length > 0) {
+            blocked.push({ promise: node.promise, blockers });
+        }
+    }
+
+    return blocked;
+}
+
+/**
+ * Every dependency cycle, each listed once as promise IDs in dependency order
+ */
+export function findDependencyCycles(graph: PromiseGraph): string[][] {
+    const cycles: string[][] = [];
+    const seenCycles = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string): void => {
+        state.set(id, 'visiting');
+        stack.push(id);
+
+        for (const dep of graph.nodes.get(id)!.dependsOn) {
+            if (state.get(dep) === 'visiting') {
+                const cycle = stack.slice(stack.indexOf(dep));
+                const key = [...cycle].sort().join(',');
+                if (!seenCycles.has(key)) {
+                    seenCycles.add(key);
+                    cycles.push(cycle);
+                }
+            } else if (!state.has(dep)) {
+                visit(dep);
+            }
+        }
+
+        stack.pop();
+        state.set(id, 'done');
+    };
+
+    for (const id of graph.nodes.keys()) {
+        if (!state.has(id)) {
+            visit(id);
+        }
+    }
+
+    return cycles;
+}
+
+/**
+ * The longest chain of active promises linked by dependencies, starting
+ * with the one that has to be kept first. Promises in cycles are skipped.
+ */
+export function findCriticalPath(graph: PromiseGraph): PromiseEntry[] {
+    const inCycle = new Set(findDependencyCycles(graph).flat());
+    const longest = new Map<string, string[]>();
+
+    const chainFrom = (id: string): string[] => {
+        const known = longest.get(id);
+        if (known) {
+            return known;
+        }
+
+        let best: string[] = [];
+        for (const dep of graph.nodes.get(id)!.dependsOn) {
+            if (graph.nodes.get(dep)!.promise.status === 'active' && !inCycle.has(dep)) {
+                const chain = chainFrom(dep);
+                if (chain.length > best.length) {
+                    best = chain;
+                }
+            }
+        }
+
+        const chain = [...best, id];
+        longest.set(id, chain);
+        return chain;
+    };
+
+    let critical: string[] = [];
+    for (const node of graph.nodes.values()) {
+        if (node.promise.status === 'active' && !inCycle.has(node.promise.id)) {
+            const chain = chainFrom(node.promise.id);
+            if (chain.length > critical.length) {
+                critical = chain;
+            }
+        }
+    }
+
+    return critical.map(id => graph.nodes.get(id)!.promise);
+}
+
+/**
+ * Active promises plus everything they depend on, directly or not
+ */
+export function getActiveSubgraphIds(graph: PromiseGraph): Set<string> {
+    const ids = new Set<string>();
+    const add = (id: string): void => {
+        if (ids.has(id)) {
+            return;
+        }
+        ids.add(id);
+        graph.nodes.get(id)!.dependsOn.forEach(add);
+    };
+
+    for (const node of graph.nodes.values()) {
+        if (node.promise.status === 'active') {
+            add(node.promise.id);
+        }
+    }
+    return ids;
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+function describe(promise: PromiseEntry): string {
+    return `${promise.promise.type} "${promise.promise.summary}" [${promise.status}] ${promise.promiser.agent} (${promise.id.slice(0, 8)})`;
+}
+
+/**
+ * Indented tree: each promise with its dependencies below it. Promises
+ * nothing else depends on are the roots.
+ */
+export function formatPromiseTree(graph: PromiseGraph, ids: Set<string> = new Set(graph.nodes.keys())): string {
+    const blocked = new Set(findBlockedPromises(graph).map(b => b.promise.id));
+    const lines: string[] = [];
+
+    const render = (id: string, prefix: string, childPrefix: string, path: Set<string>): void => {
+        const node = graph.nodes.get(id)!;
+        if (path.has(id)) {
+            lines.push(`${prefix}${STATUS_MARKS[node.promise.status]} ${describe(node.promise)} — cycle`);
+            return;
+        }
+
+        const flags = [
+            blocked.has(id) ? 'blocked' : '',
+            ...node.missing.map(m => `missing dependency ${m.slice(0, 8)}`),
+        ].filter(Boolean);
+        const suffix = flags.length > 0 ? ` — ${flags.join(', ')}` : '';
+        lines.push(`${prefix}${STATUS_MARKS[node.promise.status]} ${describe(node.promise)}${suffix}`);
+
+        const deps = node.dependsOn.filter(d => ids.has(d));
+        deps.forEach((dep, i) => {
+            const last = i === deps.length - 1;
+            render(dep, `${childPrefix}${last ? '└── ' : '├── '}`, `${childPrefix}${last ? '    ' : '│   '}`, new Set([...path, id]));
+        });
+    };
+
+    const roots = [...ids].filter(id => !graph.nodes.get(id)!.dependents.some(d => ids.has(d)));
+    // Cycles with nothing outside depending on them have no root; start from any member
+    const covered = new Set<string>();
+    const cover = (id: string): void => {
+        if (covered.has(id)) return;
+        covered.add(id);
+        graph.nodes.get(id)!.dependsOn.filter(d => ids.has(d)).forEach(cover);
+    };
+    roots.forEach(cover);
+    for (const id of ids) {
+        if (!covered.has(id)) {
+            roots.push(id);
+            cover(id);
+        }
+    }
+
+    for (const root of roots) {
+        render(root, '', '', new Set());
+    }
+    return lines.join('\n');
+}
+
+function escapeDot(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Graphviz DOT; an edge points from a promise to what it depends on
+ */
+export function formatPromiseDot(graph: PromiseGraph, ids: Set<string> = new Set(graph.nodes.keys())): string {
+    const lines = ['digraph promises {', '    rankdir=LR;', '    node [shape=box, style="rounded,filled"];'];
+
+    for (const id of ids) {
+        const p = graph.nodes.get(id)!.promise;
+        const label = `${escapeDot(p.promise.summary)}\\n${escapeDot(p.promiser.agent)} · ${p.promise.type} · ${p.status}`;
+        lines.push(`    "${id}" [label="${label}", fillcolor="${STATUS_COLORS[p.status]}"];`);
+    }
+    for (const id of ids) {
+        for (const dep of graph.nodes.get(id)!.dependsOn.filter(d => ids.has(d))) {
+            lines.push(`    "${id}" -> "${dep}";`);
+        }
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+function escapeMermaid(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+/**
+ * Mermaid flowchart; an arrow points from a promise to what it depends on
+ */
+export function formatPromiseMermaid(graph: PromiseGraph, ids: Set<string> = new Set(graph.nodes.keys())): string {
+    const nodeId = (id: string) => `p${id.replace(/-/g, '').slice(0, 12)}`;
+    const lines = ['flowchart LR'];
+
+    for (const id of ids) {
+        const p = graph.nodes.get(id)!.promise;
+        lines.push(`    ${nodeId(id)}["${escapeMermaid(p.promise.summary)}<br/>${escapeMermaid(p.promiser.agent)} · ${p.promise.type} · ${p.status}"]:::${p.status}`);
+    }
+    for (const id of ids) {
+        for (const dep of graph.nodes.get(id)!.dependsOn.filter(d => ids.has(d))) {
+            lines.push(`    ${nodeId(id)} --> ${nodeId(dep)}`);
+        }
+    }
+    for (const [status, color] of Object.entries(STATUS_COLORS)) {
+        lines.push(`    classDef ${status} fill:${color}`);
+    }
+
+    return lines.join('\n');
+}
+
+export function formatPromiseGraph(
+    graph: PromiseGraph,
+    format: GraphFormat,
+    ids: Set<string> = new Set(graph.nodes.keys())
+): string {
+    switch (format) {
+        case 'dot':
+            return formatPromiseDot(graph, ids);
+        case 'mermaid':
+            return formatPromiseMermaid(graph, ids);
+        case 'tree':
+            return formatPromiseTree(graph, ids);
+    }
+}
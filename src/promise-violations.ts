@@ -0,0 +1,212 @@
+/**
+ * Promise violations: entries that break a will-not-do or will-maintain promise
+ *
+ * Both promise types name the files they cover in context.artifacts
+ * (paths or globs). A later entry by the promiser that changes one of
+ * them breaks a will-not-do promise; one that deletes one breaks a
+ * will-maintain promise. Each violation is recorded as a witness report
+ * with a proposed broken verdict: it flags the promise for a human or
+ * witness to judge, and never resolves it on its own.
+ *
+ * Checking on append is opt-in (ledger.checkPromises in config.yaml);
+ * `ledgersync promise check` scans the whole ledger.
+ */
+
+import type { LedgerEntry, PromiseEntry, WorkReport, ActionType } from './types.js';
+import { normalizeProjectPath, isSameOrUnder, readLedger } from './ledger.js';
+import type { AppendHook } from './ledger.js';
+import { matchesGlob } from './glob.js';
+import { loadConfig } from './config.js';
+import { applyPromiseEvent, readPromises, readPromiseTimeline } from './promises.js';
+import { appendReport, createVerdictReport, readReports } from './reports.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PromiseViolation {
+    promise: PromiseEntry;
+    entry: LedgerEntry;
+    paths: string[];               // Artifacts the promise covers
+    reason: string;
+}
+
+/** Reporter on violation reports */
+export const VIOLATION_WITNESS = 'ledgersync';
+
+/** Tag on violation reports */
+export const VIOLATION_TAG = 'promise-violation';
+
+// Actions that can't break a will-not-do promise, whatever their artifacts say
+const READ_ONLY_ACTIONS: ActionType[] = ['analyze', 'plan'];
+
+// ============================================
+// DETECTION
+// ============================================
+
+function coversPath(promise: PromiseEntry, filePath: string): boolean {
+    const file = normalizeProjectPath(filePath);
+    return (promise.context?.artifacts ?? []).some(artifact =>
+        isSameOrUnder(file, normalizeProjectPath(artifact)) || matchesGlob(file, artifact)
+    );
+}
+
+function checkPromise(entry: LedgerEntry, promise: PromiseEntry): PromiseViolation | null {
+    const quote = `"${promise.promise.summary}"`;
+
+    if (promise.promise.type === 'will-not-do') {
+        if (READ_ONLY_ACTIONS.includes(entry.action.type)) {
+            return null;
+        }
+        const changes = entry.artifacts.filter(a => a.action !== 'read' && coversPath(promise, a.path));
+        if (changes.length === 0) {
+            return null;
+        }
+        const paths = changes.map(a => a.path);
+        return {
+            promise, entry, paths,
+            reason: `${entry.agent.name} promised ${quote}, then changed ${paths.join(', ')}`,
+        };
+    }
+
+    // will-maintain: deleting a covered file breaks it
+    const touched = entry.artifacts.filter(a => a.action !== 'read' && coversPath(promise, a.path));
+    const deleted = entry.action.type === 'delete' ? touched : touched.filter(a => a.action === 'deleted');
+    if (deleted.length === 0) {
+        return null;
+    }
+    const paths = deleted.map(a => a.path);
+    return {
+        promise, entry, paths,
+        reason: `${entry.agent.name} promised to maintain ${quote}, then deleted ${paths.join(', ')}`,
+    };
+}
+
+/**
+ * Active will-not-do and will-maintain promises an entry breaks. Only the
+ * promiser's own entries, made after the promise, are checked.
+ */
+export function findPromiseViolations(entry: LedgerEntry, promises: PromiseEntry[]): PromiseViolation[] {
+    const loggedAt = Date.parse(entry.timestamp);
+    const violations: PromiseViolation[] = [];
+
+    for (const promise of promises) {
+        const type = promise.promise.type;
+        if (promise.status !== 'active' || (type !== 'will-not-do' && type !== 'will-maintain')) {
+            continue;
+        }
+        if (promise.promiser.agent !== entry.agent.name || Date.parse(promise.timestamp) > loggedAt) {
+            continue;
+        }
+        if (!promise.context?.artifacts?.length) {
+            continue;
+        }
+
+        const violation = checkPromise(entry, promise);
+        if (violation) {
+            violations.push(violation);
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Check every ledger entry against the promises that were active when it
+ * was logged: status events before the entry are folded in, later ones
+ * aren't, so a promise resolved or withdrawn since still counts.
+ */
+export function scanLedgerForViolations(root: string): PromiseViolation[] {
+    const { promises, events } = readPromiseTimeline(root);
+    const asOf = new Map(promises.map(p => [p.id, p]));
+    const entries = [...readLedger(root)].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    let next = 0;
+
+    return entries.flatMap(entry => {
+        const loggedAt = Date.parse(entry.timestamp);
+        for (; next < events.length && Date.parse(events[next].timestamp) < loggedAt; next++) {
+            const promise = asOf.get(events[next].promiseId);
+            if (promise) {
+                asOf.set(promise.id, applyPromiseEvent(promise, events[next]));
+            }
+        }
+        return findPromiseViolations(entry, [...asOf.values()]);
+    });
+}
+
+// ============================================
+// REPORTS
+// ============================================
+
+/**
+ * A witness report proposing a broken verdict for the violated promise
+ */
+export function createViolationReport(violation: PromiseViolation): WorkReport {
+    return createVerdictReport(
+        { agent: VIOLATION_WITNESS, role: 'witness' },
+        violation.promise.id,
+        { status: 'broken', reasoning: violation.reason, proposed: true },
+        `Entry ${violation.entry.id.slice(0, 8)} touched ${violation.paths.join(', ')}`,
+        [violation.entry.id],
+        [VIOLATION_TAG]
+    );
+}
+
+function isRecorded(violation: PromiseViolation, reports: WorkReport[]): boolean {
+    return reports.some(r =>
+        r.promiseId === violation.promise.id &&
+        r.tags?.includes(VIOLATION_TAG) &&
+        r.relatedEntries?.includes(violation.entry.id)
+    );
+}
+
+/**
+ * Append a violation report for each violation not already reported.
+ * Returns the reports written.
+ */
+export function recordPromiseViolations(root: string, violations: PromiseViolation[]): WorkReport[] {
+    const reports = readReports(root);
+    const written: WorkReport[] = [];
+
+    for (const violation of violations) {
+        if (isRecorded(violation, reports)) {
+            continue;
+        }
+        const report = createViolationReport(violation);
+        appendReport(root, report);
+        reports.push(report);
+        written.push(report);
+    }
+
+    return written;
+}
+
+// ============================================
+// APPEND HOOK
+// ============================================
+
+function isCheckingEnabled(root: string): boolean {
+    try {
+        return loadConfig(root).ledger.checkPromises === true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * An append hook that, when ledger.checkPromises is on, records the
+ * violations in each appended entry and passes them to onViolation
+ */
+export function createViolationHook(onViolation: (violations: PromiseViolation[]) => void = () => {}): AppendHook {
+    return (root, entry) => {
+        if (!isCheckingEnabled(root)) {
+            return;
+        }
+
+        const violations = findPromiseViolations(entry, readPromises(root));
+        if (violations.length > 0) {
+            recordPromiseViolations(root, violations);
+            onViolation(violations);
+        }
+    };
+}
@@ -3,18 +3,25 @@
  * 
  * Promises enable bilateral commitments between agents.
  * They are stored in promises.jsonl, separate from the action ledger.
+ * Status changes are appended as events; the file is never rewritten
+ * (except by the one-time migration of legacy files).
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import { createRequire } from 'node:module';
 import { v4 as uuidv4 } from 'uuid';
-import type { PromiseEntry, PromiseType, PromiseStatus, PromiseScope } from './types.js';
-import { LEDGERSYNC_DIR } from './ledger.js';
+import { isPromiseStatusEvent } from './types.js';
+import type { LedgerEntry, PromiseEntry, PromiseStatusEvent, PromiseType, PromiseStatus, PromiseScope } from './types.js';
+import { LEDGERSYNC_DIR, normalizeProjectPath, isSameOrUnder, readLedger } from './ledger.js';
+import { withFileLock, writeFileAtomic } from './lock.js';
+import { appendChained, chainLines, verifyChain } from './integrity.js';
+import { buildPromiseGraph, findDependencyCycles } from './promise-graph.js';
 
 // Load JSON schema using createRequire for ESM compatibility
 const require = createRequire(import.meta.url);
 const promiseSchema = require('./schema/promise.schema.json');
+const promiseEventSchema = require('./schema/promise-event.schema.json');
 
 // ============================================
 // CONSTANTS
@@ -34,6 +41,7 @@ const addFormats = addFormatsModule.default || addFormatsModule;
 const ajv = new Ajv({ allErrors: true });
 addFormats(ajv);
 const validatePromise = ajv.compile(promiseSchema);
+const validatePromiseEvent = ajv.compile(promiseEventSchema);
 
 export function isValidPromise(promise: unknown): promise is PromiseEntry {
     return validatePromise(promise) as boolean;
@@ -43,6 +51,14 @@ export function getPromiseValidationErrors(): string[] {
     return validatePromise.errors?.map(e => `${e.instancePath} ${e.message}`) ?? [];
 }
 
+export function isValidPromiseEvent(event: unknown): event is PromiseStatusEvent {
+    return validatePromiseEvent(event) as boolean;
+}
+
+export function getPromiseEventValidationErrors(): string[] {
+    return validatePromiseEvent.errors?.map(e => `${e.instancePath} ${e.message}`) ?? [];
+}
+
 // ============================================
 // PATH UTILITIES
 // ============================================
@@ -56,9 +72,9 @@ export function getPromisesPath(root: string): string {
 // ============================================
 
 /**
- * Read all promises from the ledger
+ * Read every record in promises.jsonl: promises and status-change events, in file order
  */
-export function readPromises(root: string): PromiseEntry[] {
+function readPromiseRecords(root: string): (PromiseEntry | PromiseStatusEvent)[] {
     const promisesPath = getPromisesPath(root);
 
     if (!fs.existsSync(promisesPath)) {
@@ -70,13 +86,75 @@ export function readPromises(root: string): PromiseEntry[] {
 
     return lines.map((line, index) => {
         try {
-            return JSON.parse(line) as PromiseEntry;
+            return JSON.parse(line) as PromiseEntry | PromiseStatusEvent;
         } catch (e) {
             throw new Error(`Invalid JSON on line ${index + 1}: ${(e as Error).message}`);
         }
     });
 }
 
+/**
+ * Apply a status-change event to a promise
+ */
+export function applyPromiseEvent(promise: PromiseEntry, event: PromiseStatusEvent): PromiseEntry {
+    return {
+        ...promise,
+        status: event.status,
+        resolvedBy: event.resolvedBy ?? (event.status === 'active' ? undefined : promise.resolvedBy),
+        resolvedAt: event.status === 'active' ? undefined : event.timestamp,
+        supersededBy: event.supersededBy ?? promise.supersededBy,
+    };
+}
+
+/**
+ * Read all promises from the ledger, with status events folded in
+ */
+export function readPromises(root: string): PromiseEntry[] {
+    const promises = new Map<string, PromiseEntry>();
+
+    for (const record of readPromiseRecords(root)) {
+        if (isPromiseStatusEvent(record)) {
+            const promise = promises.get(record.promiseId);
+            if (promise) {
+                promises.set(promise.id, applyPromiseEvent(promise, record));
+            }
+        } else {
+            promises.set(record.id, record);
+        }
+    }
+
+    return [...promises.values()];
+}
+
+/**
+ * Read all status-change events, oldest first
+ */
+export function readPromiseEvents(root: string): PromiseStatusEvent[] {
+    return readPromiseRecords(root).filter(isPromiseStatusEvent);
+}
+
+/**
+ * Promises as they were written, before any status event, and the
+ * status events, oldest first. Fold events up to a time with
+ * applyPromiseEvent to see the promises as they stood then.
+ */
+export function readPromiseTimeline(root: string): { promises: PromiseEntry[]; events: PromiseStatusEvent[] } {
+    const records = readPromiseRecords(root);
+    return {
+        promises: records.filter((r): r is PromiseEntry => !isPromiseStatusEvent(r)),
+        events: records
+            .filter(isPromiseStatusEvent)
+            .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+    };
+}
+
+/**
+ * Get the status history (audit trail) of a single promise
+ */
+export function getPromiseHistory(root: string, promiseId: string): PromiseStatusEvent[] {
+    return readPromiseEvents(root).filter(e => e.promiseId === promiseId);
+}
+
 /**
  * Read only active promises
  */
@@ -99,6 +177,24 @@ export function getPromiseById(root: string, id: string): PromiseEntry | undefin
     return readPromises(root).find(p => p.id === id);
 }
 
+/**
+ * Get a single promise by full ID or unique ID prefix (e.g. the 8-char IDs `status` prints)
+ * Throws if the prefix is ambiguous.
+ */
+export function findPromiseByPrefix(root: string, idOrPrefix: string): PromiseEntry | undefined {
+    const promises = readPromises(root);
+    const exact = promises.find(p => p.id === idOrPrefix);
+    if (exact) {
+        return exact;
+    }
+
+    const matches = promises.filter(p => p.id.startsWith(idOrPrefix));
+    if (matches.length > 1) {
+        throw new Error(`Ambiguous promise ID "${idOrPrefix}" matches ${matches.length} promises`);
+    }
+    return matches[0];
+}
+
 /**
  * Get promises made BY an agent (agent is the promiser)
  */
@@ -116,14 +212,27 @@ export function getPromisesForAgent(root: string, agentName: string): PromiseEnt
 }
 
 /**
- * Get promises related to a specific file
+ * Get promises related to a specific file, or to anything under it if it is a directory.
+ * A promise about a directory also counts for the files in it.
  */
 export function getPromisesForFile(root: string, filePath: string): PromiseEntry[] {
-    return readPromises(root).filter(p => 
-        p.context?.artifacts?.some(a => a.includes(filePath))
+    const target = normalizeProjectPath(filePath, root);
+    return readPromises(root).filter(p =>
+        p.context?.artifacts?.some(a => {
+            const artifact = normalizeProjectPath(a, root);
+            return isSameOrUnder(artifact, target) || isSameOrUnder(target, artifact);
+        })
     );
 }
 
+/**
+ * Promises related to any of several paths (e.g. a file and its former names)
+ */
+export function getPromisesForFiles(root: string, filePaths: string[]): PromiseEntry[] {
+    const ids = new Set(filePaths.flatMap(f => getPromisesForFile(root, f)).map(p => p.id));
+    return readPromises(root).filter(p => ids.has(p.id));
+}
+
 // ============================================
 // WRITE OPERATIONS
 // ============================================
@@ -145,9 +254,21 @@ export function appendPromise(root: string, promise: PromiseEntry): void {
         fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Append with newline
-    const line = JSON.stringify(promise) + '\n';
-    fs.appendFileSync(promisesPath, line, 'utf-8');
+    // Check and append under one lock so no other change slips in between
+    withFileLock(promisesPath, () => {
+        // Dependencies must already exist, so a new promise can't close a cycle;
+        // supersedePromise guards the other way one can form
+        if (promise.dependsOn?.length) {
+            const known = new Set(readPromises(root).map(p => p.id));
+            const unknown = promise.dependsOn.filter(id => !known.has(id));
+            if (unknown.length > 0) {
+                throw new Error(`Invalid promise: depends on unknown promise ${unknown.join(', ')}`);
+            }
+        }
+
+        // Append linked to the previous line
+        appendChained(promisesPath, promise);
+    });
 }
 
 /**
@@ -158,7 +279,9 @@ export function createPromise(
     promisee: { agent: string; scope?: PromiseScope },
     promise: { type: PromiseType; summary: string; description?: string; conditions?: string[] },
     context?: PromiseEntry['context'],
-    tags?: string[]
+    tags?: string[],
+    dependsOn?: string[],
+    dueBy?: string
 ): PromiseEntry {
     return {
         id: uuidv4(),
@@ -167,6 +290,8 @@ export function createPromise(
         promisee,
         promise,
         context,
+        dependsOn,
+        dueBy,
         status: 'active',
         tags,
     };
@@ -179,77 +304,279 @@ export function createPromise(
 /**
  * Resolve a promise (update its status)
  * 
- * Note: This rewrites the file because JSONL doesn't support in-place updates.
- * For large ledgers, consider a more efficient approach.
+ * Appends a status-change event; the original promise line is never modified.
  */
 export function resolvePromise(
     root: string,
     promiseId: string,
     status: PromiseStatus,
-    resolvedBy?: string
+    resolvedBy?: string,
+    actor?: string
 ): PromiseEntry | null {
-    const promises = readPromises(root);
-    const index = promises.findIndex(p => p.id === promiseId);
+    return appendPromiseEvent(root, promiseId, { status, resolvedBy, actor });
+}
 
-    if (index === -1) {
-        return null;
-    }
+/**
+ * Supersede a promise with another. Dependents of the old promise then
+ * depend on the new one, so this throws if that would close a dependency
+ * cycle (the new promise depending, directly or not, on a dependent).
+ */
+export function supersedePromise(
+    root: string,
+    oldPromiseId: string,
+    newPromiseId: string,
+    actor?: string
+): PromiseEntry | null {
+    // Check and append under one lock so no other change slips in between
+    return withFileLock(getPromisesPath(root), () => {
+        const promises = readPromises(root);
+        const before = findDependencyCycles(buildPromiseGraph(promises)).length;
+        const after = findDependencyCycles(buildPromiseGraph(promises.map(p =>
+            p.id === oldPromiseId ? { ...p, status: 'superseded' as const, supersededBy: newPromiseId } : p
+        )));
+        if (after.length > before) {
+            const cycle = after.find(c => c.includes(newPromiseId)) ?? after[0];
+            throw new Error(`Invalid supersede: would close a dependency cycle (${[...cycle, cycle[0]].map(id => id.slice(0, 8)).join(' -> ')})`);
+        }
 
-    // Update the promise
-    promises[index] = {
-        ...promises[index],
-        status,
-        resolvedBy,
-        resolvedAt: new Date().toISOString(),
-    };
+        return appendPromiseEvent(root, oldPromiseId, { status: 'superseded', supersededBy: newPromiseId, actor });
+    });
+}
 
-    // Rewrite the file
+/**
+ * Append a status-change event for a promise and return its new state.
+ * Only active promises change status: fulfilled, broken, withdrawn and
+ * superseded are final, and a further event on one throws.
+ */
+export function appendPromiseEvent(
+    root: string,
+    promiseId: string,
+    change: Pick<PromiseStatusEvent, 'status' | 'actor' | 'resolvedBy' | 'supersededBy' | 'reason'>
+): PromiseEntry | null {
     const promisesPath = getPromisesPath(root);
-    const content = promises.map(p => JSON.stringify(p)).join('\n') + '\n';
-    fs.writeFileSync(promisesPath, content, 'utf-8');
 
-    return promises[index];
+    // Look up and append under one lock so the previous status is accurate
+    return withFileLock(promisesPath, () => {
+        const promise = getPromiseById(root, promiseId);
+        if (!promise) {
+            return null;
+        }
+        if (promise.status !== 'active') {
+            throw new Error(`Promise ${promiseId.slice(0, 8)} is already ${promise.status}; only active promises can become ${change.status}`);
+        }
+
+        const event: PromiseStatusEvent = {
+            id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            event: 'status-change',
+            promiseId,
+            previousStatus: promise.status,
+            ...change,
+        };
+
+        if (!isValidPromiseEvent(event)) {
+            throw new Error(`Invalid promise event: ${getPromiseEventValidationErrors().join(', ')}`);
+        }
+
+        appendChained(promisesPath, event);
+        return applyPromiseEvent(promise, event);
+    });
 }
 
+/** Agent name allowed to withdraw anyone's promise */
+export const HUMAN_AGENT = 'human';
+
 /**
- * Supersede a promise with another
+ * Whether an agent may withdraw a promise: its promiser or a human.
+ * (The sweep withdraws expired session promises as SWEEP_ACTOR.)
  */
-export function supersedePromise(
+export function mayWithdrawPromise(promise: PromiseEntry, actor: string | undefined): boolean {
+    return actor === promise.promiser.agent || actor === HUMAN_AGENT;
+}
+
+/**
+ * Withdraw an active promise. Only its promiser or a human may.
+ */
+export function withdrawPromise(
     root: string,
-    oldPromiseId: string,
-    newPromiseId: string
+    promiseId: string,
+    actor?: string
 ): PromiseEntry | null {
-    const promises = readPromises(root);
-    const index = promises.findIndex(p => p.id === oldPromiseId);
+    const promise = getPromiseById(root, promiseId);
+    if (promise && !mayWithdrawPromise(promise, actor)) {
+        throw new Error(`${actor ?? 'Unknown agent'} can't withdraw promise ${promiseId.slice(0, 8)}; only its promiser (${promise.promiser.agent}) or a human can`);
+    }
+    return resolvePromise(root, promiseId, 'withdrawn', undefined, actor);
+}
+
+// ============================================
+// EXPIRY
+// ============================================
+
+/** Actor recorded on status changes made by the sweep */
+export const SWEEP_ACTOR = 'ledgersync';
+
+export interface ExpiredPromise {
+    promise: PromiseEntry;
+    closedBy: string;              // Ledger entry that ended the session
+    reason: string;
+}
+
+export interface SweepResult {
+    withdrawn: ExpiredPromise[];
+    overdue: PromiseEntry[];
+}
 
-    if (index === -1) {
-        return null;
+/**
+ * The session a promise was made in: promiser.session, or else the
+ * session the promiser named on their last entry before it
+ */
+export function getPromiseSession(promise: PromiseEntry, entries: LedgerEntry[]): string | undefined {
+    if (promise.promiser.session) {
+        return promise.promiser.session;
     }
 
-    // Update the old promise
-    promises[index] = {
-        ...promises[index],
-        status: 'superseded',
-        supersededBy: newPromiseId,
-        resolvedAt: new Date().toISOString(),
-    };
+    const madeAt = Date.parse(promise.timestamp);
+    let session: string | undefined;
+    for (const entry of entries) {
+        if (entry.agent.name === promise.promiser.agent && !entry.session.generated && Date.parse(entry.timestamp) <= madeAt) {
+            session = entry.session.id;
+        }
+    }
+    return session;
+}
 
-    // Rewrite the file
-    const promisesPath = getPromisesPath(root);
-    const content = promises.map(p => JSON.stringify(p)).join('\n') + '\n';
-    fs.writeFileSync(promisesPath, content, 'utf-8');
+/**
+ * Active session-scoped promises whose session is over: the promiser
+ * handed off, someone handed off in the promise's session, or the
+ * promiser has since logged under another session ID they gave. Entries
+ * whose session ID was generated (none given) never end a session.
+ */
+export function findExpiredPromises(promises: PromiseEntry[], entries: LedgerEntry[]): ExpiredPromise[] {
+    const expired: ExpiredPromise[] = [];
+
+    for (const promise of promises) {
+        if (promise.status !== 'active' || promise.promisee.scope !== 'session') {
+            continue;
+        }
+
+        const promiser = promise.promiser.agent;
+        const session = getPromiseSession(promise, entries);
+        const madeAt = Date.parse(promise.timestamp);
+        const closing = entries.find(e => Date.parse(e.timestamp) >= madeAt && (
+            (e.entryType === 'handoff' && (e.agent.name === promiser || (session !== undefined && e.session.id === session))) ||
+            (session !== undefined && e.agent.name === promiser && !e.session.generated && e.session.id !== session)
+        ));
+
+        if (closing) {
+            expired.push({
+                promise,
+                closedBy: closing.id,
+                reason: closing.entryType !== 'handoff'
+                    ? `${promiser} started a new session (${closing.session.id})`
+                    : closing.session.generated
+                        ? `${closing.agent.name} handed off`
+                        : `${closing.agent.name} handed off session ${closing.session.id}`,
+            });
+        }
+    }
 
-    return promises[index];
+    return expired;
+}
+
+export function isOverduePromise(promise: PromiseEntry, now: number = Date.now()): boolean {
+    return promise.status === 'active' && promise.dueBy !== undefined && Date.parse(promise.dueBy) < now;
 }
 
 /**
- * Withdraw a promise
+ * Session promises among these whose session is over. Reads the ledger
+ * only if there are any active session promises to check.
  */
-export function withdrawPromise(
-    root: string,
-    promiseId: string
-): PromiseEntry | null {
-    return resolvePromise(root, promiseId, 'withdrawn');
+function readExpiredPromises(root: string, promises: PromiseEntry[]): ExpiredPromise[] {
+    const candidates = promises.filter(p => p.status === 'active' && p.promisee.scope === 'session');
+    return candidates.length > 0 ? findExpiredPromises(candidates, readLedger(root)) : [];
+}
+
+/**
+ * Active promises whose session hasn't ended, including overdue ones.
+ * Expired promises are left out even before the sweep records it.
+ */
+export function readLivePromises(root: string, promises: PromiseEntry[] = readPromises(root)): PromiseEntry[] {
+    const active = promises.filter(p => p.status === 'active');
+    const expired = new Set(readExpiredPromises(root, active).map(e => e.promise.id));
+    return active.filter(p => !expired.has(p.id));
+}
+
+/**
+ * Withdraw expired session promises and list overdue ones.
+ * With dryRun, nothing is written.
+ */
+export function sweepPromises(root: string, options: { dryRun?: boolean; now?: number } = {}): SweepResult {
+    const active = readActivePromises(root);
+    const withdrawn = readExpiredPromises(root, active);
+
+    if (!options.dryRun) {
+        for (const { promise, reason } of withdrawn) {
+            appendPromiseEvent(root, promise.id, { status: 'withdrawn', actor: SWEEP_ACTOR, reason });
+        }
+    }
+
+    const expired = new Set(withdrawn.map(e => e.promise.id));
+    const overdue = active.filter(p => !expired.has(p.id) && isOverduePromise(p, options.now));
+
+    return { withdrawn, overdue };
+}
+
+// ============================================
+// MIGRATION
+// ============================================
+
+/**
+ * Migrate a promises.jsonl written before status events existed
+ *
+ * Older versions rewrote promise lines in place on resolve. This resets
+ * each such line to 'active' and appends an equivalent status-change event,
+ * so the status survives and is visible in the audit trail. Safe to run twice.
+ * Returns the number of promises migrated.
+ */
+export function migratePromisesToEvents(root: string): number {
+    const promisesPath = getPromisesPath(root);
+
+    return withFileLock(promisesPath, () => {
+        const records = readPromiseRecords(root);
+        const hasEvents = new Set(records.filter(isPromiseStatusEvent).map(e => e.promiseId));
+        const lines: string[] = [];
+        const events: PromiseStatusEvent[] = [];
+
+        for (const record of records) {
+            if (isPromiseStatusEvent(record) || record.status === 'active' || hasEvents.has(record.id)) {
+                lines.push(JSON.stringify(record));
+                continue;
+            }
+
+            const { status, resolvedBy, resolvedAt, supersededBy, ...rest } = record;
+            lines.push(JSON.stringify({ ...rest, status: 'active' }));
+            events.push({
+                id: uuidv4(),
+                timestamp: resolvedAt ?? record.timestamp,
+                event: 'status-change',
+                promiseId: record.id,
+                status,
+                previousStatus: 'active',
+                resolvedBy,
+                supersededBy,
+                reason: 'Migrated from in-place status',
+            });
+        }
+
+        if (events.length > 0) {
+            // Rewritten lines change their hashes, so the chain is rebuilt from the start
+            const content = chainLines([...lines, ...events.map(e => JSON.stringify(e))]).join('\n') + '\n';
+            writeFileAtomic(promisesPath, content);
+        }
+
+        return events.length;
+    });
 }
 
 // ============================================
@@ -270,17 +597,54 @@ export function validatePromises(root: string): { valid: boolean; errors: string
     const lines = content.trim().split('\n').filter(line => line.trim());
     const errors: string[] = [];
 
+    // Each promise as of the line being checked
+    const seen = new Map<string, PromiseEntry>();
+
     lines.forEach((line, index) => {
         try {
-            const promise = JSON.parse(line);
-            if (!isValidPromise(promise)) {
+            const record = JSON.parse(line);
+            if (isPromiseStatusEvent(record)) {
+                const promise = seen.get(record.promiseId);
+                if (!isValidPromiseEvent(record)) {
+                    errors.push(`Line ${index + 1}: ${getPromiseEventValidationErrors().join(', ')}`);
+                } else if (!promise) {
+                    errors.push(`Line ${index + 1}: Status change for unknown promise ${record.promiseId}`);
+                } else {
+                    if (promise.status !== 'active') {
+                        errors.push(`Line ${index + 1}: Promise ${promise.id.slice(0, 8)} was already ${promise.status} when it became ${record.status}`);
+                    } else if (record.status === 'withdrawn' && record.actor !== SWEEP_ACTOR && !mayWithdrawPromise(promise, record.actor)) {
+                        errors.push(`Line ${index + 1}: Promise ${promise.id.slice(0, 8)} was withdrawn by ${record.actor ?? 'an unknown agent'}, not its promiser or a human`);
+                    }
+                    seen.set(promise.id, applyPromiseEvent(promise, record));
+                }
+            } else if (!isValidPromise(record)) {
                 errors.push(`Line ${index + 1}: ${getPromiseValidationErrors().join(', ')}`);
+            } else {
+                seen.set(record.id, record);
             }
         } catch (e) {
             errors.push(`Line ${index + 1}: Invalid JSON - ${(e as Error).message}`);
         }
     });
 
+    // Dependencies only make sense between known promises, without cycles
+    if (errors.length === 0) {
+        const graph = buildPromiseGraph(readPromises(root));
+        for (const node of graph.nodes.values()) {
+            for (const id of node.missing) {
+                errors.push(`Promise ${node.promise.id.slice(0, 8)} depends on unknown promise ${id}`);
+            }
+        }
+        for (const cycle of findDependencyCycles(graph)) {
+            errors.push(`Dependency cycle: ${[...cycle, cycle[0]].map(id => id.slice(0, 8)).join(' -> ')}`);
+        }
+    }
+
+    const chain = verifyChain(promisesPath);
+    if (chain.error) {
+        errors.push(chain.error);
+    }
+
     return { valid: errors.length === 0, errors };
 }
 
@@ -290,17 +654,25 @@ export function validatePromises(root: string): { valid: boolean; errors: string
 
 /**
  * Get summary statistics for promises
+ * Session promises whose session ended count as withdrawn, swept or not.
+ * Pass promises and live (from readLivePromises) if already read.
  */
-export function getPromiseSummary(root: string): {
+export function getPromiseSummary(
+    root: string,
+    promises: PromiseEntry[] = readPromises(root),
+    live: PromiseEntry[] = readLivePromises(root, promises)
+): {
     total: number;
     active: number;
     fulfilled: number;
     broken: number;
     withdrawn: number;
     superseded: number;
+    overdue: number;
     byAgent: Record<string, number>;
 } {
-    const promises = readPromises(root);
+    const liveIds = new Set(live.map(p => p.id));
+    const expired = new Set(promises.filter(p => p.status === 'active' && !liveIds.has(p.id)).map(p => p.id));
     
     const byStatus = {
         active: 0,
@@ -311,15 +683,20 @@ export function getPromiseSummary(root: string): {
     };
 
     const byAgent: Record<string, number> = {};
+    let overdue = 0;
 
     for (const p of promises) {
-        byStatus[p.status]++;
+        byStatus[expired.has(p.id) ? 'withdrawn' : p.status]++;
         byAgent[p.promiser.agent] = (byAgent[p.promiser.agent] || 0) + 1;
+        if (!expired.has(p.id) && isOverduePromise(p)) {
+            overdue++;
+        }
     }
 
     return {
         total: promises.length,
         ...byStatus,
+        overdue,
         byAgent,
     };
 }
@@ -327,22 +704,27 @@ export function getPromiseSummary(root: string): {
 /**
  * Format promise summary for display
  */
-export function formatPromiseSummary(root: string): string {
-    const summary = getPromiseSummary(root);
-    const active = readActivePromises(root);
+export function formatPromiseSummary(
+    root: string,
+    promises: PromiseEntry[] = readPromises(root),
+    live: PromiseEntry[] = readLivePromises(root, promises)
+): string {
+    const summary = getPromiseSummary(root, promises, live);
+    const overdue = summary.overdue > 0 ? ` | **Overdue:** ${summary.overdue}` : '';
 
     const lines = [
         '## Promise Status',
         '',
-        `**Total:** ${summary.total} | **Active:** ${summary.active} | **Fulfilled:** ${summary.fulfilled} | **Broken:** ${summary.broken}`,
+        `**Total:** ${summary.total} | **Active:** ${summary.active} | **Fulfilled:** ${summary.fulfilled} | **Broken:** ${summary.broken}${overdue}`,
         '',
     ];
 
-    if (active.length > 0) {
+    if (live.length > 0) {
         lines.push('### Active Promises');
-        for (const p of active.slice(-10)) {
+        for (const p of live.slice(-10)) {
             const confidence = p.context?.relatedEntries?.length ? '📎' : '';
-            lines.push(`- [${p.promiser.agent}] ${p.promise.type}: "${p.promise.summary}" ${confidence}`);
+            const due = p.dueBy ? ` (${isOverduePromise(p) ? 'OVERDUE, was ' : ''}due ${p.dueBy.slice(0, 10)})` : '';
+            lines.push(`- [${p.promiser.agent}] ${p.promise.type}: "${p.promise.summary}"${due} ${confidence}`);
         }
         lines.push('');
     }
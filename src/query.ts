@@ -0,0 +1,296 @@
+/**
+ * Ledger queries: structured filters with boolean composition
+ *
+ * A query is either a filter (all of its fields must match) or an
+ * and/or/not combination of queries. Filters apply to the whole ledger
+ * before any limit, so "last 10 cursor entries" means exactly that.
+ */
+
+import type { LedgerEntry, ActionType, EntryType } from './types.js';
+import { fileMatcher, readLedger } from './ledger.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * All fields are optional and combined with AND.
+ * Array values match if any element matches.
+ */
+export interface LedgerFilter {
+    agent?: string | string[];
+    file?: string;                     // An artifact path, or a directory containing one
+    since?: string;                    // ISO date/time, or relative: 30m, 12h, 7d, 2w
+    until?: string;
+    type?: ActionType | ActionType[];
+    entryType?: EntryType | EntryType[];
+    tag?: string | string[];
+    session?: string;
+    minConfidence?: number;
+    maxConfidence?: number;
+    text?: string;                     // Case-insensitive search over summary, description, intent, considerations
+}
+
+export type LedgerQuery =
+    | LedgerFilter
+    | { and: LedgerQuery[] }
+    | { or: LedgerQuery[] }
+    | { not: LedgerQuery };
+
+export interface QueryOptions {
+    limit?: number;                    // Keep only the last N matches
+}
+
+// ============================================
+// DATES
+// ============================================
+
+const RELATIVE_UNITS: Record<string, number> = {
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000,
+};
+
+/**
+ * Parse an absolute or relative (e.g. "7d") date into epoch milliseconds.
+ * A date without a time is the start of that day, or its end if endOfDay is set.
+ */
+export function parseQueryDate(value: string, endOfDay: boolean = false, now: number = Date.now()): number {
+    const relative = /^(\d+)([mhdw])$/.exec(value.trim());
+    if (relative) {
+        return now - parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2]];
+    }
+
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+        throw new Error(`Invalid date: "${value}" (use ISO 8601 like 2026-01-16, or relative like 7d)`);
+    }
+
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+        return time + RELATIVE_UNITS.d - 1;
+    }
+    return time;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function oneOf<T>(value: T | undefined, expected: T | T[]): boolean {
+    if (value === undefined) return false;
+    return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+function matchesFilter(entry: LedgerEntry, filter: LedgerFilter, root?: string): boolean {
+    if (filter.agent !== undefined && !oneOf(entry.agent.name, filter.agent)) return false;
+    if (filter.type !== undefined && !oneOf(entry.action.type, filter.type)) return false;
+    if (filter.entryType !== undefined && !oneOf(entry.entryType, filter.entryType)) return false;
+    if (filter.session !== undefined && entry.session.id !== filter.session) return false;
+
+    if (filter.file !== undefined) {
+        const matches = fileMatcher(filter.file, root);
+        if (!entry.artifacts.some(a => matches(a.path))) return false;
+    }
+
+    if (filter.tag !== undefined) {
+        const tags = Array.isArray(filter.tag) ? filter.tag : [filter.tag];
+        if (!entry.tags?.some(t => tags.includes(t))) return false;
+    }
+
+    if (filter.since !== undefined || filter.until !== undefined) {
+        const time = Date.parse(entry.timestamp);
+        if (filter.since !== undefined && time < parseQueryDate(filter.since)) return false;
+        if (filter.until !== undefined && time > parseQueryDate(filter.until, true)) return false;
+    }
+
+    if (filter.minConfidence !== undefined || filter.maxConfidence !== undefined) {
+        const confidence = entry.reasoning.confidence;
+        if (confidence === undefined) return false;
+        if (filter.minConfidence !== undefined && confidence < filter.minConfidence) return false;
+        if (filter.maxConfidence !== undefined && confidence > filter.maxConfidence) return false;
+    }
+
+    if (filter.text !== undefined) {
+        const needle = filter.text.toLowerCase();
+        const haystack = [
+            entry.action.summary,
+            entry.action.description,
+            entry.reasoning.intent,
+            ...(entry.reasoning.considerations ?? []),
+        ];
+        if (!haystack.some(h => h?.toLowerCase().includes(needle))) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Whether an entry matches a query. Give the project root to match
+ * absolute file paths.
+ */
+export function matchesQuery(entry: LedgerEntry, query: LedgerQuery, root?: string): boolean {
+    if ('and' in query) return query.and.every(q => matchesQuery(entry, q, root));
+    if ('or' in query) return query.or.some(q => matchesQuery(entry, q, root));
+    if ('not' in query) return !matchesQuery(entry, query.not, root);
+    return matchesFilter(entry, query, root);
+}
+
+/**
+ * Filter the whole ledger, then keep the last `limit` matches
+ */
+export function queryLedger(root: string, query: LedgerQuery, options: QueryOptions = {}): LedgerEntry[] {
+    const matches = readLedger(root).filter(e => matchesQuery(e, query, root));
+    return options.limit !== undefined ? matches.slice(-options.limit) : matches;
+}
+
+// ============================================
+// EXPRESSION PARSER
+// ============================================
+
+const FIELD_ALIASES: Record<string, keyof LedgerFilter> = {
+    agent: 'agent',
+    file: 'file',
+    since: 'since',
+    until: 'until',
+    type: 'type',
+    'entry-type': 'entryType',
+    entrytype: 'entryType',
+    tag: 'tag',
+    session: 'session',
+    'min-confidence': 'minConfidence',
+    'max-confidence': 'maxConfidence',
+    text: 'text',
+};
+
+type Token = { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' } | { kind: 'term'; value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(') {
+            tokens.push({ kind: 'lparen' });
+            i++;
+        } else if (char === ')') {
+            tokens.push({ kind: 'rparen' });
+            i++;
+        } else {
+            // A term runs to whitespace or a paren, with "quoted" sections kept whole
+            let value = '';
+            while (i < expression.length && !/[\s()]/.test(expression[i])) {
+                if (expression[i] === '"') {
+                    const close = expression.indexOf('"', i + 1);
+                    if (close === -1) throw new Error('Unterminated quote in query');
+                    value += expression.slice(i + 1, close);
+                    i = close + 1;
+                } else {
+                    value += expression[i++];
+                }
+            }
+
+            const keyword = value.toUpperCase();
+            if (keyword === 'AND' || keyword === 'OR' || keyword === 'NOT') {
+                tokens.push({ kind: keyword.toLowerCase() as 'and' | 'or' | 'not' });
+            } else {
+                tokens.push({ kind: 'term', value });
+            }
+        }
+    }
+
+    return tokens;
+}
+
+function parseTerm(term: string): LedgerFilter {
+    const colon = term.indexOf(':');
+    const field = colon === -1 ? undefined : FIELD_ALIASES[term.slice(0, colon).toLowerCase()];
+
+    // Bare words (or unknown prefixes, e.g. "http://...") are full-text search
+    if (!field) {
+        return { text: term };
+    }
+
+    const value = term.slice(colon + 1);
+    if (field === 'minConfidence' || field === 'maxConfidence') {
+        const n = parseFloat(value);
+        if (isNaN(n) || n < 0 || n > 1) {
+            throw new Error(`Invalid confidence in query: "${term}" (expected 0.0-1.0)`);
+        }
+        return { [field]: n };
+    }
+
+    if (field === 'since' || field === 'until') {
+        parseQueryDate(value);
+    }
+
+    return { [field]: value } as LedgerFilter;
+}
+
+/**
+ * Parse a query expression such as
+ *   agent:cursor AND (type:modify OR tag:auth) AND NOT file:test
+ *
+ * Terms are field:value (agent, file, since, until, type, entry-type, tag,
+ * session, min-confidence, max-confidence, text) or bare words for full-text
+ * search. Adjacent terms are ANDed; NOT binds tighter than AND, AND tighter than OR.
+ */
+export function parseLedgerQuery(expression: string): LedgerQuery {
+    const tokens = tokenize(expression);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+
+    function parseOr(): LedgerQuery {
+        const parts = [parseAnd()];
+        while (peek()?.kind === 'or') {
+            pos++;
+            parts.push(parseAnd());
+        }
+        return parts.length === 1 ? parts[0] : { or: parts };
+    }
+
+    function parseAnd(): LedgerQuery {
+        const parts = [parseUnary()];
+        while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+            if (peek().kind === 'and') pos++;
+            parts.push(parseUnary());
+        }
+        return parts.length === 1 ? parts[0] : { and: parts };
+    }
+
+    function parseUnary(): LedgerQuery {
+        const token = tokens[pos++];
+        if (!token) {
+            throw new Error('Unexpected end of query');
+        }
+        if (token.kind === 'not') {
+            return { not: parseUnary() };
+        }
+        if (token.kind === 'lparen') {
+            const inner = parseOr();
+            if (tokens[pos++]?.kind !== 'rparen') {
+                throw new Error('Missing closing parenthesis in query');
+            }
+            return inner;
+        }
+        if (token.kind === 'term') {
+            return parseTerm(token.value);
+        }
+        throw new Error(`Unexpected "${token.kind.toUpperCase()}" in query`);
+    }
+
+    if (tokens.length === 0) {
+        return {};
+    }
+
+    const query = parseOr();
+    if (pos < tokens.length) {
+        throw new Error('Unexpected ")" in query');
+    }
+    return query;
+}
@@ -3,16 +3,22 @@
  * 
  * Work reports track progress on promises.
  * Key insight: Actors report facts, not judgments.
- * Only humans/witnesses can write verdicts.
+ * Only humans/witnesses can write verdicts (enforced in verdicts.ts).
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import { createRequire } from 'node:module';
 import { v4 as uuidv4 } from 'uuid';
-import type { WorkReport, ReporterRole, VerdictStatus } from './types.js';
+import type { KeyObject } from 'node:crypto';
+import { appendChained, verifyChain } from './integrity.js';
+import type { LedgerConfig, WorkReport, ReporterRole, VerdictStatus } from './types.js';
 import { LEDGERSYNC_DIR } from './ledger.js';
-import { resolvePromise, getPromiseById } from './promises.js';
+import { loadConfig } from './config.js';
+import { applyPromiseEvent, resolvePromise, getPromiseById, readPromiseTimeline } from './promises.js';
+import { checkReportSignature, signRecord } from './signing.js';
+import { checkVerdictAuthorization, tallyVerdicts } from './verdicts.js';
+import type { VerdictTally } from './verdicts.js';
 
 // Load JSON schema using createRequire for ESM compatibility
 const require = createRequire(import.meta.url);
@@ -53,6 +59,18 @@ export function getReportsPath(root: string): string {
     return path.join(root, LEDGERSYNC_DIR, REPORTS_FILE);
 }
 
+/**
+ * Config for signature and verdict policy checks; null if it can't be
+ * loaded (no key is trusted and only the built-in verdict rules apply then)
+ */
+function readReportsConfig(root: string): LedgerConfig | null {
+    try {
+        return loadConfig(root);
+    } catch {
+        return null;
+    }
+}
+
 // ============================================
 // READ OPERATIONS
 // ============================================
@@ -138,15 +156,33 @@ export function appendReport(root: string, report: WorkReport): void {
         throw new Error(`Invalid report: ${getReportValidationErrors().join(', ')}`);
     }
 
+    // Verdicts can't be trusted by name alone
+    const config = readReportsConfig(root);
+    const signatureProblem = checkReportSignature(report, config);
+    if (signatureProblem) {
+        throw new Error(`Rejected report: ${signatureProblem}`);
+    }
+
+    // ...nor given by just anyone
+    if (report.verdict) {
+        const promise = getPromiseById(root, report.promiseId);
+        if (!promise) {
+            throw new Error(`Rejected report: verdict on unknown promise ${report.promiseId}`);
+        }
+        const authorizationProblem = checkVerdictAuthorization(report, promise, config);
+        if (authorizationProblem) {
+            throw new Error(`Rejected report: ${authorizationProblem}`);
+        }
+    }
+
     // Ensure directory exists
     const dir = path.dirname(reportsPath);
     if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Append with newline
-    const line = JSON.stringify(report) + '\n';
-    fs.appendFileSync(reportsPath, line, 'utf-8');
+    // Append linked to the previous line, under the shared lock
+    appendChained(reportsPath, report);
 }
 
 /**
@@ -182,7 +218,7 @@ export function createWorkReport(
 export function createVerdictReport(
     reporter: { agent: string; role: 'witness' | 'human'; session?: string },
     promiseId: string,
-    verdict: { status: VerdictStatus; reasoning: string },
+    verdict: { status: VerdictStatus; reasoning: string; proposed?: boolean },
     workCompleted: string = 'Reviewed promise fulfillment',
     relatedEntries?: string[],
     tags?: string[]
@@ -205,15 +241,18 @@ export function createVerdictReport(
 
 /**
  * Add a verdict to an existing promise and update its status
- * This creates a report AND updates the promise status
+ * This creates a report AND, once the promise's verdict policy reaches
+ * quorum, updates the promise status.
+ * With a signing key, the report is signed by the reporter.
  */
 export function addVerdict(
     root: string,
     promiseId: string,
     verdictStatus: VerdictStatus,
     reasoning: string,
-    reporterAgent: string = 'human'
-): { report: WorkReport; promise: ReturnType<typeof getPromiseById> } | null {
+    reporterAgent: string = 'human',
+    options: { role?: 'human' | 'witness'; signingKey?: KeyObject } = {}
+): { report: WorkReport; promise: ReturnType<typeof getPromiseById>; tally: VerdictTally } | null {
     // Verify promise exists
     const promise = getPromiseById(root, promiseId);
     if (!promise) {
@@ -221,26 +260,28 @@ export function addVerdict(
     }
 
     // Create verdict report
-    const report = createVerdictReport(
-        { agent: reporterAgent, role: 'human' },
+    const verdictReport = createVerdictReport(
+        { agent: reporterAgent, role: options.role ?? 'human' },
         promiseId,
         { status: verdictStatus, reasoning }
     );
+    const report = options.signingKey ? signRecord(verdictReport, options.signingKey) : verdictReport;
 
     // Append report
     appendReport(root, report);
 
-    // Map verdict status to promise status
-    const promiseStatus = verdictStatus === 'fulfilled' ? 'fulfilled' :
-                          verdictStatus === 'broken' ? 'broken' : 'active';
+    // Map the agreed verdict, if any, to promise status
+    const tally = tallyVerdicts(promise, getReportsForPromise(root, promiseId), readReportsConfig(root));
+    const promiseStatus = tally.outcome === 'fulfilled' ? 'fulfilled' :
+                          tally.outcome === 'broken' ? 'broken' : 'active';
 
-    // Update promise if verdict is final
+    // Update promise if verdict is final; a promise already resolved keeps its status
     let updatedPromise = promise;
-    if (promiseStatus !== 'active') {
-        updatedPromise = resolvePromise(root, promiseId, promiseStatus, report.id) ?? promise;
+    if (promiseStatus !== 'active' && promise.status === 'active') {
+        updatedPromise = resolvePromise(root, promiseId, promiseStatus, report.id, reporterAgent) ?? promise;
     }
 
-    return { report, promise: updatedPromise };
+    return { report, promise: updatedPromise, tally };
 }
 
 // ============================================
@@ -253,25 +294,82 @@ export function addVerdict(
 export function validateReports(root: string): { valid: boolean; errors: string[] } {
     const reportsPath = getReportsPath(root);
 
-    if (!fs.existsSync(reportsPath)) {
-        return { valid: true, errors: [] };
-    }
-
-    const content = fs.readFileSync(reportsPath, 'utf-8');
+    // Without reports, there are still promises to check for verdicts
+    const content = fs.existsSync(reportsPath) ? fs.readFileSync(reportsPath, 'utf-8') : '';
     const lines = content.trim().split('\n').filter(line => line.trim());
     const errors: string[] = [];
+    const config = readReportsConfig(root);
+    const timeline = readPromiseTimeline(root);
+    const promises = new Map(timeline.promises.map(p => [p.id, p]));
+    for (const event of timeline.events) {
+        const promise = promises.get(event.promiseId);
+        if (promise) {
+            promises.set(promise.id, applyPromiseEvent(promise, event));
+        }
+    }
+    const reports: WorkReport[] = [];
 
     lines.forEach((line, index) => {
         try {
             const report = JSON.parse(line);
             if (!isValidReport(report)) {
                 errors.push(`Line ${index + 1}: ${getReportValidationErrors().join(', ')}`);
+            } else {
+                reports.push(report);
+                const signatureProblem = checkReportSignature(report, config);
+                if (signatureProblem) {
+                    errors.push(`Line ${index + 1}: ${signatureProblem}`);
+                }
+                const promise = promises.get(report.promiseId);
+                const authorizationProblem = report.verdict && promise
+                    ? checkVerdictAuthorization(report, promise, config)
+                    : null;
+                if (authorizationProblem) {
+                    errors.push(`Line ${index + 1}: ${authorizationProblem}`);
+                }
             }
         } catch (e) {
             errors.push(`Line ${index + 1}: Invalid JSON - ${(e as Error).message}`);
         }
     });
 
+    // Fulfilled and broken promises must have been resolved by a verdict that reached its policy's quorum
+    for (const promise of promises.values()) {
+        if (promise.status !== 'fulfilled' && promise.status !== 'broken') {
+            continue;
+        }
+        const resolvedAt = reports.findIndex(r => r.id === promise.resolvedBy && r.verdict);
+        if (resolvedAt === -1) {
+            errors.push(`Promise ${promise.id.slice(0, 8)} was marked ${promise.status} without a verdict`);
+            continue;
+        }
+        if (checkVerdictAuthorization(reports[resolvedAt], promise, config)) {
+            continue; // Already reported above
+        }
+        const tally = tallyVerdicts(promise, reports.slice(0, resolvedAt + 1), config);
+        if (tally.outcome !== promise.status) {
+            errors.push(`Promise ${promise.id.slice(0, 8)} was resolved as ${promise.status} without a quorum under verdict policy ${tally.policy.id}`);
+        }
+    }
+
+    // A verdict tally that already resolved a promise can't be undone by withdrawing or superseding it
+    for (const event of timeline.events) {
+        const promise = promises.get(event.promiseId);
+        if (!promise || (event.status !== 'withdrawn' && event.status !== 'superseded')) {
+            continue;
+        }
+        const before = reports.filter(r => Date.parse(r.timestamp) <= Date.parse(event.timestamp));
+        const tally = tallyVerdicts(promise, before, config);
+        if (tally.outcome === 'fulfilled' || tally.outcome === 'broken') {
+            errors.push(`Promise ${promise.id.slice(0, 8)} was ${event.status} after verdicts had resolved it as ${tally.outcome}`);
+        }
+    }
+
+    const chain = verifyChain(reportsPath);
+    if (chain.error) {
+        errors.push(chain.error);
+    }
+
     return { valid: errors.length === 0, errors };
 }
 
@@ -297,7 +395,7 @@ export function getReportSummary(root: string): {
     for (const r of reports) {
         byAgent[r.reporter.agent] = (byAgent[r.reporter.agent] || 0) + 1;
         
-        if (r.verdict) {
+        if (r.verdict && !r.verdict.proposed) {
             withVerdicts++;
             verdictCounts[r.verdict.status]++;
         }
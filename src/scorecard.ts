@@ -0,0 +1,333 @@
+/**
+ * Scorecards: how reliably each agent (or model) keeps its promises
+ *
+ * A promise is judged once its authorized verdicts reach quorum under
+ * its verdict policy (see tallyVerdicts): fulfilled, broken or partial.
+ * A status set without such a tally, such as a promiser marking its own
+ * promise fulfilled, doesn't count; those promises are unverified. A
+ * promise withdrawn or superseded after its quorum keeps its outcome. Rates
+ * are over judged promises; unverified, withdrawn, superseded and
+ * still-open promises only show up in the counts.
+ *
+ * Calibration compares what the promiser said (the
+ * confidenceInCompletion of its last actor report before the promise was
+ * judged) with the outcome: 1 for fulfilled, 0.5 for partial, 0 for
+ * broken. The calibration error is the mean distance between the two.
+ *
+ * The model behind a promise comes from the promiser's entries in the
+ * session it was made in (AgentInfo.model).
+ */
+
+import type { LedgerConfig, LedgerEntry, PromiseEntry, VerdictStatus, WorkReport } from './types.js';
+import { readLedger } from './ledger.js';
+import { loadConfig } from './config.js';
+import { readPromises, getPromiseSession } from './promises.js';
+import { readReports } from './reports.js';
+import { tallyVerdicts } from './verdicts.js';
+import { parseQueryDate } from './query.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScorecardGrouping = 'agent' | 'model';
+
+export type ScorecardPeriod = 'week' | 'month';
+
+export interface ScorecardOptions {
+    by?: ScorecardGrouping;            // Default: agent
+    period?: ScorecardPeriod;          // Trend buckets (default: month)
+    since?: string;                    // Only promises made since (ISO, or relative like 30d)
+    agent?: string | string[];         // Only these promisers
+}
+
+export interface ScorecardStats {
+    promises: number;
+    active: number;
+    withdrawn: number;                 // Withdrawn or superseded before being judged
+    unverified: number;                // Fulfilled or broken without an authorized verdict tally
+    judged: number;
+    fulfilled: number;
+    partial: number;
+    broken: number;
+    fulfillmentRate: number | null;    // fulfilled / judged
+    brokenRate: number | null;         // broken / judged
+    meanConfidence: number | null;     // Self-reported, over calibrated promises
+    meanOutcome: number | null;
+    calibrationError: number | null;   // Mean |confidence - outcome|
+    calibrated: number;                // Judged promises with a self-report
+    medianTimeToFulfillMs: number | null;
+}
+
+export interface ScorecardTrendPoint extends ScorecardStats {
+    period: string;                    // 2026-10 by month; 2026-10-12 (its Monday) by week
+}
+
+export interface ScorecardRow extends ScorecardStats {
+    key: string;                       // Agent name, or model ('unknown' if no entry names one)
+    agents: string[];
+    models: string[];
+    trend: ScorecardTrendPoint[];      // Judged promises, by when they were judged
+}
+
+export interface Scorecard {
+    by: ScorecardGrouping;
+    period: ScorecardPeriod;
+    generatedAt: string;
+    overall: ScorecardStats;
+    rows: ScorecardRow[];
+}
+
+/** A promise with what is known about its outcome */
+export interface PromiseOutcome {
+    promise: PromiseEntry;
+    model?: string;
+    outcome: VerdictStatus | null;     // null until judged
+    judgedAt?: string;
+    confidence?: number;               // Promiser's last self-report before judgment
+}
+
+export const UNKNOWN_MODEL = 'unknown';
+
+const OUTCOME_VALUES: Record<VerdictStatus, number> = { fulfilled: 1, partial: 0.5, broken: 0 };
+
+// ============================================
+// OUTCOMES
+// ============================================
+
+/**
+ * The model the promiser was running when it made a promise
+ */
+export function getPromiseModel(promise: PromiseEntry, entries: LedgerEntry[]): string | undefined {
+    const session = getPromiseSession(promise, entries);
+    const own = entries.filter(e => e.agent.name === promise.promiser.agent && e.agent.model);
+    const inSession = own.filter(e => e.session.id === session);
+
+    // Otherwise the model of the promiser's last entry before the promise
+    const madeAt = Date.parse(promise.timestamp);
+    const before = own.filter(e => Date.parse(e.timestamp) <= madeAt);
+    return (inSession[0] ?? before[before.length - 1])?.agent.model;
+}
+
+/**
+ * Work out how a promise turned out and what its promiser expected
+ */
+export function getPromiseOutcome(
+    promise: PromiseEntry,
+    reports: WorkReport[],
+    entries: LedgerEntry[],
+    config: LedgerConfig | null
+): PromiseOutcome {
+    const own = reports.filter(r => r.promiseId === promise.id);
+    let outcome: VerdictStatus | null = null;
+    let judgedAt: string | undefined;
+
+    // Only verdicts that count decide the outcome, whatever the status says.
+    // Withdrawing or superseding a promise doesn't undo a quorum reached
+    // before it, but verdicts given afterwards don't count.
+    const withdrawnAt = (promise.status === 'withdrawn' || promise.status === 'superseded') && promise.resolvedAt
+        ? Date.parse(promise.resolvedAt)
+        : Infinity;
+    const tally = tallyVerdicts(promise, own.filter(r => Date.parse(r.timestamp) <= withdrawnAt), config);
+    if (tally.outcome !== null) {
+        outcome = tally.outcome;
+        judgedAt = promise.status === tally.outcome && promise.resolvedAt
+            ? promise.resolvedAt
+            : tally.verdicts
+                .filter(r => r.verdict!.status === tally.outcome)
+                .map(r => r.timestamp)
+                .sort()
+                .pop();
+    }
+
+    const cutoff = judgedAt ? Date.parse(judgedAt) : Infinity;
+    const selfReports = own.filter(r =>
+        r.reporter.role === 'actor' &&
+        r.reporter.agent === promise.promiser.agent &&
+        Date.parse(r.timestamp) <= cutoff
+    );
+
+    return {
+        promise,
+        model: getPromiseModel(promise, entries),
+        outcome,
+        judgedAt,
+        confidence: selfReports[selfReports.length - 1]?.report.confidenceInCompletion,
+    };
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+function mean(values: number[]): number | null {
+    return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function computeScorecardStats(outcomes: PromiseOutcome[]): ScorecardStats {
+    const judged = outcomes.filter(o => o.outcome !== null);
+    const count = (status: VerdictStatus) => judged.filter(o => o.outcome === status).length;
+    const fulfilled = count('fulfilled');
+    const broken = count('broken');
+
+    const calibrated = judged.filter(o => o.confidence !== undefined);
+    const confidences = calibrated.map(o => o.confidence!);
+    const results = calibrated.map(o => OUTCOME_VALUES[o.outcome!]);
+
+    const timesToFulfill = judged
+        .filter(o => o.outcome === 'fulfilled' && o.judgedAt)
+        .map(o => Date.parse(o.judgedAt!) - Date.parse(o.promise.timestamp));
+
+    return {
+        promises: outcomes.length,
+        active: outcomes.filter(o => o.outcome === null && o.promise.status === 'active').length,
+        withdrawn: outcomes.filter(o => o.outcome === null && (o.promise.status === 'withdrawn' || o.promise.status === 'superseded')).length,
+        unverified: outcomes.filter(o => o.outcome === null && (o.promise.status === 'fulfilled' || o.promise.status === 'broken')).length,
+        judged: judged.length,
+        fulfilled,
+        partial: count('partial'),
+        broken,
+        fulfillmentRate: judged.length > 0 ? fulfilled / judged.length : null,
+        brokenRate: judged.length > 0 ? broken / judged.length : null,
+        meanConfidence: mean(confidences),
+        meanOutcome: mean(results),
+        calibrationError: mean(confidences.map((c, i) => Math.abs(c - results[i]))),
+        calibrated: calibrated.length,
+        medianTimeToFulfillMs: median(timesToFulfill),
+    };
+}
+
+/**
+ * The period a time falls in: 2026-10, or the Monday starting its week
+ */
+export function getScorecardPeriod(timestamp: string, period: ScorecardPeriod): string {
+    const date = new Date(timestamp);
+    if (period === 'month') {
+        return date.toISOString().slice(0, 7);
+    }
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+}
+
+function computeTrend(outcomes: PromiseOutcome[], period: ScorecardPeriod): ScorecardTrendPoint[] {
+    const buckets = new Map<string, PromiseOutcome[]>();
+    for (const o of outcomes) {
+        if (o.outcome === null || !o.judgedAt) {
+            continue;
+        }
+        const key = getScorecardPeriod(o.judgedAt, period);
+        buckets.set(key, [...(buckets.get(key) ?? []), o]);
+    }
+
+    return [...buckets.keys()].sort().map(key => ({ period: key, ...computeScorecardStats(buckets.get(key)!) }));
+}
+
+// ============================================
+// SCORECARD
+// ============================================
+
+export function buildScorecard(root: string, options: ScorecardOptions = {}): Scorecard {
+    const by = options.by ?? 'agent';
+    const period = options.period ?? 'month';
+    const since = options.since !== undefined ? parseQueryDate(options.since) : undefined;
+    const agents = options.agent === undefined ? undefined : ([] as string[]).concat(options.agent);
+
+    let config: LedgerConfig | null;
+    try {
+        config = loadConfig(root);
+    } catch {
+        config = null;
+    }
+
+    const entries = readLedger(root);
+    const reports = readReports(root);
+    const promises = readPromises(root).filter(p =>
+        (since === undefined || Date.parse(p.timestamp) >= since) &&
+        (agents === undefined || agents.includes(p.promiser.agent))
+    );
+
+    const outcomes = promises.map(p => getPromiseOutcome(p, reports, entries, config));
+
+    const groups = new Map<string, PromiseOutcome[]>();
+    for (const o of outcomes) {
+        const key = by === 'agent' ? o.promise.promiser.agent : o.model ?? UNKNOWN_MODEL;
+        groups.set(key, [...(groups.get(key) ?? []), o]);
+    }
+
+    const rows = [...groups.entries()].map(([key, group]) => ({
+        key,
+        agents: [...new Set(group.map(o => o.promise.promiser.agent))].sort(),
+        models: [...new Set(group.map(o => o.model ?? UNKNOWN_MODEL))].sort(),
+        ...computeScorecardStats(group),
+        trend: computeTrend(group, period),
+    }));
+
+    // Most judged first; they say the most
+    rows.sort((a, b) => b.judged - a.judged || b.promises - a.promises || a.key.localeCompare(b.key));
+
+    return {
+        by,
+        period,
+        generatedAt: new Date().toISOString(),
+        overall: computeScorecardStats(outcomes),
+        rows,
+    };
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatPercent(rate: number | null): string {
+    return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export function formatDuration(ms: number | null): string {
+    if (ms === null) {
+        return '—';
+    }
+    const hours = ms / 3_600_000;
+    if (hours < 1) {
+        return `${Math.max(1, Math.round(ms / 60_000))}m`;
+    }
+    return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * Markdown scorecard, one table row per agent or model, then trends
+ */
+export function formatScorecard(scorecard: Scorecard): string {
+    const label = scorecard.by === 'agent' ? 'Agent' : 'Model';
+    const lines = [
+        '## Scorecard',
+        '',
+        `| ${label} | Promises | Judged | Fulfilled | Broken | Confidence | Outcome | Calibration error | Median to fulfill |`,
+        '|---|---|---|---|---|---|---|---|---|',
+    ];
+
+    for (const row of scorecard.rows) {
+        lines.push(`| ${row.key} | ${row.promises} | ${row.judged} | ${formatPercent(row.fulfillmentRate)} | ${formatPercent(row.brokenRate)} | ` +
+            `${formatPercent(row.meanConfidence)} | ${formatPercent(row.meanOutcome)} | ${formatPercent(row.calibrationError)} | ${formatDuration(row.medianTimeToFulfillMs)} |`);
+    }
+
+    const trends = scorecard.rows.filter(r => r.trend.length > 1);
+    if (trends.length > 0) {
+        lines.push('', `### Fulfillment by ${scorecard.period}`, '');
+        for (const row of trends) {
+            const points = row.trend.map(t => `${t.period} ${formatPercent(t.fulfillmentRate)} (${t.judged})`);
+            lines.push(`- **${row.key}**: ${points.join(' → ')}`);
+        }
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,252 @@
+/**
+ * Signing: Ed25519 signatures on entries and reports
+ *
+ * Agent names are free text, so anyone can log as "human". A signature
+ * ties a record to a key: private keys live outside the repo (in
+ * ~/.ledgersync/keys by default), and config.yaml lists which public
+ * keys each agent name may sign with. Verdicts from humans and witnesses
+ * are the records that matter most; see checkReportSignature.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import type { LedgerConfig, LedgerEntry, RecordSignature, WorkReport } from './types.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SIGNATURE_ALGORITHM = 'ed25519';
+
+/** Overrides the default key directory */
+export const KEYS_DIR_ENV = 'LEDGERSYNC_KEYS_DIR';
+
+// Fields left out of the signed payload: the signature itself, and the chain hash added on append
+const UNSIGNED_FIELDS = new Set(['signature', 'prevHash']);
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SignatureStatus =
+    | 'valid'
+    | 'unsigned'
+    | 'untrusted'                  // Signed with a key not listed for this agent
+    | 'invalid';                   // Doesn't verify: the record changed after signing, or the signature is forged
+
+export interface SignatureCheck {
+    status: SignatureStatus;
+    agent: string;
+    keyId?: string;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+export function getKeysDir(): string {
+    return process.env[KEYS_DIR_ENV] || path.join(os.homedir(), '.ledgersync', 'keys');
+}
+
+function keyFileName(agent: string): string {
+    return agent.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+export function getPrivateKeyPath(agent: string, keysDir: string = getKeysDir()): string {
+    return path.join(keysDir, `${keyFileName(agent)}.key`);
+}
+
+/**
+ * Public key as base64 SPKI DER, the form listed in config.yaml
+ */
+export function encodePublicKey(key: KeyObject): string {
+    return key.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+export function decodePublicKey(encoded: string): KeyObject {
+    return crypto.createPublicKey({ key: Buffer.from(encoded, 'base64'), format: 'der', type: 'spki' });
+}
+
+/**
+ * Short, stable ID for a public key (first 16 hex chars of its SHA-256)
+ */
+export function getKeyId(encodedPublicKey: string): string {
+    return crypto.createHash('sha256').update(Buffer.from(encodedPublicKey, 'base64')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Create a key pair for an agent. The private key is written to the key
+ * directory (mode 600); returns its path and the public key to trust.
+ * Throws if the agent already has a key.
+ */
+export function generateSigningKey(agent: string, keysDir: string = getKeysDir()): { privateKeyPath: string; publicKey: string } {
+    const privateKeyPath = getPrivateKeyPath(agent, keysDir);
+    if (fs.existsSync(privateKeyPath)) {
+        throw new Error(`A key for ${agent} already exists: ${privateKeyPath}`);
+    }
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    fs.mkdirSync(keysDir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+    return { privateKeyPath, publicKey: encodePublicKey(publicKey) };
+}
+
+/**
+ * Load a private key from a PEM file, or the agent's key from the key directory
+ */
+export function loadSigningKey(agentOrPath: string, keysDir: string = getKeysDir()): KeyObject {
+    const keyPath = fs.existsSync(agentOrPath) && fs.statSync(agentOrPath).isFile()
+        ? agentOrPath
+        : getPrivateKeyPath(agentOrPath, keysDir);
+
+    if (!fs.existsSync(keyPath)) {
+        throw new Error(`No signing key for ${agentOrPath} (looked in ${keyPath}). Run \`ledgersync keys generate ${agentOrPath}\``);
+    }
+
+    const key = crypto.createPrivateKey(fs.readFileSync(keyPath));
+    if (key.asymmetricKeyType !== SIGNATURE_ALGORITHM) {
+        throw new Error(`${keyPath} is not an Ed25519 key`);
+    }
+    return key;
+}
+
+/**
+ * Public keys config.yaml trusts for an agent name
+ */
+export function getTrustedKeys(config: LedgerConfig | null, agent: string): string[] {
+    const keys = config?.signing?.keys[agent];
+    return keys === undefined ? [] : Array.isArray(keys) ? keys : [keys];
+}
+
+// ============================================
+// SIGNING
+// ============================================
+
+/**
+ * JSON with object keys sorted at every level, so a record signs the same
+ * however its fields were ordered
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(v => v === undefined ? 'null' : canonicalJson(v)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const pairs = Object.keys(value)
+            .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+            .sort()
+            .map(k => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+        return `{${pairs.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function signedPayload(record: object): Buffer {
+    const fields = Object.entries(record).filter(([k]) => !UNSIGNED_FIELDS.has(k));
+    return Buffer.from(canonicalJson(Object.fromEntries(fields)), 'utf-8');
+}
+
+/**
+ * Return the record with a signature over its current content.
+ * Sign last: any later change invalidates it.
+ */
+export function signRecord<T extends { signature?: RecordSignature }>(record: T, privateKey: KeyObject): T {
+    const publicKey = encodePublicKey(crypto.createPublicKey(privateKey));
+    return {
+        ...record,
+        signature: {
+            algorithm: SIGNATURE_ALGORITHM,
+            keyId: getKeyId(publicKey),
+            value: crypto.sign(null, signedPayload(record), privateKey).toString('base64'),
+        },
+    };
+}
+
+/**
+ * Check a record's signature against the keys config.yaml trusts for the
+ * agent that supposedly wrote it
+ */
+export function verifyRecordSignature(
+    record: { signature?: RecordSignature },
+    agent: string,
+    config: LedgerConfig | null
+): SignatureCheck {
+    const signature = record.signature;
+    if (!signature) {
+        return { status: 'unsigned', agent };
+    }
+
+    const publicKey = getTrustedKeys(config, agent).find(k => getKeyId(k) === signature.keyId);
+    if (!publicKey) {
+        return { status: 'untrusted', agent, keyId: signature.keyId };
+    }
+
+    try {
+        const valid = crypto.verify(null, signedPayload(record), decodePublicKey(publicKey), Buffer.from(signature.value, 'base64'));
+        return { status: valid ? 'valid' : 'invalid', agent, keyId: signature.keyId };
+    } catch {
+        return { status: 'invalid', agent, keyId: signature.keyId };
+    }
+}
+
+/**
+ * Why a signed entry can't be trusted, or null. Unsigned entries are fine.
+ */
+export function checkEntrySignature(entry: LedgerEntry, config: LedgerConfig | null): string | null {
+    if (!entry.signature) {
+        return null;
+    }
+
+    const check = verifyRecordSignature(entry, entry.agent.name, config);
+    if (check.status === 'untrusted') {
+        return `Entry by ${entry.agent.name} is signed with key ${check.keyId}, which config.yaml doesn't trust for ${entry.agent.name}`;
+    }
+    if (check.status === 'invalid') {
+        return `Entry by ${entry.agent.name} has a signature that doesn't verify (edited after signing, or forged)`;
+    }
+    return null;
+}
+
+// ============================================
+// VERDICTS
+// ============================================
+
+/**
+ * Whether a report carries a verdict that counts (proposals don't)
+ */
+export function isVerdictByHumanOrWitness(report: WorkReport): boolean {
+    return report.verdict !== undefined && !report.verdict.proposed &&
+        (report.reporter.role === 'human' || report.reporter.role === 'witness');
+}
+
+/**
+ * Why a report can't be trusted, or null if it can. Mis-signed reports
+ * always fail; unsigned human/witness verdicts fail only under
+ * signing.requireVerdictSignatures.
+ */
+export function checkReportSignature(report: WorkReport, config: LedgerConfig | null): string | null {
+    if (!isVerdictByHumanOrWitness(report)) {
+        if (!report.signature) {
+            return null;
+        }
+        const check = verifyRecordSignature(report, report.reporter.agent, config);
+        return check.status === 'valid' ? null : `Report by ${report.reporter.agent} has a ${check.status} signature`;
+    }
+
+    const check = verifyRecordSignature(report, report.reporter.agent, config);
+    const who = `${report.reporter.role} verdict by ${report.reporter.agent}`;
+
+    switch (check.status) {
+        case 'valid':
+            return null;
+        case 'unsigned':
+            return config?.signing?.requireVerdictSignatures ? `Unsigned ${who} (signing.requireVerdictSignatures is on)` : null;
+        case 'untrusted':
+            return `${who} is signed with key ${check.keyId}, which config.yaml doesn't trust for ${report.reporter.agent}`;
+        case 'invalid':
+            return `${who} has a signature that doesn't verify (edited after signing, or forged)`;
+    }
+}
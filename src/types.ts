@@ -47,6 +47,11 @@ export interface LedgerEntry {
     implementation?: ImplementationInfo; // For 'implementation' entries
     bugfix?: BugfixInfo;               // For 'bugfix' entries
     review?: ReviewInfo;               // For 'review' entries
+    rollup?: RollupInfo;               // For 'rollup' entries
+
+    // === INTEGRITY ===
+    prevHash?: string;             // SHA-256 of the previous line (set on append)
+    signature?: RecordSignature;   // Optional Ed25519 signature by the agent
 }
 
 export type EntryType =
@@ -54,7 +59,8 @@ export type EntryType =
     | 'transition'     // Incoming agent acquiring context
     | 'implementation' // Feature work
     | 'bugfix'         // Fixing specific issue
-    | 'review';        // Code audit without changes
+    | 'review'         // Code audit without changes
+    | 'rollup';        // Compacted summary of older entries (written by ledgersync)
 
 export interface AgentInfo {
     name: 'claude-code' | 'cursor' | 'antigravity' | 'human' | string;
@@ -66,6 +72,7 @@ export interface SessionInfo {
     id: string;
     entryIndex: number;
     parentEntryId?: string;
+    generated?: boolean;        // The agent gave no session ID, so ledgersync made one up
 }
 
 export interface ActionInfo {
@@ -104,8 +111,54 @@ export interface ArtifactChange {
     summary?: string;
 }
 
+/**
+ * CommitLink - Stored in commits.jsonl by the post-commit hook.
+ * Links a commit to the entries logged since the previous commit,
+ * leaving ledger.jsonl itself append-only.
+ */
+export interface CommitLink {
+    sha: string;
+    timestamp: string;          // Commit time, ISO 8601
+    recordedAt: string;
+    subject: string;
+    entryIds: string[];
+    artifacts: ArtifactChange[];  // From git diff --numstat against the first parent
+}
+
+/**
+ * RecordSignature - Ed25519 signature over a record's canonical JSON
+ * (keys sorted, without signature and prevHash). The signer's public key
+ * must be listed for its agent name under signing.keys in config.yaml.
+ */
+export interface RecordSignature {
+    algorithm: 'ed25519';
+    keyId: string;                 // Fingerprint of the public key
+    value: string;                 // Base64 signature
+}
+
+/**
+ * Seal - A checkpoint in seals.jsonl (`ledgersync seal`): how many lines
+ * each chained file had and a hash of those lines. Commit it to git to
+ * make later rewrites of sealed history detectable.
+ */
+export interface Seal {
+    id: string;
+    timestamp: string;
+    sealedBy: string;
+    files: Record<string, SealedFile>;  // Keyed by file name, e.g. "ledger.jsonl"
+    hash: string;                  // Checkpoint hash over the file states
+    prevHash?: string;
+}
+
+export interface SealedFile {
+    lines: number;
+    headHash: string;              // SHA-256 of the last line (genesis hash if empty)
+    contentHash: string;           // SHA-256 of all the lines, joined with \n
+}
+
 export interface GroundingInfo {
     philosophyRefs?: string[];      // Paths to philosophy docs consulted
+    philosophyHashes?: Record<string, string>;  // Doc path -> sha256 of the version consulted
     constraintsApplied?: string[];  // Which constraints influenced this action
     alignmentNotes?: string;        // How this aligns with product philosophy
 }
@@ -190,6 +243,22 @@ export interface ReviewFinding {
     recommendation: string;
 }
 
+/**
+ * RollupInfo - Summary of a range of older entries, written by compaction.
+ * The originals stay in the ledger; relatedEntries lists their IDs.
+ */
+export interface RollupInfo {
+    fromEntryId: string;
+    toEntryId: string;
+    from: string;                  // Timestamp of the first entry
+    to: string;                    // Timestamp of the last entry
+    entryCount: number;
+    agents: string[];
+    files: string[];
+    decisions: string[];           // "[agent] summary", confident entries only
+    uncertainties: string[];       // Open questions raised in the range
+}
+
 // ============================================
 // CONFIG SCHEMA
 // ============================================
@@ -201,6 +270,8 @@ export interface LedgerConfig {
     codebases: CodebaseConfig[];
     ledger: LedgerSettings;
     constraints: Constraint[];
+    signing?: SigningConfig;
+    verdictPolicies?: VerdictPolicy[];
 }
 
 export interface ProjectInfo {
@@ -210,7 +281,13 @@ export interface ProjectInfo {
 
 export interface PhilosophyConfig {
     required: string[];         // Always load these docs
-    optional?: string[];        // Load if relevant (glob patterns)
+    optional?: (string | OptionalDoc)[];  // Load if relevant (glob patterns); a bare string applies everywhere
+    hashes?: Record<string, string>;      // Doc path -> sha256 when registered (`ground add`)
+}
+
+export interface OptionalDoc {
+    path: string;               // Doc path or glob, e.g. docs/billing/*.md
+    appliesTo?: string[];       // Project path globs the docs are relevant to (default: all)
 }
 
 export interface CodebaseConfig {
@@ -218,9 +295,37 @@ export interface CodebaseConfig {
     name: string;
 }
 
+export interface SigningConfig {
+    keys: Record<string, string | string[]>;  // Agent name -> trusted public key(s), base64 SPKI
+    requireVerdictSignatures?: boolean;       // Reject unsigned human/witness verdicts
+}
+
+/**
+ * VerdictPolicy - Who may judge a promise, and how many must agree before
+ * it resolves. The first policy that matches a promise applies.
+ */
+export interface VerdictPolicy {
+    id: string;
+    description?: string;
+    match?: VerdictPolicyMatch;             // Omitted: every promise
+    roles?: ('human' | 'witness')[];        // Who may give verdicts (default: both)
+    quorum?: number;                        // Agreeing human verdicts needed (default 1)
+    witnessesPerHuman?: number;             // Witness verdicts worth one human verdict (default 1)
+}
+
+/**
+ * All given conditions must hold
+ */
+export interface VerdictPolicyMatch {
+    promiseTypes?: PromiseType[];
+    constraintSeverity?: Constraint['severity'][];  // Cites a constraint (context.constraintRefs) of this severity
+    tags?: string[];                                // Has any of these tags
+}
+
 export interface LedgerSettings {
     maxEntriesToLoad: number;
     summarizeAfter: number;
+    checkPromises?: boolean;    // Check new entries against will-not-do / will-maintain promises
 }
 
 export interface Constraint {
@@ -228,18 +333,83 @@ export interface Constraint {
     description: string;
     appliesTo: string[];        // Codebase names or '*' for all
     severity: 'critical' | 'high' | 'medium' | 'low';
+    rules?: ConstraintRules;    // Optional machine-checkable rules
+}
+
+/**
+ * ConstraintRules - Checked by `ledgersync check` against artifacts and the working tree.
+ * Globs are project-relative and only apply within the constraint's codebases.
+ */
+export interface ConstraintRules {
+    forbiddenPaths?: string[];      // Files that must not be created, modified or deleted
+    requireReview?: string[];       // Changes here need a later review entry, by another agent, covering the file
+    forbiddenPatterns?: string[];   // Regexes that must not appear in lines added in the working tree
+    maxLinesChanged?: number;       // Per entry, across files the constraint governs
 }
 
 // ============================================
 // UTILITY TYPES
 // ============================================
 
+/**
+ * FileHistory - Every entry that touched a file, following renames
+ */
+export interface FileHistory {
+    path: string;               // Normalized, relative to the project root
+    names: string[];            // path, then earlier names (newest first)
+    renames: FileRename[];      // Newest first
+    entries: LedgerEntry[];     // Oldest first
+}
+
+export interface FileRename {
+    from: string;
+    to: string;
+    entryId: string;
+    timestamp: string;
+}
+
 export interface LedgerSummary {
     totalEntries: number;
     lastUpdated: string;
     recentAgents: string[];
     recentFiles: string[];
     keyDecisions: string[];
+    rollups?: RollupInfo[];            // Older history compacted into rollups, oldest first
+    handoff?: HandoffBriefing | null;  // Only in handoff mode; null if no handoff exists
+}
+
+/**
+ * HandoffBriefing - State inherited from the latest handoff,
+ * merged with everything logged since
+ */
+export interface HandoffBriefing {
+    handoffEntryId: string;
+    fromAgent: string;
+    fromSessionId: string;
+    handedOffAt: string;
+    completed: string[];
+    currentState: Record<string, string>;
+    deferred: string[];
+    blockers: string[];
+    importantContext: Record<string, string>;
+    handoffNotes?: string;
+    since: {
+        entries: number;
+        agents: string[];
+        files: string[];
+        work: string[];
+        uncertainties: string[];
+    };
+    acknowledged: boolean;             // Did an incoming agent write a transition?
+    acknowledgements: HandoffAcknowledgement[];
+}
+
+export interface HandoffAcknowledgement {
+    agent: string;
+    entryId: string;
+    timestamp: string;
+    confident: boolean;
+    clarificationsNeeded: string[];
 }
 
 // ============================================
@@ -266,6 +436,10 @@ export function isReviewEntry(entry: LedgerEntry): entry is LedgerEntry & { entr
     return entry.entryType === 'review' && entry.review !== undefined;
 }
 
+export function isRollupEntry(entry: LedgerEntry): entry is LedgerEntry & { entryType: 'rollup'; rollup: RollupInfo } {
+    return entry.entryType === 'rollup' && entry.rollup !== undefined;
+}
+
 // ============================================
 // PROMISE GRAPH TYPES
 // ============================================
@@ -336,6 +510,12 @@ export interface PromiseEntry {
         userPrompt?: string;       // Original user request
     };
 
+    // === DEPENDENCIES ===
+    dependsOn?: string[];          // Promise IDs that must be fulfilled first
+
+    // === DEADLINE ===
+    dueBy?: string;                // ISO 8601; flagged as overdue while active after this
+
     // === STATUS ===
     status: PromiseStatus;
     resolvedBy?: string;           // Report ID that resolved this
@@ -344,6 +524,28 @@ export interface PromiseEntry {
 
     // === METADATA ===
     tags?: string[];
+    prevHash?: string;             // SHA-256 of the previous line (set on append)
+}
+
+/**
+ * PromiseStatusEvent - An appended status change for a promise
+ *
+ * promises.jsonl is append-only: status changes are recorded as events
+ * alongside the promises they refer to, and current status is computed
+ * by folding them in order.
+ */
+export interface PromiseStatusEvent {
+    id: string;                    // UUID v4
+    timestamp: string;             // ISO 8601 (when the status changed)
+    event: 'status-change';
+    promiseId: string;             // Promise whose status changed
+    status: PromiseStatus;         // New status
+    previousStatus?: PromiseStatus;
+    actor?: string;                // Who made the change
+    resolvedBy?: string;           // Report ID that resolved this
+    supersededBy?: string;         // Promise ID if superseded
+    reason?: string;
+    prevHash?: string;             // SHA-256 of the previous line (set on append)
 }
 
 /**
@@ -398,11 +600,14 @@ export interface WorkReport {
     verdict?: {
         status: VerdictStatus;
         reasoning: string;         // Why this verdict
+        proposed?: boolean;        // Suggested by an automated check; doesn't count until someone confirms it
     };
 
     // === CONTEXT ===
     relatedEntries?: string[];     // Ledger entries that did the work
     tags?: string[];
+    prevHash?: string;             // SHA-256 of the previous line (set on append)
+    signature?: RecordSignature;   // Ed25519 signature by the reporter (expected on verdicts)
 }
 
 // ============================================
@@ -422,6 +627,12 @@ export function isPromiseEntry(obj: unknown): obj is PromiseEntry {
     );
 }
 
+export function isPromiseStatusEvent(obj: unknown): obj is PromiseStatusEvent {
+    if (typeof obj !== 'object' || obj === null) return false;
+    const event = obj as Record<string, unknown>;
+    return event.event === 'status-change' && typeof event.promiseId === 'string';
+}
+
 export function isWorkReport(obj: unknown): obj is WorkReport {
     if (typeof obj !== 'object' || obj === null) return false;
     const report = obj as Record<string, unknown>;
@@ -0,0 +1,173 @@
+/**
+ * Verdict authorization: who may judge a promise, and when a judgment counts
+ *
+ * Built-in rules: actors report facts, so only witnesses and humans give
+ * verdicts, and nobody judges a promise they made themselves: the role on
+ * a report is self-declared. Humans are the authority and may judge any
+ * promise, their own included once the verdict is signed with a key
+ * config.yaml trusts for them.
+ *
+ * config.verdictPolicies narrows this per promise. The first policy that
+ * matches picks who may judge (roles) and how many agreeing verdicts
+ * resolve the promise (quorum, in human verdicts; witnessesPerHuman
+ * witness verdicts count as one). Each reporter's latest verdict counts.
+ * Proposed verdicts, such as those from promise violation checks, never do.
+ */
+
+import type {
+    LedgerConfig,
+    PromiseEntry,
+    VerdictPolicy,
+    VerdictStatus,
+    WorkReport,
+} from './types.js';
+import { verifyRecordSignature } from './signing.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface VerdictTally {
+    policy: VerdictPolicy;
+    verdicts: WorkReport[];                      // Counted: each reporter's latest authorized verdict
+    weights: Record<VerdictStatus, number>;      // Agreement per status, in human verdicts
+    quorum: number;
+    outcome: VerdictStatus | null;               // First status to reach quorum
+}
+
+/** Applies when no configured policy matches */
+export const DEFAULT_VERDICT_POLICY: VerdictPolicy = { id: 'default' };
+
+// ============================================
+// POLICIES
+// ============================================
+
+function matchesPolicy(promise: PromiseEntry, policy: VerdictPolicy, config: LedgerConfig | null): boolean {
+    const match = policy.match;
+    if (!match) {
+        return true;
+    }
+
+    if (match.promiseTypes && !match.promiseTypes.includes(promise.promise.type)) {
+        return false;
+    }
+
+    if (match.constraintSeverity) {
+        const refs = promise.context?.constraintRefs ?? [];
+        const cited = (config?.constraints ?? []).filter(c => refs.includes(c.id));
+        if (!cited.some(c => match.constraintSeverity!.includes(c.severity))) {
+            return false;
+        }
+    }
+
+    if (match.tags && !match.tags.some(t => promise.tags?.includes(t))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * The policy governing verdicts on a promise
+ */
+export function getVerdictPolicy(promise: PromiseEntry, config: LedgerConfig | null): VerdictPolicy {
+    return config?.verdictPolicies?.find(p => matchesPolicy(promise, p, config)) ?? DEFAULT_VERDICT_POLICY;
+}
+
+// ============================================
+// AUTHORIZATION
+// ============================================
+
+/**
+ * Why a report may not carry its verdict, or null if it may
+ */
+export function checkVerdictAuthorization(
+    report: WorkReport,
+    promise: PromiseEntry,
+    config: LedgerConfig | null
+): string | null {
+    if (!report.verdict) {
+        return null;
+    }
+
+    const { agent, role } = report.reporter;
+
+    if (role === 'actor') {
+        return `${agent} reported as an actor and can't give a verdict; report facts and let a witness or human judge`;
+    }
+
+    if (agent === promise.promiser.agent) {
+        if (role === 'witness') {
+            return `${agent} can't witness its own promise`;
+        }
+        // Anyone can claim to be human; only a trusted signature proves it
+        if (!report.verdict.proposed && verifyRecordSignature(report, agent, config).status !== 'valid') {
+            return `${agent} can't judge its own promise without a verdict signed by a key config.yaml trusts for ${agent}`;
+        }
+    }
+
+    // Proposals don't count, so any witness may make one
+    const policy = getVerdictPolicy(promise, config);
+    if (policy.roles && !policy.roles.includes(role) && !report.verdict.proposed) {
+        return `Verdict policy ${policy.id} only accepts verdicts from: ${policy.roles.join(', ')} (got ${role} ${agent})`;
+    }
+
+    return null;
+}
+
+// ============================================
+// QUORUM
+// ============================================
+
+/**
+ * Count the verdicts on a promise under its policy. Reports for other
+ * promises and unauthorized verdicts are ignored.
+ */
+export function tallyVerdicts(promise: PromiseEntry, reports: WorkReport[], config: LedgerConfig | null): VerdictTally {
+    const policy = getVerdictPolicy(promise, config);
+    const quorum = policy.quorum ?? 1;
+    const witnessesPerHuman = policy.witnessesPerHuman ?? 1;
+
+    // Latest verdict per reporter; a reporter who changes their mind counts once
+    const latest = new Map<string, WorkReport>();
+    for (const report of reports) {
+        if (report.promiseId === promise.id && report.verdict && !report.verdict.proposed &&
+            !checkVerdictAuthorization(report, promise, config)) {
+            latest.delete(report.reporter.agent);
+            latest.set(report.reporter.agent, report);
+        }
+    }
+    const verdicts = [...latest.values()];
+
+    // Count in witness verdicts so the quorum check stays exact
+    const units: Record<VerdictStatus, number> = { fulfilled: 0, partial: 0, broken: 0 };
+    let outcome: VerdictStatus | null = null;
+
+    for (const report of verdicts) {
+        const status = report.verdict!.status;
+        units[status] += report.reporter.role === 'human' ? witnessesPerHuman : 1;
+        if (outcome === null && units[status] >= quorum * witnessesPerHuman) {
+            outcome = status;
+        }
+    }
+
+    return {
+        policy,
+        verdicts,
+        weights: {
+            fulfilled: units.fulfilled / witnessesPerHuman,
+            partial: units.partial / witnessesPerHuman,
+            broken: units.broken / witnessesPerHuman,
+        },
+        quorum,
+        outcome,
+    };
+}
+
+/**
+ * "1.5 of 2 human verdicts agree on fulfilled (policy two-reviewers)"
+ */
+export function formatQuorumProgress(tally: VerdictTally, status: VerdictStatus): string {
+    const weight = Math.round(tally.weights[status] * 100) / 100;
+    return `${weight} of ${tally.quorum} human verdict${tally.quorum === 1 ? '' : 's'} agree on ${status} (policy ${tally.policy.id})`;
+}
@@ -0,0 +1,107 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { LedgerEntry } from '../src/types.js';
+import { appendEntry, createBugfixEntry, createEntry, createReviewEntry, getLedgerPath } from '../src/ledger.js';
+import { getCachePath } from '../src/ledger-index.js';
+import { CALIBRATION_CACHE_FILE, findContradictions, loadCalibrationProfile } from '../src/calibration.js';
+
+function change(...files: string[]): LedgerEntry {
+    return createEntry({ name: 'bot' }, { type: 'modify', summary: 'Change' }, { intent: 'x', confidence: 0.9 }, {
+        artifacts: files.map(f => ({ path: f, action: 'modified' as const })),
+    });
+}
+
+function bugfix(files: string[], relatedEntries?: string[]): LedgerEntry {
+    return createBugfixEntry(
+        { name: 'fixer' },
+        { type: 'debug', summary: 'Fix' },
+        { intent: 'x' },
+        { symptom: 'Login fails', rootCause: 'x', fix: 'x', regressionRisk: 'low', verificationSteps: [] },
+        { artifacts: files.map(f => ({ path: f, action: 'modified' as const })), relatedEntries }
+    );
+}
+
+function review(issue: string, relatedEntries?: string[]): LedgerEntry {
+    return createReviewEntry(
+        { name: 'reviewer' },
+        { type: 'analyze', summary: 'Review' },
+        { intent: 'x' },
+        {
+            scope: ['src'],
+            findings: [
+                { severity: 'high', location: 'src/auth.ts', issue, recommendation: 'x' },
+                { severity: 'info', location: 'src/auth.ts', issue: 'Style', recommendation: 'x' },
+            ],
+            overallAssessment: 'x',
+        },
+        { relatedEntries }
+    );
+}
+
+function blamed(entries: LedgerEntry[]): string[] {
+    return [...findContradictions(entries).keys()];
+}
+
+describe('findContradictions', () => {
+    it('blames only the last change to each fixed file', () => {
+        const first = change('src/auth.ts');
+        const second = change('src/auth.ts', 'src/db.ts');
+        const other = change('src/db.ts');
+        expect(blamed([first, second, other, bugfix(['src/auth.ts'])])).toEqual([second.id]);
+    });
+
+    it('does not blame directory artifacts for the files under them', () => {
+        const file = change('src/auth.ts');
+        const dir = change('src');
+        expect(blamed([file, dir, bugfix(['src/auth.ts'])])).toEqual([file.id]);
+    });
+
+    it('blames the entries a bugfix names instead', () => {
+        const named = change('src/db.ts');
+        const last = change('src/auth.ts');
+        expect(blamed([named, last, bugfix(['src/auth.ts'], [named.id])])).toEqual([named.id]);
+    });
+
+    it('counts a bugfix as the latest change to what it fixed', () => {
+        const first = change('src/auth.ts');
+        const fix = bugfix(['src/auth.ts']);
+        expect(blamed([first, fix, bugfix(['src/auth.ts'])])).toEqual([first.id, fix.id]);
+    });
+
+    it('blames entries a review relates to or names, ignoring info findings', () => {
+        const related = change('src/a.ts');
+        const named = change('src/b.ts');
+        const evidence = findContradictions([
+            related,
+            named,
+            review(`Entry ${named.id.slice(0, 8)} skipped validation`, [related.id]),
+        ]);
+        expect([...evidence.keys()]).toEqual([related.id, named.id]);
+        expect(evidence.get(named.id)![0].detail).toBe(`[high] Entry ${named.id.slice(0, 8)} skipped validation`);
+    });
+
+    it('does not blame entries made after the bugfix', () => {
+        const fix = bugfix(['src/auth.ts']);
+        expect(blamed([fix, change('src/auth.ts')])).toEqual([]);
+    });
+});
+
+describe('loadCalibrationProfile', () => {
+    it('caches the profile until the ledger changes', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-calibration-'));
+        try {
+            appendEntry(root, change('src/auth.ts'));
+            expect(loadCalibrationProfile(root).agents.bot.contradicted).toBe(0);
+
+            const cachePath = getCachePath(getLedgerPath(root), CALIBRATION_CACHE_FILE);
+            expect(fs.existsSync(cachePath)).toBe(true);
+
+            appendEntry(root, bugfix(['src/auth.ts']));
+            expect(loadCalibrationProfile(root).agents.bot.contradicted).toBe(1);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,136 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LedgerEntry } from '../src/types.js';
+import { appendEntry, createEntry } from '../src/ledger.js';
+import { getDiffArtifacts } from '../src/git.js';
+import {
+    explainLine,
+    getCommitsForEntry,
+    installCommitHook,
+    readCommitLinks,
+    recordCommit,
+    uninstallCommitHook,
+} from '../src/commits.js';
+
+let root: string;
+
+function git(...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+        cwd: root,
+        encoding: 'utf-8',
+    });
+}
+
+function commit(file: string, content: string, message: string): void {
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+    git('add', file);
+    git('commit', '--quiet', '--no-verify', '-m', message);
+}
+
+function log(file: string): LedgerEntry {
+    const e = createEntry({ name: 'cursor' }, { type: 'modify', summary: `Change ${file}` }, { intent: 'x' }, {
+        artifacts: [{ path: file, action: 'modified' }],
+    });
+    appendEntry(root, e);
+    return e;
+}
+
+beforeEach(() => {
+    // Ignore git config passed in through the environment (e.g. core.hooksPath)
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-commits-'));
+    git('init', '--quiet');
+    fs.writeFileSync(path.join(root, '.gitignore'), '.ledgersync/\n', 'utf-8');
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('recordCommit', () => {
+    it('links each commit to the entries logged since the last one', () => {
+        const first = log('auth.ts');
+        commit('auth.ts', 'a\nb\n', 'Add auth');
+        const link = recordCommit(root)!;
+
+        expect(link).toMatchObject({ subject: 'Add auth', entryIds: [first.id] });
+        expect(link.artifacts).toEqual([{ path: 'auth.ts', action: 'created', linesChanged: 2 }]);
+        expect(recordCommit(root)).toBeNull();
+
+        const second = log('db.ts');
+        commit('db.ts', 'c\n', 'Add db');
+        expect(recordCommit(root)!.entryIds).toEqual([second.id]);
+        expect(getCommitsForEntry(root, first.id).map(c => c.sha)).toEqual([link.sha]);
+        expect(readCommitLinks(root)).toHaveLength(2);
+    });
+
+    it('returns null for an unknown revision', () => {
+        expect(recordCommit(root)).toBeNull();
+    });
+});
+
+describe('explainLine', () => {
+    it('goes from a committed line to the entries behind its commit', () => {
+        const e = log('auth.ts');
+        log('db.ts');
+        commit('auth.ts', 'a\nb\n', 'Add auth');
+        recordCommit(root);
+
+        const explained = explainLine(root, './auth.ts', 2)!;
+        expect(explained.linked).toBe(true);
+        expect(explained.blame.summary).toBe('Add auth');
+        expect(explained.entries.map(x => x.id)).toEqual([e.id]);
+        expect(explainLine(root, 'auth.ts', 9)).toBeNull();
+    });
+
+    it('falls back to entries touching the file for uncommitted lines', () => {
+        commit('auth.ts', 'a\n', 'Add auth');
+        const e = log('auth.ts');
+        fs.appendFileSync(path.join(root, 'auth.ts'), 'b\n', 'utf-8');
+
+        const explained = explainLine(root, 'auth.ts', 2)!;
+        expect(explained).toMatchObject({ commit: null, linked: false });
+        expect(explained.blame.uncommitted).toBe(true);
+        expect(explained.entries.map(x => x.id)).toEqual([e.id]);
+    });
+});
+
+describe('getDiffArtifacts', () => {
+    it('lists working tree changes, including untracked files', () => {
+        commit('auth.ts', 'a\nb\n', 'Add auth');
+        fs.writeFileSync(path.join(root, 'auth.ts'), 'a\nc\n', 'utf-8');
+        fs.writeFileSync(path.join(root, 'db.ts'), 'x\ny\nz\n', 'utf-8');
+
+        expect(getDiffArtifacts(root)).toEqual([
+            { path: 'auth.ts', action: 'modified', linesChanged: 2 },
+            { path: '.gitignore', action: 'created', linesChanged: 1 },
+            { path: 'db.ts', action: 'created', linesChanged: 3 },
+        ]);
+    });
+});
+
+describe('commit hook', () => {
+    it('is added to an existing hook and removed without touching the rest', () => {
+        const hookPath = path.join(root, '.git', 'hooks', 'post-commit');
+        fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+        fs.writeFileSync(hookPath, '#!/bin/sh\necho done\n', 'utf-8');
+
+        expect(installCommitHook(root)).toEqual({ hookPath, alreadyInstalled: false });
+        expect(installCommitHook(root).alreadyInstalled).toBe(true);
+        expect(fs.readFileSync(hookPath, 'utf-8')).toContain('ledgersync git record-commit');
+
+        expect(uninstallCommitHook(root)).toBe(true);
+        expect(fs.readFileSync(hookPath, 'utf-8').trim()).toBe('#!/bin/sh\necho done');
+        expect(uninstallCommitHook(root)).toBe(false);
+    });
+
+    it('is deleted when it held nothing else', () => {
+        const { hookPath } = installCommitHook(root);
+        expect(uninstallCommitHook(root)).toBe(true);
+        expect(fs.existsSync(hookPath)).toBe(false);
+    });
+});
@@ -0,0 +1,114 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig, LedgerEntry } from '../src/types.js';
+import { isRollupEntry } from '../src/types.js';
+import { createDefaultConfig } from '../src/config.js';
+import { SUMMARY_ROLLUPS, appendEntry, createEntry, generateSummary, readLedger } from '../src/ledger.js';
+import { compactLedger, isCompactionDue, planCompaction } from '../src/compaction.js';
+
+let root: string;
+
+// Two entries per rollup; the last three stay raw
+const config: LedgerConfig = (() => {
+    const defaults = createDefaultConfig('Test');
+    return { ...defaults, ledger: { ...defaults.ledger, summarizeAfter: 2, maxEntriesToLoad: 3 } };
+})();
+
+function entry(summary: string): LedgerEntry {
+    return createEntry({ name: 'cursor' }, { type: 'modify', summary }, { intent: 'x' }, {
+        artifacts: [{ path: `src/${summary}.ts`, action: 'modified' }],
+    });
+}
+
+function log(...summaries: string[]): LedgerEntry[] {
+    return summaries.map(s => {
+        const e = entry(s);
+        appendEntry(root, e);
+        return e;
+    });
+}
+
+function rollups(): LedgerEntry[] {
+    return readLedger(root).filter(isRollupEntry);
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-compaction-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('planCompaction', () => {
+    it('splits unrolled entries into full ranges, leaving the recent ones raw', () => {
+        const entries = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(s => entry(s));
+        const plan = planCompaction(entries, config);
+        expect(plan.pending).toBe(7);
+        expect(plan.ranges.map(r => r.map(e => e.action.summary))).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+});
+
+describe('compactLedger', () => {
+    it('does nothing until a full range is due', () => {
+        log('a', 'b', 'c', 'd');
+        expect(isCompactionDue(root, config)).toBe(false);
+        expect(compactLedger(root, config)).toEqual([]);
+    });
+
+    it('rolls up each due range once', () => {
+        const [a, b, c, d] = log('a', 'b', 'c', 'd', 'e', 'f', 'g');
+
+        const written = compactLedger(root, config);
+        expect(written.map(r => r.relatedEntries)).toEqual([[a.id, b.id], [c.id, d.id]]);
+        expect(rollups().map(r => r.id)).toEqual(written.map(r => r.id));
+
+        expect(compactLedger(root, config)).toEqual([]);
+        expect(rollups()).toHaveLength(2);
+    });
+
+    it('starts the next rollup after the range the last one covered', () => {
+        const [, , c, d] = log('a', 'b', 'c', 'd', 'e');
+        compactLedger(root, config);
+        log('f', 'g');
+
+        const [next] = compactLedger(root, config);
+        expect(next.relatedEntries).toEqual([c.id, d.id]);
+        expect(next.rollup).toMatchObject({ entryCount: 2, fromEntryId: c.id, toEntryId: d.id });
+        expect(rollups()).toHaveLength(2);
+    });
+
+    it('writes nothing on a dry run', () => {
+        log('a', 'b', 'c', 'd', 'e');
+        expect(compactLedger(root, config, { dryRun: true })).toHaveLength(1);
+        expect(rollups()).toEqual([]);
+    });
+});
+
+describe('summaries', () => {
+    it('read rollups for the history before the tail', () => {
+        log('a', 'b', 'c', 'd', 'e');
+        compactLedger(root, config);
+
+        const summary = generateSummary(root, 3);
+        expect(summary.rollups!.map(r => r.entryCount)).toEqual([2]);
+        expect(summary.recentFiles).toEqual(['src/c.ts', 'src/d.ts', 'src/e.ts']);
+    });
+
+    it('fold older rollups so their number stays bounded', () => {
+        const summaries = Array.from({ length: 2 * (SUMMARY_ROLLUPS + 2) + 3 }, (_, i) => `e${i}`);
+        for (const s of summaries) {
+            log(s);
+            compactLedger(root, config);
+        }
+        expect(rollups()).toHaveLength(SUMMARY_ROLLUPS + 2);
+
+        const folded = generateSummary(root, 3).rollups!;
+        expect(folded).toHaveLength(SUMMARY_ROLLUPS);
+        // The three oldest rollups of two entries each, then the newest two
+        expect(folded.map(r => r.entryCount)).toEqual([6, 2, 2]);
+        expect(folded[0].fromEntryId).toBe(readLedger(root)[0].id);
+    });
+});
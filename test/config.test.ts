@@ -0,0 +1,113 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    CONFIG_VERSION,
+    LEGACY_DIR,
+    createDefaultConfig,
+    findLegacyRoot,
+    isValidConfig,
+    loadConfig,
+    migrateConfig,
+    migrateLegacyDir,
+    saveConfig,
+} from '../src/config.js';
+import { LEDGERSYNC_DIR, getConfigPath } from '../src/ledger.js';
+
+let root: string;
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-config-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+    it('reads back a saved default config', () => {
+        fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+        saveConfig(root, createDefaultConfig('Test'));
+        expect(loadConfig(root).project.name).toBe('Test');
+    });
+
+    it('lists every schema error with its field', () => {
+        fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+        fs.writeFileSync(getConfigPath(root), 'version: "0.2.0"\nproject: {}\nledger: { maxEntriesToLoad: many }\n', 'utf-8');
+        expect(() => loadConfig(root)).toThrow(/project: must have required property 'name'[\s\S]*ledger\.maxEntriesToLoad: must be/);
+    });
+
+    it('explains a missing file and invalid YAML', () => {
+        expect(() => loadConfig(root)).toThrow(/Missing .ledgersync.config\.yaml/);
+        fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+        fs.writeFileSync(getConfigPath(root), 'project: [unclosed\n', 'utf-8');
+        expect(() => loadConfig(root)).toThrow(/Invalid YAML/);
+    });
+});
+
+describe('migrateConfig', () => {
+    it('upgrades an old config to one that validates, listing each change', () => {
+        const { config, changes } = migrateConfig({
+            project: 'Legacy',
+            philosophy: ['docs/PHILOSOPHY.md'],
+            constraints: [{ id: 'no-tracking', description: 'x', severity: 'critical' }],
+        });
+
+        expect(isValidConfig(config)).toBe(true);
+        expect(config).toMatchObject({
+            version: CONFIG_VERSION,
+            project: { name: 'Legacy' },
+            philosophy: { required: ['docs/PHILOSOPHY.md'], optional: [] },
+            codebases: [],
+            ledger: { maxEntriesToLoad: 20, summarizeAfter: 50 },
+            constraints: [{ id: 'no-tracking', appliesTo: ['*'] }],
+        });
+        expect(changes).toEqual([
+            `version: (none) → ${CONFIG_VERSION}`,
+            'project: name moved under project.name',
+            'philosophy: doc list moved under philosophy.required',
+            'codebases: added',
+            'ledger.maxEntriesToLoad: set to 20',
+            'ledger.summarizeAfter: set to 50',
+            "constraints.no-tracking.appliesTo: set to ['*']",
+        ]);
+    });
+
+    it('leaves a current config unchanged', () => {
+        const current = createDefaultConfig('Test');
+        expect(migrateConfig(current)).toEqual({ config: current, changes: [] });
+    });
+
+    it('keeps settings it does not know about', () => {
+        const { config } = migrateConfig({ ...createDefaultConfig('Test'), ledger: { maxEntriesToLoad: 5, checkPromises: true } });
+        expect(config.ledger).toEqual({ maxEntriesToLoad: 5, summarizeAfter: 50, checkPromises: true });
+    });
+
+    it('rejects anything but a mapping', () => {
+        expect(() => migrateConfig(['a'])).toThrow(/must be a YAML mapping/);
+    });
+});
+
+describe('legacy folder', () => {
+    it('is found from a subdirectory and renamed in place', () => {
+        const legacy = path.join(root, LEGACY_DIR);
+        fs.mkdirSync(legacy);
+        fs.writeFileSync(path.join(legacy, 'ledger.jsonl'), '', 'utf-8');
+        const nested = path.join(root, 'src', 'auth');
+        fs.mkdirSync(nested, { recursive: true });
+
+        expect(findLegacyRoot(nested)).toBe(root);
+        expect(migrateLegacyDir(root)).toBe(true);
+        expect(fs.existsSync(path.join(root, LEDGERSYNC_DIR, 'ledger.jsonl'))).toBe(true);
+        expect(fs.existsSync(legacy)).toBe(false);
+        expect(migrateLegacyDir(root)).toBe(false);
+    });
+
+    it('is left alone when .ledgersync/ exists too', () => {
+        fs.mkdirSync(path.join(root, LEGACY_DIR));
+        fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+        expect(() => migrateLegacyDir(root)).toThrow(/merge them by hand/);
+        expect(fs.existsSync(path.join(root, LEGACY_DIR))).toBe(true);
+    });
+});
@@ -0,0 +1,91 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig } from '../src/types.js';
+import { createDefaultConfig } from '../src/config.js';
+import { appendEntry, createEntry } from '../src/ledger.js';
+import { appendPromise, createPromise } from '../src/promises.js';
+import { buildContextBundle, formatContextBundle } from '../src/context.js';
+
+let root: string;
+
+const config: LedgerConfig = {
+    ...createDefaultConfig('Test'),
+    codebases: [{ path: 'src/api', name: 'api' }, { path: 'src/web', name: 'web' }],
+    philosophy: {
+        required: ['docs/PHILOSOPHY.md'],
+        optional: [{ path: 'docs/api.md', appliesTo: ['src/api/**'] }],
+    },
+    constraints: [
+        { id: 'style', description: 'Follow the style guide', appliesTo: ['*'], severity: 'low' },
+        { id: 'pii', description: 'No PII in logs', appliesTo: ['api'], severity: 'critical' },
+        { id: 'a11y', description: 'Keep pages accessible', appliesTo: ['web'], severity: 'high' },
+    ],
+};
+
+function write(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-context-'));
+    write('docs/PHILOSOPHY.md', `# Philosophy\n\n${'Keep it simple.\n'.repeat(200)}`);
+    write('docs/api.md', '# API\n\nVersion every endpoint.\n');
+
+    appendEntry(root, createEntry({ name: 'cursor' }, { type: 'modify', summary: 'Add users endpoint' }, { intent: 'List users' }, {
+        artifacts: [{ path: 'src/api/users.ts', action: 'created' }],
+    }));
+    appendPromise(root, createPromise({ agent: 'cursor' }, { agent: '*' }, { type: 'will-maintain', summary: 'Keep the users API stable' },
+        { artifacts: ['src/api/users.ts'] }));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('buildContextBundle', () => {
+    it('orders sections by priority and keeps only what applies to the files', () => {
+        const bundle = buildContextBundle(root, config, { files: ['./src/api/users.ts'] });
+
+        expect(bundle.files).toEqual(['src/api/users.ts']);
+        expect(bundle.sections.map(s => `${s.kind} ${s.title}`)).toEqual([
+            'project Project',
+            'constraints Constraints',
+            'required-doc docs/PHILOSOPHY.md',
+            'handoff Recent Activity',
+            'promises Promises',
+            'file-history src/api/users.ts',
+            'optional-doc docs/api.md',
+        ]);
+
+        const [, constraints] = bundle.sections;
+        expect(constraints.content).toMatch(/\*\*pii\*\* \(critical\)[\s\S]*\*\*style\*\* \(low\)/);
+        expect(constraints.content).not.toContain('a11y');
+        expect(bundle.sections[4].content).toContain('"Keep the users API stable"');
+        expect(bundle.sections[5].content).toContain('[cursor] Add users endpoint — List users');
+        expect(bundle.budget).toBeNull();
+        expect(bundle.tokens).toBe(bundle.sections.reduce((sum, s) => sum + s.tokens, 0));
+    });
+
+    it('lists every constraint and skips optional docs without files', () => {
+        const bundle = buildContextBundle(root, config);
+        expect(bundle.sections[1].content).toContain('a11y');
+        expect(bundle.sections.map(s => s.kind)).not.toContain('optional-doc');
+    });
+
+    it('truncates the first section over budget and leaves out what no longer fits', () => {
+        const full = buildContextBundle(root, config, { files: ['src/api/users.ts'] });
+        const budget = full.sections[0].tokens + full.sections[1].tokens + 100;
+        const bundle = buildContextBundle(root, config, { files: ['src/api/users.ts'], budget });
+
+        const doc = bundle.sections[2];
+        expect(doc).toMatchObject({ kind: 'required-doc', truncated: true });
+        expect(doc.content).toMatch(/_…truncated to fit the token budget_$/);
+        expect(bundle.tokens).toBeLessThanOrEqual(budget);
+        expect(bundle.omitted.map(o => o.kind)).toEqual(['handoff', 'promises', 'file-history', 'optional-doc']);
+
+        expect(formatContextBundle(bundle)).toContain(`_Left out to stay within ${budget} tokens:_`);
+    });
+});
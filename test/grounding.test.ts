@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig, LedgerEntry } from '../src/types.js';
+import { createDefaultConfig } from '../src/config.js';
+import { createEntry } from '../src/ledger.js';
+import {
+    detectGroundingDrift,
+    expandDocPattern,
+    hashDoc,
+    listGroundingDocs,
+    resolveGroundingDocs,
+    stampGroundingHashes,
+} from '../src/grounding.js';
+
+let root: string;
+
+function write(file: string, content: string = '# Doc\n'): void {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+}
+
+function configWith(philosophy: LedgerConfig['philosophy']): LedgerConfig {
+    return { ...createDefaultConfig('Test'), philosophy };
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-grounding-'));
+    write('docs/PHILOSOPHY.md');
+    write('docs/billing/ledger.md');
+    write('docs/billing/refunds.md');
+    write('docs/billing/notes.txt');
+    write('docs/auth.md');
+    write('node_modules/pkg/docs/billing/x.md');
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('expandDocPattern', () => {
+    it('expands globs below their fixed prefix and checks plain paths exist', () => {
+        expect(expandDocPattern(root, 'docs/billing/*.md')).toEqual(['docs/billing/ledger.md', 'docs/billing/refunds.md']);
+        expect(expandDocPattern(root, '**/billing/*.md')).toEqual(['docs/billing/ledger.md', 'docs/billing/refunds.md']);
+        expect(expandDocPattern(root, './docs/auth.md')).toEqual(['docs/auth.md']);
+        expect(expandDocPattern(root, 'docs/missing.md')).toEqual([]);
+    });
+});
+
+describe('resolveGroundingDocs', () => {
+    const config = configWith({
+        required: ['docs/PHILOSOPHY.md'],
+        optional: [
+            { path: 'docs/billing/*.md', appliesTo: ['src/billing/**'] },
+            { path: 'docs/auth.md', appliesTo: ['src/auth/**', 'src/billing/auth.ts'] },
+        ],
+    });
+
+    it('returns only required docs without files', () => {
+        expect(resolveGroundingDocs(root, config, []).map(d => d.path)).toEqual(['docs/PHILOSOPHY.md']);
+    });
+
+    it('adds optional docs whose appliesTo matches, with the files they cover', () => {
+        const docs = resolveGroundingDocs(root, config, ['./src/billing/charge.ts', 'src/billing/auth.ts', 'src/ui/app.ts']);
+        expect(docs).toEqual([
+            { path: 'docs/PHILOSOPHY.md', pattern: 'docs/PHILOSOPHY.md', required: true, files: ['src/billing/charge.ts', 'src/billing/auth.ts', 'src/ui/app.ts'] },
+            { path: 'docs/billing/ledger.md', pattern: 'docs/billing/*.md', required: false, files: ['src/billing/charge.ts', 'src/billing/auth.ts'] },
+            { path: 'docs/billing/refunds.md', pattern: 'docs/billing/*.md', required: false, files: ['src/billing/charge.ts', 'src/billing/auth.ts'] },
+            { path: 'docs/auth.md', pattern: 'docs/auth.md', required: false, files: ['src/billing/auth.ts'] },
+        ]);
+        expect(resolveGroundingDocs(root, config, ['src/ui/app.ts']).map(d => d.path)).toEqual(['docs/PHILOSOPHY.md']);
+    });
+
+    it('applies a bare optional path to every file, merging with a required doc', () => {
+        const docs = resolveGroundingDocs(root, configWith({ required: ['docs/auth.md'], optional: ['docs/auth.md'] }), ['src/a.ts']);
+        expect(docs).toEqual([{ path: 'docs/auth.md', pattern: 'docs/auth.md', required: true, files: ['src/a.ts'] }]);
+    });
+});
+
+describe('grounding drift', () => {
+    function consult(agent: string, docs: string[]): LedgerEntry {
+        return createEntry({ name: agent }, { type: 'modify', summary: `Work by ${agent}` }, { intent: 'x' }, {
+            grounding: stampGroundingHashes(root, { philosophyRefs: docs }),
+        });
+    }
+
+    it('lists required docs and expanded optional globs once each', () => {
+        const config = configWith({ required: ['docs/auth.md'], optional: ['docs/*.md'] });
+        expect(listGroundingDocs(root, config)).toEqual(['docs/auth.md', 'docs/PHILOSOPHY.md']);
+    });
+
+    it('stamps the hash of each consulted doc, keeping hashes already given', () => {
+        const grounding = stampGroundingHashes(root, {
+            philosophyRefs: ['./docs/auth.md', 'docs/PHILOSOPHY.md', 'docs/missing.md'],
+            philosophyHashes: { 'docs/PHILOSOPHY.md': 'given' },
+        });
+        expect(grounding!.philosophyHashes).toEqual({ 'docs/auth.md': hashDoc(root, 'docs/auth.md'), 'docs/PHILOSOPHY.md': 'given' });
+        expect(stampGroundingHashes(root, { constraintsApplied: ['pii'] })).toEqual({ constraintsApplied: ['pii'] });
+    });
+
+    it('flags docs changed since they were last consulted and the entries made against old versions', () => {
+        const config = configWith({ required: ['docs/auth.md', 'docs/PHILOSOPHY.md'] });
+        const before = consult('cursor', ['docs/auth.md', 'docs/PHILOSOPHY.md']);
+        write('docs/auth.md', '# Auth, revised\n');
+        const after = consult('claude', ['docs/auth.md']);
+
+        const [auth, philosophy] = detectGroundingDrift(root, config, [before, after]);
+        expect(auth).toMatchObject({ changed: false, lastConsulted: { entryId: after.id } });
+        expect(auth.outdatedEntries.map(c => c.entryId)).toEqual([before.id]);
+        expect(philosophy).toMatchObject({ changed: false, outdatedEntries: [] });
+
+        write('docs/PHILOSOPHY.md', '# Revised\n');
+        expect(detectGroundingDrift(root, config, [before, after])[1]).toMatchObject({
+            changed: true,
+            baselineHash: before.grounding!.philosophyHashes!['docs/PHILOSOPHY.md'],
+            outdatedEntries: [{ entryId: before.id, agent: 'cursor' }],
+        });
+    });
+
+    it('falls back to the hash stored at registration, and notices deleted docs', () => {
+        const registered = hashDoc(root, 'docs/auth.md')!;
+        const config = configWith({ required: ['docs/auth.md', 'docs/PHILOSOPHY.md'], hashes: { 'docs/auth.md': registered } });
+        write('docs/auth.md', '# Auth, revised\n');
+        fs.rmSync(path.join(root, 'docs/PHILOSOPHY.md'));
+
+        const [auth, philosophy] = detectGroundingDrift(root, config, []);
+        expect(auth).toMatchObject({ baselineHash: registered, changed: true, lastConsulted: null });
+        // Never hashed, so there's nothing to compare with
+        expect(philosophy).toMatchObject({ currentHash: null, baselineHash: null, changed: false });
+    });
+});
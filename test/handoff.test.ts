@@ -0,0 +1,130 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ActionType, LedgerEntry } from '../src/types.js';
+import {
+    appendEntry,
+    buildHandoffBriefing,
+    createEntry,
+    createHandoffEntry,
+    createTransitionEntry,
+    formatSummaryForAgent,
+    generateSummary,
+} from '../src/ledger.js';
+
+let root: string;
+
+function work(agent: string, summary: string, type: ActionType = 'modify', uncertainties?: string[]): LedgerEntry {
+    return createEntry({ name: agent }, { type, summary }, { intent: 'x', uncertainties }, {
+        artifacts: [{ path: `src/${summary}.ts`, action: 'modified' }],
+    });
+}
+
+function handoff(agent: string = 'cursor'): LedgerEntry {
+    return createHandoffEntry({ name: agent }, { type: 'other', summary: 'Wrapping up' }, { intent: 'x' }, {
+        completed: ['login form'],
+        currentState: { auth: 'half migrated' },
+        deferred: ['password reset'],
+        blockers: ['waiting on API keys'],
+        importantContext: { tokens: 'stored in cookies' },
+        handoffNotes: 'Start with the session store',
+    });
+}
+
+function transition(from: LedgerEntry, confident: boolean = true): LedgerEntry {
+    return createTransitionEntry({ name: 'claude' }, { type: 'analyze', summary: 'Picked up' }, { intent: 'x' }, {
+        fromAgent: from.agent.name,
+        fromSessionId: from.session.id,
+        fromEntryId: from.id,
+        contextAcquired: { entriesRead: 3, philosophyDocsRead: [], filesIndexed: [] },
+        inheritedState: { completed: [], deferred: [], blockers: ['flaky CI'] },
+        readiness: { confident, clarificationsNeeded: confident ? [] : ['Which cookie flags?'], proposedNextSteps: [] },
+    });
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-handoff-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('buildHandoffBriefing', () => {
+    it('returns null without a handoff', () => {
+        expect(buildHandoffBriefing([work('cursor', 'a')])).toBeNull();
+    });
+
+    it('merges the latest handoff with the work logged since', () => {
+        const older = handoff('gemini');
+        const latest = handoff();
+        const briefing = buildHandoffBriefing([
+            older,
+            work('gemini', 'before'),
+            latest,
+            work('claude', 'survey', 'analyze', ['Is the cookie store shared?']),
+            work('claude', 'session-store'),
+        ])!;
+
+        expect(briefing).toMatchObject({
+            handoffEntryId: latest.id,
+            fromAgent: 'cursor',
+            completed: ['login form', '[claude] session-store'],
+            deferred: ['password reset'],
+            blockers: ['waiting on API keys'],
+            currentState: { auth: 'half migrated' },
+            importantContext: { tokens: 'stored in cookies' },
+            since: {
+                entries: 2,
+                agents: ['claude'],
+                files: ['src/survey.ts', 'src/session-store.ts'],
+                uncertainties: ['Is the cookie store shared?'],
+            },
+            acknowledged: false,
+        });
+    });
+
+    it('counts only transitions that point at the latest handoff', () => {
+        const older = handoff('gemini');
+        const latest = handoff();
+        const ack = transition(latest, false);
+        const briefing = buildHandoffBriefing([older, latest, transition(older), ack])!;
+
+        expect(briefing.acknowledgements).toEqual([{
+            agent: 'claude',
+            entryId: ack.id,
+            timestamp: ack.timestamp,
+            confident: false,
+            clarificationsNeeded: ['Which cookie flags?'],
+        }]);
+        expect(briefing.blockers).toEqual(['waiting on API keys', 'flaky CI']);
+        expect(briefing.completed).toEqual(['login form']);
+    });
+});
+
+describe('generateSummary with handoff', () => {
+    it('adds the briefing, and the agent summary says who picked up', () => {
+        const h = handoff();
+        for (const e of [work('cursor', 'a'), h, transition(h)]) {
+            appendEntry(root, e);
+        }
+
+        const summary = generateSummary(root, 20, { handoff: true });
+        expect(summary.totalEntries).toBe(3);
+        expect(summary.handoff!.handoffEntryId).toBe(h.id);
+
+        const text = formatSummaryForAgent(summary);
+        expect(text).toContain('## 📍 You Are Picking Up Here');
+        expect(text).toMatch(/\*\*Acknowledged by:\*\* claude at .* \(ready\)/);
+        expect(text).toContain('### Handoff Notes\nStart with the session store');
+    });
+
+    it('says so when there is nothing to pick up', () => {
+        appendEntry(root, work('cursor', 'a'));
+        const summary = generateSummary(root, 20, { handoff: true });
+        expect(summary.handoff).toBeNull();
+        expect(formatSummaryForAgent(summary)).toContain('_No handoff entry found.');
+        expect(generateSummary(root).handoff).toBeUndefined();
+    });
+});
@@ -0,0 +1,125 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendChained, chainLines, sealLedger, verifyChain, verifySeals } from '../src/integrity.js';
+
+let dir: string;
+let ledgerPath: string;
+
+function lines(): string[] {
+    return fs.readFileSync(ledgerPath, 'utf-8').split('\n').filter(line => line.trim());
+}
+
+function write(content: string[]): void {
+    fs.writeFileSync(ledgerPath, content.map(line => `${line}\n`).join(''), 'utf-8');
+}
+
+function append(...ns: number[]): void {
+    for (const n of ns) {
+        appendChained(ledgerPath, { n });
+    }
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-integrity-'));
+    ledgerPath = path.join(dir, 'ledger.jsonl');
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('verifyChain', () => {
+    it('accepts lines appended through appendChained', () => {
+        append(1, 2, 3);
+        expect(verifyChain(ledgerPath)).toEqual({ valid: true, lines: 3, chained: 3, unlinked: 0 });
+    });
+
+    it('breaks after an edited line', () => {
+        append(1, 2, 3);
+        const edited = lines();
+        edited[1] = edited[1].replace('"n":2', '"n":20');
+        write(edited);
+        expect(verifyChain(ledgerPath)).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it('breaks where a line was removed', () => {
+        append(1, 2, 3);
+        const [first, , third] = lines();
+        write([first, third]);
+        expect(verifyChain(ledgerPath)).toMatchObject({ valid: false, brokenAt: 2 });
+    });
+
+    it('breaks where lines were reordered', () => {
+        append(1, 2, 3);
+        const [first, second, third] = lines();
+        write([first, third, second]);
+        expect(verifyChain(ledgerPath)).toMatchObject({ valid: false, brokenAt: 2 });
+    });
+
+    it('breaks at the first line when lines were cut from the start', () => {
+        append(1, 2, 3);
+        write(lines().slice(1));
+        expect(verifyChain(ledgerPath)).toMatchObject({ valid: false, brokenAt: 1, error: expect.stringMatching(/genesis/) });
+    });
+
+    it('counts lines written before the chain started as unlinked', () => {
+        write([JSON.stringify({ n: 1 }), JSON.stringify({ n: 2 })]);
+        append(3);
+        expect(verifyChain(ledgerPath)).toEqual({ valid: true, lines: 3, chained: 1, unlinked: 2 });
+    });
+
+    it('breaks at a line without prevHash appended after the chain started', () => {
+        append(1, 2);
+        fs.appendFileSync(ledgerPath, `${JSON.stringify({ n: 3 })}\n`, 'utf-8');
+        append(4);
+        expect(verifyChain(ledgerPath)).toMatchObject({ valid: false, brokenAt: 3, error: expect.stringMatching(/no prevHash/) });
+    });
+
+    it('accepts lines re-linked by chainLines', () => {
+        append(1, 2, 3);
+        write(chainLines(lines().slice(1)));
+        expect(verifyChain(ledgerPath).valid).toBe(true);
+    });
+});
+
+describe('seals', () => {
+    it('verifies while sealed lines are unchanged', () => {
+        append(1, 2);
+        sealLedger(dir, 'human');
+        append(3);
+        expect(verifySeals(dir)).toEqual({ valid: true, seals: 1, errors: [] });
+    });
+
+    it('catches the last lines being cut off, which the chain cannot', () => {
+        append(1, 2, 3);
+        sealLedger(dir, 'human');
+        write(lines().slice(0, 2));
+
+        expect(verifyChain(ledgerPath).valid).toBe(true);
+        expect(verifySeals(dir).errors).toEqual([expect.stringMatching(/ledger\.jsonl had 3 lines, now 2$/)]);
+    });
+
+    it('catches sealed lines rewritten with a rebuilt chain', () => {
+        append(1, 2);
+        sealLedger(dir, 'human');
+        const rewritten = lines();
+        rewritten[0] = rewritten[0].replace('"n":1', '"n":10');
+        write(chainLines(rewritten));
+
+        expect(verifyChain(ledgerPath).valid).toBe(true);
+        expect(verifySeals(dir).errors).toEqual([expect.stringMatching(/ledger\.jsonl lines 1-2 changed since they were sealed$/)]);
+    });
+
+    it('catches an edited seal', () => {
+        append(1);
+        sealLedger(dir, 'human');
+        const sealsPath = path.join(dir, 'seals.jsonl');
+        const seal = JSON.parse(fs.readFileSync(sealsPath, 'utf-8'));
+        seal.files['ledger.jsonl'].lines = 0;
+        fs.writeFileSync(sealsPath, `${JSON.stringify(seal)}\n`, 'utf-8');
+
+        expect(verifySeals(dir).errors).toEqual([expect.stringMatching(/checkpoint hash doesn't match its contents$/)]);
+    });
+});
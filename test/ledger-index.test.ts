@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerEntry } from '../src/types.js';
+import { appendEntry, createEntry, getLedgerPath, readByAgent, readByFile } from '../src/ledger.js';
+import { buildLedgerIndex, loadLedgerIndex } from '../src/ledger-index.js';
+
+let root: string;
+let ledgerPath: string;
+
+function entry(agent: string, file: string): LedgerEntry {
+    return createEntry({ name: agent }, { type: 'modify', summary: 'Change' }, { intent: 'x' }, {
+        artifacts: [{ path: file, action: 'modified' }],
+    });
+}
+
+function ids(entries: LedgerEntry[]): string[] {
+    return entries.map(e => e.id);
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-index-'));
+    ledgerPath = getLedgerPath(root);
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('loadLedgerIndex', () => {
+    it('catches up with lines appended since it was built', () => {
+        const first = entry('cursor', 'src/auth.ts');
+        appendEntry(root, first);
+        buildLedgerIndex(ledgerPath);
+
+        const second = entry('cursor', 'src/db.ts');
+        fs.appendFileSync(ledgerPath, `${JSON.stringify(second)}\n`, 'utf-8');
+
+        expect(ids(readByAgent(root, 'cursor'))).toEqual([first.id, second.id]);
+        expect(loadLedgerIndex(ledgerPath)!.offsets).toHaveLength(2);
+    });
+
+    it('rebuilds when the ledger was rewritten without shrinking', () => {
+        appendEntry(root, entry('cursor', 'src/auth.ts'));
+        buildLedgerIndex(ledgerPath);
+
+        // Same lines and more, but the indexed one is gone
+        const replacement = [entry('claude', 'src/auth.ts'), entry('claude', 'src/db.ts')];
+        fs.writeFileSync(ledgerPath, replacement.map(e => `${JSON.stringify(e)}\n`).join(''), 'utf-8');
+
+        expect(readByAgent(root, 'cursor')).toEqual([]);
+        expect(ids(readByAgent(root, 'claude'))).toEqual(ids(replacement));
+        expect(ids(readByFile(root, 'src/db.ts'))).toEqual([replacement[1].id]);
+    });
+
+    it('rebuilds when the ledger shrank', () => {
+        const kept = entry('cursor', 'src/auth.ts');
+        appendEntry(root, kept);
+        appendEntry(root, entry('cursor', 'src/db.ts'));
+        buildLedgerIndex(ledgerPath);
+
+        fs.writeFileSync(ledgerPath, `${JSON.stringify(kept)}\n`, 'utf-8');
+        expect(ids(readByAgent(root, 'cursor'))).toEqual([kept.id]);
+    });
+});
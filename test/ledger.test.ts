@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerEntry } from '../src/types.js';
+import {
+    appendEntry,
+    countLedgerEntries,
+    createEntry,
+    getLedgerPath,
+    readBySession,
+    readByTag,
+    readLastN,
+    readLedger,
+    streamLedger,
+} from '../src/ledger.js';
+
+let root: string;
+
+function entry(summary: string, options: { session?: string; tags?: string[]; intent?: string } = {}): LedgerEntry {
+    return createEntry({ name: 'cursor' }, { type: 'modify', summary }, { intent: options.intent ?? 'x' }, {
+        session: options.session ? { id: options.session, entryIndex: 0 } : undefined,
+        tags: options.tags,
+    });
+}
+
+function ids(entries: LedgerEntry[]): string[] {
+    return entries.map(e => e.id);
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-ledger-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('readLastN', () => {
+    it('reads the tail across read chunks', () => {
+        // About 200 KB, so the tail spans several 64 KB chunks
+        const entries = Array.from({ length: 100 }, (_, i) => entry(`${i}`, { intent: 'x'.repeat(2000) }));
+        for (const e of entries) {
+            appendEntry(root, e);
+        }
+
+        expect(ids(readLastN(root, 40))).toEqual(ids(entries.slice(-40)));
+        expect(ids(readLastN(root, 500))).toEqual(ids(entries));
+        expect(readLastN(root, 0)).toEqual([]);
+    });
+
+    it('skips blank lines and says how far from the end a bad line is', () => {
+        const [a, b] = [entry('a'), entry('b')];
+        fs.mkdirSync(path.dirname(getLedgerPath(root)));
+        fs.writeFileSync(getLedgerPath(root), `{oops\n${JSON.stringify(a)}\n\n${JSON.stringify(b)}\n\n`, 'utf-8');
+
+        expect(ids(readLastN(root, 2))).toEqual([a.id, b.id]);
+        expect(() => readLastN(root, 3)).toThrow(/Invalid JSON 3 lines from the end/);
+        expect(countLedgerEntries(root)).toBe(3);
+    });
+
+    it('returns nothing without a ledger', () => {
+        expect(readLastN(root, 5)).toEqual([]);
+        expect(countLedgerEntries(root)).toBe(0);
+    });
+});
+
+describe('streamLedger', () => {
+    it('yields the same entries as readLedger, oldest first', async () => {
+        for (const s of ['a', 'b', 'c']) {
+            appendEntry(root, entry(s));
+        }
+
+        const streamed: LedgerEntry[] = [];
+        for await (const e of streamLedger(root)) {
+            streamed.push(e);
+        }
+        expect(streamed).toEqual(readLedger(root));
+    });
+
+    it('reports the line number of a bad line', async () => {
+        appendEntry(root, entry('a'));
+        fs.appendFileSync(getLedgerPath(root), '{oops\n', 'utf-8');
+
+        const drain = async () => {
+            for await (const _ of streamLedger(root)) { /* read through */ }
+        };
+        await expect(drain()).rejects.toThrow(/Invalid JSON on line 2/);
+    });
+});
+
+describe('indexed reads', () => {
+    it('find entries by session and tag', () => {
+        const tagged = entry('a', { session: 'session-1', tags: ['auth'] });
+        const other = entry('b', { session: 'session-2' });
+        appendEntry(root, tagged);
+        appendEntry(root, other);
+
+        expect(ids(readBySession(root, 'session-1'))).toEqual([tagged.id]);
+        expect(ids(readByTag(root, 'auth'))).toEqual([tagged.id]);
+        expect(readByTag(root, 'db')).toEqual([]);
+        expect(countLedgerEntries(root)).toBe(2);
+    });
+});
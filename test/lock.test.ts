@@ -0,0 +1,97 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LOCK_STALE_MS, appendLineLocked, getLockPath, withFileLock, writeFileAtomic } from '../src/lock.js';
+
+let dir: string;
+let file: string;
+let lockPath: string;
+
+function writeLock(info: object, ageMs: number = 0): void {
+    fs.writeFileSync(lockPath, JSON.stringify(info));
+    if (ageMs > 0) {
+        const time = (Date.now() - ageMs) / 1000;
+        fs.utimesSync(lockPath, time, time);
+    }
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-lock-'));
+    file = path.join(dir, 'ledger.jsonl');
+    lockPath = getLockPath(file);
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('withFileLock', () => {
+    it('holds the lock while fn runs and removes it afterwards', () => {
+        const result = withFileLock(file, () => {
+            expect(fs.existsSync(lockPath)).toBe(true);
+            return 42;
+        });
+        expect(result).toBe(42);
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('is re-entrant and releases only when the outermost call ends', () => {
+        withFileLock(file, () => {
+            withFileLock(file, () => undefined);
+            expect(fs.existsSync(lockPath)).toBe(true);
+        });
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('releases the lock when fn throws', () => {
+        expect(() => withFileLock(file, () => { throw new Error('boom'); })).toThrow('boom');
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('times out while another live process holds the lock', () => {
+        writeLock({ pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString(), nonce: 'other' });
+        expect(() => withFileLock(file, () => undefined, 100)).toThrow(/Timed out/);
+        expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).nonce).toBe('other');
+    });
+
+    it('takes over a lock older than LOCK_STALE_MS', () => {
+        writeLock({ pid: process.pid, host: os.hostname(), acquiredAt: '', nonce: 'old' }, LOCK_STALE_MS + 1000);
+        let holder = '';
+        withFileLock(file, () => {
+            holder = JSON.parse(fs.readFileSync(lockPath, 'utf-8')).nonce;
+        }, 500);
+        expect(holder).not.toBe('old');
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('takes over a lock held by a process on this host that no longer exists', () => {
+        writeLock({ pid: 2 ** 22 + 1, host: os.hostname(), acquiredAt: new Date().toISOString(), nonce: 'dead' });
+        expect(withFileLock(file, () => 'ran', 500)).toBe('ran');
+    });
+
+    it('leaves a lock it does not own in place', () => {
+        withFileLock(file, () => {
+            // Another writer took over while fn ran
+            writeLock({ pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString(), nonce: 'theirs' });
+        });
+        expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).nonce).toBe('theirs');
+        expect(fs.readdirSync(dir)).toEqual(['.lock']);
+    });
+});
+
+describe('writes', () => {
+    it('appends lines with a trailing newline', () => {
+        appendLineLocked(file, 'a');
+        appendLineLocked(file, 'b\n');
+        expect(fs.readFileSync(file, 'utf-8')).toBe('a\nb\n');
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('replaces a file atomically without leaving a temp file', () => {
+        fs.writeFileSync(file, 'old');
+        writeFileAtomic(file, 'new');
+        expect(fs.readFileSync(file, 'utf-8')).toBe('new');
+        expect(fs.readdirSync(dir)).toEqual(['ledger.jsonl']);
+    });
+});
@@ -0,0 +1,136 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig } from '../src/types.js';
+import { createDefaultConfig, saveConfig } from '../src/config.js';
+import { LEDGERSYNC_DIR, getConfigPath, readLedger } from '../src/ledger.js';
+import { getPromiseById, getPromisesPath } from '../src/promises.js';
+import { readReports } from '../src/reports.js';
+import { MCP_TOOLS } from '../src/mcp.js';
+
+let root: string;
+let config: LedgerConfig;
+
+function call(name: string, args: Record<string, unknown>): any {
+    return MCP_TOOLS.find(t => t.name === name)!.handler(root, args);
+}
+
+function appendEntry(agent: string = 'cursor', extra: Record<string, unknown> = {}): any {
+    return call('append_entry', {
+        agent: { name: agent },
+        action: { type: 'modify', summary: 'Change auth' },
+        reasoning: { intent: 'Fix login' },
+        session: { id: 'session-1', entryIndex: 0 },
+        ...extra,
+    });
+}
+
+const handoff = {
+    entryType: 'handoff',
+    sessionSummary: { completed: [], currentState: {}, deferred: [], blockers: [], importantContext: {} },
+};
+
+function addPromise(type: string = 'will-do', artifacts?: string[]): string {
+    return call('add_promise', {
+        promiser: { agent: 'cursor', session: 'session-1' },
+        promisee: { agent: '*', scope: 'session' },
+        promise: { type, summary: 'Keep auth stable' },
+        context: artifacts ? { artifacts } : undefined,
+    }).id;
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-mcp-'));
+    fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+    config = createDefaultConfig('Test');
+    saveConfig(root, config);
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('append_entry', () => {
+    it('logs the entry and returns its id and session', () => {
+        const result = appendEntry();
+        expect(result).toEqual({ id: expect.any(String), session: expect.objectContaining({ id: 'session-1' }) });
+        expect(readLedger(root).map(e => e.id)).toEqual([result.id]);
+    });
+
+    it('rolls older entries up once compaction is due', () => {
+        saveConfig(root, { ...config, ledger: { ...config.ledger, summarizeAfter: 2, maxEntriesToLoad: 1 } });
+        const results = [appendEntry(), appendEntry(), appendEntry()];
+
+        expect(results[2].rolledUp).toHaveLength(1);
+        expect(readLedger(root).filter(e => e.entryType === 'rollup').map(e => e.id)).toEqual(results[2].rolledUp);
+    });
+
+    it('still logs the entry and reports why compaction failed', () => {
+        fs.writeFileSync(getConfigPath(root), 'ledger: nope\n', 'utf-8');
+        const result = appendEntry();
+
+        expect(result.compactionError).toMatch(/Invalid .*config\.yaml/);
+        expect(readLedger(root).map(e => e.id)).toEqual([result.id]);
+    });
+
+    it('reports why the session sweep failed', () => {
+        fs.writeFileSync(getPromisesPath(root), '{not json\n', 'utf-8');
+        const result = appendEntry('cursor', handoff);
+
+        expect(result.sweepError).toMatch(/Invalid JSON on line 1/);
+        expect(result.compactionError).toBeUndefined();
+    });
+
+    it('withdraws session promises on a handoff', () => {
+        const promiseId = addPromise();
+        const result = appendEntry('cursor', handoff);
+
+        expect(result.withdrawnPromises).toEqual([promiseId]);
+        expect(getPromiseById(root, promiseId)!.status).toBe('withdrawn');
+    });
+
+    it('returns the promises an entry breaks when checkPromises is on', () => {
+        saveConfig(root, { ...config, ledger: { ...config.ledger, checkPromises: true } });
+        const promiseId = addPromise('will-not-do', ['src/auth.ts']);
+        const result = appendEntry('cursor', { artifacts: [{ path: 'src/auth.ts', action: 'modified' }] });
+
+        expect(result.promiseViolations).toEqual([{ promiseId, reason: expect.any(String) }]);
+    });
+});
+
+describe('add_promise and add_report', () => {
+    it('write through the same validation as the CLI', () => {
+        const promiseId = addPromise();
+        const report = call('add_report', {
+            reporter: { agent: 'cursor', role: 'actor' },
+            promiseId,
+            report: { workCompleted: 'Half done', confidenceInCompletion: 0.5 },
+        });
+
+        expect(readReports(root).map(r => r.id)).toEqual([report.id]);
+        expect(() => call('add_promise', {
+            promiser: { agent: 'cursor' },
+            promisee: { agent: '*' },
+            promise: { type: 'will-do', summary: 'x' },
+            dependsOn: ['00000000-0000-4000-8000-000000000000'],
+        })).toThrow(/unknown promise/);
+    });
+});
+
+describe('read tools', () => {
+    it('read_recent returns the last n entries', () => {
+        const ids = [appendEntry().id, appendEntry().id, appendEntry().id];
+        expect(call('read_recent', { n: 2 }).map((e: { id: string }) => e.id)).toEqual(ids.slice(1));
+    });
+
+    it('why returns the entries and promises about a file', () => {
+        const promiseId = addPromise('will-maintain', ['src/auth.ts']);
+        const { id } = appendEntry('cursor', { artifacts: [{ path: 'src/auth.ts', action: 'modified' }] });
+        appendEntry('cursor', { artifacts: [{ path: 'src/db.ts', action: 'modified' }] });
+
+        const history = call('why', { path: 'src/auth.ts' });
+        expect(history.entries.map((e: { id: string }) => e.id)).toEqual([id]);
+        expect(history.promises.map((p: { id: string }) => p.id)).toEqual([promiseId]);
+    });
+});
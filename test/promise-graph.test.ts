@@ -0,0 +1,187 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { PromiseEntry, PromiseStatus } from '../src/types.js';
+import {
+    buildPromiseGraph,
+    findBlockedPromises,
+    findCriticalPath,
+    findDependencyCycles,
+    formatPromiseTree,
+    getActiveSubgraphIds,
+} from '../src/promise-graph.js';
+import { appendPromise, createPromise, readPromises, supersedePromise } from '../src/promises.js';
+
+// IDs whose first 8 characters name the promise, as the tree prints them
+function id(name: string): string {
+    return `${name.padEnd(8, '0')}-0000-4000-8000-000000000000`;
+}
+
+function promise(name: string, dependsOn: string[] = [], status: PromiseStatus = 'active', supersededBy?: string): PromiseEntry {
+    return {
+        ...createPromise({ agent: 'bot' }, { agent: '*' }, { type: 'will-do', summary: name }, undefined, undefined,
+            dependsOn.length > 0 ? dependsOn.map(id) : undefined),
+        id: id(name),
+        status,
+        supersededBy: supersededBy && id(supersededBy),
+    };
+}
+
+function names(promises: PromiseEntry[]): string[] {
+    return promises.map(p => p.promise.summary);
+}
+
+describe('buildPromiseGraph', () => {
+    it('links dependencies both ways and lists unknown ones', () => {
+        const graph = buildPromiseGraph([promise('a'), promise('b', ['a', 'gone'])]);
+        expect(graph.nodes.get(id('b'))!.dependsOn).toEqual([id('a')]);
+        expect(graph.nodes.get(id('b'))!.missing).toEqual([id('gone')]);
+        expect(graph.nodes.get(id('a'))!.dependents).toEqual([id('b')]);
+    });
+
+    it('follows supersededBy to the promise that replaced a dependency', () => {
+        const graph = buildPromiseGraph([promise('a', [], 'superseded', 'a2'), promise('a2'), promise('b', ['a'])]);
+        expect(graph.nodes.get(id('b'))!.dependsOn).toEqual([id('a2')]);
+    });
+
+    it('keeps the original when a promise superseded its own dependency', () => {
+        const graph = buildPromiseGraph([promise('a', [], 'superseded', 'b'), promise('b', ['a'])]);
+        expect(graph.nodes.get(id('b'))!.dependsOn).toEqual([id('a')]);
+    });
+});
+
+describe('findBlockedPromises', () => {
+    it('names each unfulfilled dependency and why', () => {
+        const graph = buildPromiseGraph([
+            promise('done', [], 'fulfilled'),
+            promise('open'),
+            promise('failed', [], 'broken'),
+            promise('c', ['done', 'open', 'failed', 'gone']),
+        ]);
+        const blocked = findBlockedPromises(graph);
+        expect(names(blocked.map(b => b.promise))).toEqual(['c']);
+        expect(blocked[0].blockers.map(b => [b.id, b.reason])).toEqual([
+            [id('gone'), 'missing'],
+            [id('open'), 'pending'],
+            [id('failed'), 'broken'],
+        ]);
+    });
+});
+
+describe('findDependencyCycles', () => {
+    it('finds no cycles in a tree', () => {
+        expect(findDependencyCycles(buildPromiseGraph([promise('a'), promise('b', ['a']), promise('c', ['a'])]))).toEqual([]);
+    });
+
+    it('finds a cycle closed through supersededBy, once', () => {
+        // b depends on a; a is superseded by c, which depends on b
+        const graph = buildPromiseGraph([promise('a', [], 'superseded', 'c'), promise('b', ['a']), promise('c', ['b'])]);
+        const cycles = findDependencyCycles(graph);
+        expect(cycles).toHaveLength(1);
+        expect([...cycles[0]].sort()).toEqual([id('b'), id('c')]);
+    });
+});
+
+describe('findCriticalPath', () => {
+    it('returns the longest chain of active promises, first to keep first', () => {
+        const graph = buildPromiseGraph([
+            promise('a'),
+            promise('b', ['a']),
+            promise('c', ['b']),
+            promise('d', ['a']),
+            promise('e'),
+        ]);
+        expect(names(findCriticalPath(graph))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('skips resolved promises and promises in cycles', () => {
+        const graph = buildPromiseGraph([
+            promise('a', [], 'fulfilled'),
+            promise('b', ['a']),
+            promise('c', ['b']),
+            promise('x', ['y']),
+            promise('y', ['x']),
+            promise('z', ['x']),
+        ]);
+        expect(names(findCriticalPath(graph))).toEqual(['b', 'c']);
+    });
+
+    it('is empty without active promises', () => {
+        expect(findCriticalPath(buildPromiseGraph([promise('a', [], 'fulfilled')]))).toEqual([]);
+    });
+});
+
+describe('getActiveSubgraphIds', () => {
+    it('keeps active promises and what they depend on', () => {
+        const graph = buildPromiseGraph([promise('a', [], 'fulfilled'), promise('b', ['a']), promise('old', [], 'fulfilled')]);
+        expect([...getActiveSubgraphIds(graph)].sort()).toEqual([id('a'), id('b')]);
+    });
+});
+
+describe('formatPromiseTree', () => {
+    it('draws dependencies below their dependents', () => {
+        const graph = buildPromiseGraph([
+            promise('a', [], 'fulfilled'),
+            promise('b'),
+            promise('c', ['a', 'b']),
+        ]);
+        expect(formatPromiseTree(graph)).toBe([
+            '○ will-do "c" [active] bot (c0000000) — blocked',
+            '├── ✓ will-do "a" [fulfilled] bot (a0000000)',
+            '└── ○ will-do "b" [active] bot (b0000000)',
+        ].join('\n'));
+    });
+
+    it('marks cycles and missing dependencies instead of recursing', () => {
+        const graph = buildPromiseGraph([promise('x', ['y', 'gone']), promise('y', ['x'])]);
+        expect(formatPromiseTree(graph)).toBe([
+            '○ will-do "x" [active] bot (x0000000) — blocked, missing dependency gone0000',
+            '└── ○ will-do "y" [active] bot (y0000000) — blocked',
+            '    └── ○ will-do "x" [active] bot (x0000000) — cycle',
+        ].join('\n'));
+    });
+
+    it('only draws the promises asked for', () => {
+        const graph = buildPromiseGraph([promise('a'), promise('b', ['a']), promise('c')]);
+        expect(formatPromiseTree(graph, new Set([id('b'), id('c')]))).toBe([
+            '○ will-do "b" [active] bot (b0000000) — blocked',
+            '○ will-do "c" [active] bot (c0000000)',
+        ].join('\n'));
+    });
+});
+
+describe('supersedePromise', () => {
+    const withLedger = (fn: (root: string) => void) => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-graph-'));
+        try {
+            fn(root);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    };
+
+    it('refuses a supersede that would close a dependency cycle', () => {
+        withLedger(root => {
+            appendPromise(root, promise('a'));
+            appendPromise(root, promise('b', ['a']));
+            appendPromise(root, promise('c', ['b']));
+
+            expect(() => supersedePromise(root, id('a'), id('c'))).toThrow(/dependency cycle/);
+            expect(readPromises(root).find(p => p.id === id('a'))!.status).toBe('active');
+        });
+    });
+
+    it('moves dependents over to the new promise', () => {
+        withLedger(root => {
+            appendPromise(root, promise('a'));
+            appendPromise(root, promise('b', ['a']));
+            appendPromise(root, promise('a2'));
+
+            expect(supersedePromise(root, id('a'), id('a2'))!.status).toBe('superseded');
+            const graph = buildPromiseGraph(readPromises(root));
+            expect(graph.nodes.get(id('b'))!.dependsOn).toEqual([id('a2')]);
+            expect(findDependencyCycles(graph)).toEqual([]);
+        });
+    });
+});
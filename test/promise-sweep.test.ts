@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerEntry, PromiseEntry } from '../src/types.js';
+import { appendEntry, createEntry } from '../src/ledger.js';
+import {
+    SWEEP_ACTOR,
+    appendPromise,
+    createPromise,
+    getPromiseById,
+    getPromiseHistory,
+    getPromiseSession,
+    getPromisesPath,
+    readLivePromises,
+    readPromises,
+    sweepPromises,
+} from '../src/promises.js';
+
+let root: string;
+
+function promise(options: { session?: string; scope?: 'session' | 'project'; dueBy?: string } = {}): PromiseEntry {
+    const p = {
+        ...createPromise(
+            { agent: 'cursor', session: options.session },
+            { agent: '*', scope: options.scope ?? 'session' },
+            { type: 'will-do', summary: 'Ship the login fix' },
+            undefined, undefined, undefined, options.dueBy
+        ),
+        timestamp: '2026-01-01T00:00:00.000Z',
+    };
+    appendPromise(root, p);
+    return p;
+}
+
+function log(
+    agent: string,
+    session: string | undefined,
+    options: { handoff?: boolean; at?: string } = {}
+): LedgerEntry {
+    const e = {
+        ...createEntry({ name: agent }, { type: 'modify', summary: 'Change' }, { intent: 'x' }, {
+            session: session ? { id: session, entryIndex: 0 } : undefined,
+            entryType: options.handoff ? 'handoff' : undefined,
+            sessionSummary: options.handoff
+                ? { completed: [], currentState: {}, deferred: [], blockers: [], importantContext: {} }
+                : undefined,
+        }),
+        timestamp: options.at ?? '2026-01-02T00:00:00.000Z',
+    };
+    appendEntry(root, e);
+    return e;
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-sweep-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('getPromiseSession', () => {
+    it('prefers the session named on the promise', () => {
+        const p = promise({ session: 'session-1' });
+        expect(getPromiseSession(p, [log('cursor', 'session-2', { at: '2025-12-31T00:00:00.000Z' })])).toBe('session-1');
+    });
+
+    it("falls back to the promiser's last given session before the promise", () => {
+        const p = promise();
+        const entries = [
+            log('cursor', 'session-1', { at: '2025-12-30T00:00:00.000Z' }),
+            log('cursor', 'session-2', { at: '2025-12-31T00:00:00.000Z' }),
+            log('cursor', undefined, { at: '2025-12-31T12:00:00.000Z' }),
+            log('claude', 'session-3', { at: '2025-12-31T12:00:00.000Z' }),
+            log('cursor', 'session-4'),
+        ];
+        expect(getPromiseSession(p, entries)).toBe('session-2');
+        expect(getPromiseSession(p, entries.slice(2))).toBeUndefined();
+    });
+});
+
+describe('sweepPromises', () => {
+    it('withdraws session promises once the promiser hands off', () => {
+        const p = promise({ session: 'session-1' });
+        const project = promise({ session: 'session-1', scope: 'project' });
+        log('cursor', 'session-1', { handoff: true });
+
+        const { withdrawn } = sweepPromises(root);
+        expect(withdrawn.map(e => e.promise.id)).toEqual([p.id]);
+        expect(withdrawn[0].reason).toBe('cursor handed off session session-1');
+
+        const [event] = getPromiseHistory(root, p.id);
+        expect(event).toMatchObject({ status: 'withdrawn', actor: SWEEP_ACTOR, reason: 'cursor handed off session session-1' });
+        expect(getPromiseById(root, project.id)!.status).toBe('active');
+    });
+
+    it('withdraws them when someone else hands off the same session', () => {
+        const p = promise({ session: 'session-1' });
+        log('claude', 'session-1', { handoff: true });
+        expect(sweepPromises(root).withdrawn[0]).toMatchObject({ promise: { id: p.id }, reason: 'claude handed off session session-1' });
+    });
+
+    it('withdraws them when the promiser logs under another session they gave', () => {
+        const p = promise({ session: 'session-1' });
+        const next = log('cursor', 'session-2');
+        expect(sweepPromises(root).withdrawn).toEqual([{
+            promise: expect.objectContaining({ id: p.id }),
+            closedBy: next.id,
+            reason: 'cursor started a new session (session-2)',
+        }]);
+    });
+
+    it('does not end a session on entries without a session ID', () => {
+        const p = promise({ session: 'session-1' });
+        log('cursor', undefined);
+        log('cursor', 'session-2', { at: '2025-12-31T00:00:00.000Z' });
+
+        expect(sweepPromises(root).withdrawn).toEqual([]);
+        expect(readLivePromises(root).map(l => l.id)).toEqual([p.id]);
+    });
+
+    it('writes nothing on a dry run', () => {
+        promise({ session: 'session-1' });
+        log('cursor', 'session-1', { handoff: true });
+        const before = fs.readFileSync(getPromisesPath(root), 'utf-8');
+
+        expect(sweepPromises(root, { dryRun: true }).withdrawn).toHaveLength(1);
+        expect(fs.readFileSync(getPromisesPath(root), 'utf-8')).toBe(before);
+        expect(readLivePromises(root)).toEqual([]);
+        expect(readPromises(root)[0].status).toBe('active');
+    });
+
+    it('lists promises past their due date without withdrawing them', () => {
+        const late = promise({ scope: 'project', dueBy: '2026-02-01T00:00:00.000Z' });
+        promise({ scope: 'project', dueBy: '2026-04-01T00:00:00.000Z' });
+        promise({ scope: 'project' });
+
+        const now = Date.parse('2026-03-01T00:00:00.000Z');
+        const { withdrawn, overdue } = sweepPromises(root, { now });
+        expect(withdrawn).toEqual([]);
+        expect(overdue.map(p => p.id)).toEqual([late.id]);
+        expect(getPromiseById(root, late.id)!.status).toBe('active');
+    });
+
+    it('leaves a withdrawn session promise off the overdue list', () => {
+        promise({ session: 'session-1', dueBy: '2026-01-01T12:00:00.000Z' });
+        log('cursor', 'session-1', { handoff: true });
+
+        const { withdrawn, overdue } = sweepPromises(root, { now: Date.parse('2026-03-01T00:00:00.000Z') });
+        expect(withdrawn).toHaveLength(1);
+        expect(overdue).toEqual([]);
+    });
+});
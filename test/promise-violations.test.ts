@@ -0,0 +1,109 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ActionType, ArtifactChange, LedgerEntry, PromiseEntry, PromiseType } from '../src/types.js';
+import { appendEntry, createEntry } from '../src/ledger.js';
+import { appendPromise, createPromise, withdrawPromise } from '../src/promises.js';
+import { readReports } from '../src/reports.js';
+import {
+    VIOLATION_TAG,
+    findPromiseViolations,
+    recordPromiseViolations,
+    scanLedgerForViolations,
+} from '../src/promise-violations.js';
+
+let root: string;
+
+function promise(type: PromiseType, artifacts: string[]): PromiseEntry {
+    return {
+        ...createPromise({ agent: 'cursor' }, { agent: '*' }, { type, summary: 'Leave auth alone' }, { artifacts }),
+        timestamp: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+function entry(
+    file: string,
+    options: { agent?: string; action?: ArtifactChange['action']; type?: ActionType; at?: string } = {}
+): LedgerEntry {
+    return {
+        ...createEntry({ name: options.agent ?? 'cursor' }, { type: options.type ?? 'modify', summary: 'Change' }, { intent: 'x' }, {
+            artifacts: [{ path: file, action: options.action ?? 'modified' }],
+        }),
+        timestamp: options.at ?? '2026-01-02T00:00:00.000Z',
+    };
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-violations-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('findPromiseViolations', () => {
+    it('flags the promiser changing a file a will-not-do promise covers', () => {
+        const p = promise('will-not-do', ['src/auth']);
+        const [violation] = findPromiseViolations(entry('src/auth/login.ts'), [p]);
+        expect(violation.paths).toEqual(['src/auth/login.ts']);
+        expect(violation.reason).toBe('cursor promised "Leave auth alone", then changed src/auth/login.ts');
+    });
+
+    it('matches glob artifacts', () => {
+        expect(findPromiseViolations(entry('src/auth/login.ts'), [promise('will-not-do', ['src/**/*.ts'])])).toHaveLength(1);
+    });
+
+    it('ignores reads, read-only actions, other agents and earlier entries', () => {
+        const p = promise('will-not-do', ['src/auth.ts']);
+        expect(findPromiseViolations(entry('src/auth.ts', { action: 'read' }), [p])).toEqual([]);
+        expect(findPromiseViolations(entry('src/auth.ts', { type: 'analyze' }), [p])).toEqual([]);
+        expect(findPromiseViolations(entry('src/auth.ts', { agent: 'claude' }), [p])).toEqual([]);
+        expect(findPromiseViolations(entry('src/auth.ts', { at: '2025-12-31T00:00:00.000Z' }), [p])).toEqual([]);
+        expect(findPromiseViolations(entry('src/auth.ts'), [{ ...p, status: 'withdrawn' }])).toEqual([]);
+    });
+
+    it('flags a will-maintain promise only when a covered file is deleted', () => {
+        const p = promise('will-maintain', ['src/auth.ts']);
+        expect(findPromiseViolations(entry('src/auth.ts'), [p])).toEqual([]);
+        expect(findPromiseViolations(entry('src/auth.ts', { action: 'deleted' }), [p])[0].reason)
+            .toBe('cursor promised to maintain "Leave auth alone", then deleted src/auth.ts');
+    });
+});
+
+describe('scanLedgerForViolations', () => {
+    it('checks each entry against the promise as it stood when the entry was logged', () => {
+        const p = promise('will-not-do', ['src/auth.ts']);
+        appendPromise(root, p);
+        const before = entry('src/auth.ts');
+        appendEntry(root, before);
+
+        // Withdrawn now, which is after the entry above and before the one below
+        withdrawPromise(root, p.id, 'cursor');
+        appendEntry(root, entry('src/auth.ts', { at: '2099-01-01T00:00:00.000Z' }));
+
+        expect(scanLedgerForViolations(root).map(v => v.entry.id)).toEqual([before.id]);
+    });
+});
+
+describe('recordPromiseViolations', () => {
+    it('files one proposed broken verdict per violation', () => {
+        const p = promise('will-not-do', ['src/auth.ts']);
+        appendPromise(root, p);
+        const e = entry('src/auth.ts');
+        appendEntry(root, e);
+
+        const violations = scanLedgerForViolations(root);
+        expect(recordPromiseViolations(root, violations)).toHaveLength(1);
+        expect(recordPromiseViolations(root, violations)).toEqual([]);
+
+        const [report] = readReports(root);
+        expect(report).toMatchObject({
+            promiseId: p.id,
+            reporter: { role: 'witness' },
+            verdict: { status: 'broken', proposed: true },
+            relatedEntries: [e.id],
+            tags: [VIOLATION_TAG],
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PromiseEntry } from '../src/types.js';
+import {
+    SWEEP_ACTOR,
+    appendPromise,
+    appendPromiseEvent,
+    createPromise,
+    getPromiseById,
+    getPromiseHistory,
+    resolvePromise,
+    supersedePromise,
+    validatePromises,
+    withdrawPromise,
+} from '../src/promises.js';
+
+let root: string;
+
+function promise(agent: string = 'cursor'): PromiseEntry {
+    const p = createPromise({ agent }, { agent: '*' }, { type: 'will-do', summary: 'Ship the login fix' });
+    appendPromise(root, p);
+    return p;
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-promises-'));
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('appendPromise', () => {
+    it('refuses dependencies on unknown promises without writing', () => {
+        const dependency = promise();
+        const missing = '00000000-0000-4000-8000-000000000000';
+        const p = createPromise({ agent: 'cursor' }, { agent: '*' }, { type: 'will-do', summary: 'Deploy' },
+            undefined, undefined, [dependency.id, missing]);
+
+        expect(() => appendPromise(root, p)).toThrow(`depends on unknown promise ${missing}`);
+        expect(getPromiseById(root, p.id)).toBeUndefined();
+    });
+});
+
+describe('status events', () => {
+    it('records each change with the status it replaced', () => {
+        const p = promise();
+        expect(withdrawPromise(root, p.id, 'cursor')!.status).toBe('withdrawn');
+        expect(getPromiseHistory(root, p.id).map(e => [e.previousStatus, e.status])).toEqual([['active', 'withdrawn']]);
+    });
+
+    it.each(['fulfilled', 'broken', 'withdrawn'] as const)('treats %s as final', (status) => {
+        const p = promise();
+        resolvePromise(root, p.id, status, undefined, 'human');
+
+        expect(() => withdrawPromise(root, p.id, 'cursor')).toThrow(/already/);
+        expect(() => resolvePromise(root, p.id, 'active')).toThrow(/already/);
+        expect(getPromiseById(root, p.id)!.status).toBe(status);
+        expect(getPromiseHistory(root, p.id)).toHaveLength(1);
+    });
+
+    it('treats superseded as final', () => {
+        const old = promise();
+        const replacement = promise();
+        supersedePromise(root, old.id, replacement.id, 'cursor');
+
+        expect(() => resolvePromise(root, old.id, 'fulfilled', undefined, 'human')).toThrow(/already superseded/);
+    });
+});
+
+describe('withdrawPromise', () => {
+    it('lets the promiser or a human withdraw', () => {
+        expect(withdrawPromise(root, promise().id, 'cursor')!.status).toBe('withdrawn');
+        expect(withdrawPromise(root, promise().id, 'human')!.status).toBe('withdrawn');
+    });
+
+    it('refuses anyone else', () => {
+        const p = promise();
+        expect(() => withdrawPromise(root, p.id, 'claude')).toThrow(/only its promiser \(cursor\) or a human/);
+        expect(getPromiseById(root, p.id)!.status).toBe('active');
+    });
+});
+
+describe('validatePromises', () => {
+    it('accepts withdrawals by the promiser, a human or the sweep', () => {
+        withdrawPromise(root, promise().id, 'cursor');
+        withdrawPromise(root, promise().id, 'human');
+        appendPromiseEvent(root, promise().id, { status: 'withdrawn', actor: SWEEP_ACTOR });
+        expect(validatePromises(root)).toMatchObject({ valid: true, errors: [] });
+    });
+
+    it('reports withdrawals by anyone else', () => {
+        const p = promise();
+        appendPromiseEvent(root, p.id, { status: 'withdrawn', actor: 'claude' });
+        expect(validatePromises(root).errors).toEqual([
+            `Line 2: Promise ${p.id.slice(0, 8)} was withdrawn by claude, not its promiser or a human`,
+        ]);
+    });
+});
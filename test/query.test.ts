@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { LedgerEntry } from '../src/types.js';
+import { createEntry } from '../src/ledger.js';
+import { matchesQuery, parseLedgerQuery } from '../src/query.js';
+
+function touching(...files: string[]): LedgerEntry {
+    return createEntry({ name: 'cursor' }, { type: 'modify', summary: 'Change' }, { intent: 'x' }, {
+        artifacts: files.map(f => ({ path: f, action: 'modified' as const })),
+    });
+}
+
+describe('file filter', () => {
+    it('matches whole paths and directories, not substrings', () => {
+        expect(matchesQuery(touching('src/auth.ts'), { file: 'src/auth.ts' })).toBe(true);
+        expect(matchesQuery(touching('src/auth/login.ts'), { file: 'src/auth' })).toBe(true);
+        expect(matchesQuery(touching('src/oauth.ts'), { file: 'auth.ts' })).toBe(false);
+        expect(matchesQuery(touching('src/auth-old.ts'), { file: 'src/auth' })).toBe(false);
+    });
+
+    it('normalizes ./ prefixes, trailing slashes and absolute paths', () => {
+        expect(matchesQuery(touching('./src/auth.ts'), { file: 'src/' })).toBe(true);
+        expect(matchesQuery(touching('src/auth.ts'), { file: '/repo/src/auth.ts' }, '/repo')).toBe(true);
+    });
+
+    it('applies inside query expressions', () => {
+        const query = parseLedgerQuery('agent:cursor AND NOT file:test');
+        expect(matchesQuery(touching('test/auth.test.ts'), query)).toBe(false);
+        expect(matchesQuery(touching('src/latest.ts'), query)).toBe(true);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { PromiseEntry, PromiseStatus, VerdictStatus, WorkReport } from '../src/types.js';
+import { createPromise } from '../src/promises.js';
+import { createVerdictReport, createWorkReport } from '../src/reports.js';
+import { computeScorecardStats, getPromiseOutcome } from '../src/scorecard.js';
+
+function promise(status: PromiseStatus = 'active', resolvedAt?: string): PromiseEntry {
+    return {
+        ...createPromise({ agent: 'cursor' }, { agent: '*' }, { type: 'will-do', summary: 'Ship the login fix' }),
+        timestamp: '2026-01-01T00:00:00.000Z',
+        status,
+        resolvedAt,
+    };
+}
+
+function verdict(p: PromiseEntry, status: VerdictStatus, timestamp: string, agent: string = 'alice'): WorkReport {
+    return { ...createVerdictReport({ agent, role: 'human' }, p.id, { status, reasoning: 'Checked' }), timestamp };
+}
+
+describe('getPromiseOutcome', () => {
+    it('keeps a quorum reached before the promise was withdrawn or superseded', () => {
+        for (const status of ['withdrawn', 'superseded'] as const) {
+            const p = promise(status, '2026-01-03T00:00:00.000Z');
+            const outcome = getPromiseOutcome(p, [verdict(p, 'broken', '2026-01-02T00:00:00.000Z')], [], null);
+            expect(outcome.outcome).toBe('broken');
+            expect(outcome.judgedAt).toBe('2026-01-02T00:00:00.000Z');
+        }
+    });
+
+    it('ignores verdicts given after the promise was withdrawn', () => {
+        const p = promise('withdrawn', '2026-01-03T00:00:00.000Z');
+        expect(getPromiseOutcome(p, [verdict(p, 'fulfilled', '2026-01-04T00:00:00.000Z')], [], null).outcome).toBeNull();
+    });
+
+    it('leaves a status set without verdicts unverified', () => {
+        const p = promise('fulfilled', '2026-01-03T00:00:00.000Z');
+        expect(getPromiseOutcome(p, [], [], null).outcome).toBeNull();
+    });
+
+    it('takes the promiser\'s last self-report before the judgment as its confidence', () => {
+        const p = promise('fulfilled', '2026-01-03T00:00:00.000Z');
+        const selfReport = (confidenceInCompletion: number, timestamp: string) => ({
+            ...createWorkReport({ agent: 'cursor', role: 'actor' }, p.id, { workCompleted: 'Fix', confidenceInCompletion }),
+            timestamp,
+        });
+        const reports = [
+            selfReport(0.6, '2026-01-01T12:00:00.000Z'),
+            selfReport(0.9, '2026-01-02T00:00:00.000Z'),
+            verdict(p, 'fulfilled', '2026-01-03T00:00:00.000Z'),
+            selfReport(0.1, '2026-01-04T00:00:00.000Z'),
+        ];
+        expect(getPromiseOutcome(p, reports, [], null).confidence).toBe(0.9);
+    });
+});
+
+describe('computeScorecardStats', () => {
+    it('counts a promise judged before its withdrawal as judged, not withdrawn', () => {
+        const judged = promise('withdrawn', '2026-01-03T00:00:00.000Z');
+        const unjudged = promise('withdrawn', '2026-01-03T00:00:00.000Z');
+        const stats = computeScorecardStats([
+            getPromiseOutcome(judged, [verdict(judged, 'broken', '2026-01-02T00:00:00.000Z')], [], null),
+            getPromiseOutcome(unjudged, [], [], null),
+        ]);
+        expect(stats).toMatchObject({ promises: 2, withdrawn: 1, judged: 1, broken: 1, brokenRate: 1 });
+    });
+});
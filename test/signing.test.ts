@@ -0,0 +1,133 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig, LedgerEntry } from '../src/types.js';
+import { createDefaultConfig, saveConfig } from '../src/config.js';
+import { LEDGERSYNC_DIR, appendEntry, createEntry, getLedgerPath, readLedger, validateLedger } from '../src/ledger.js';
+import {
+    canonicalJson,
+    checkEntrySignature,
+    encodePublicKey,
+    generateSigningKey,
+    loadSigningKey,
+    signRecord,
+    verifyRecordSignature,
+} from '../src/signing.js';
+
+let root: string;
+let keysDir: string;
+let publicKey: string;
+let config: LedgerConfig;
+
+function entryBy(agent: string): LedgerEntry {
+    return createEntry({ name: agent }, { type: 'modify', summary: 'Change auth' }, { intent: 'Fix login' });
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-signing-'));
+    keysDir = path.join(root, 'keys');
+    fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+
+    publicKey = generateSigningKey('alice', keysDir).publicKey;
+    config = { ...createDefaultConfig('Test'), signing: { keys: { alice: publicKey } } };
+    saveConfig(root, config);
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('signRecord and verifyRecordSignature', () => {
+    it('verifies a record signed with a trusted key', () => {
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        expect(verifyRecordSignature(signed, 'alice', config).status).toBe('valid');
+    });
+
+    it('ignores field order and the chain hash', () => {
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        const reordered = { prevHash: 'abc', ...JSON.parse(canonicalJson(signed)) };
+        expect(verifyRecordSignature(reordered, 'alice', config).status).toBe('valid');
+    });
+
+    it('reports unsigned records', () => {
+        expect(verifyRecordSignature(entryBy('alice'), 'alice', config).status).toBe('unsigned');
+    });
+
+    it('rejects a record edited after signing', () => {
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        const tampered = { ...signed, action: { ...signed.action, summary: 'Something else' } };
+        expect(verifyRecordSignature(tampered, 'alice', config).status).toBe('invalid');
+    });
+
+    it('rejects a key config.yaml does not list for the agent', () => {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519');
+        const signed = signRecord(entryBy('alice'), privateKey);
+        expect(verifyRecordSignature(signed, 'alice', config).status).toBe('untrusted');
+
+        // Alice's key doesn't vouch for anyone else
+        const asBob = signRecord(entryBy('bob'), loadSigningKey('alice', keysDir));
+        expect(verifyRecordSignature(asBob, 'bob', config).status).toBe('untrusted');
+        expect(verifyRecordSignature(signed, 'alice', null).status).toBe('untrusted');
+    });
+
+    it('rejects a signature from another key with a trusted key ID', () => {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519');
+        const forged = signRecord(entryBy('alice'), privateKey);
+        const trusted = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        forged.signature = { ...forged.signature!, keyId: trusted.signature!.keyId };
+        expect(verifyRecordSignature(forged, 'alice', config).status).toBe('invalid');
+    });
+
+    it('derives the public key listed in config from the private key', () => {
+        expect(encodePublicKey(crypto.createPublicKey(loadSigningKey('alice', keysDir)))).toBe(publicKey);
+    });
+});
+
+describe('checkEntrySignature', () => {
+    it('accepts unsigned and validly signed entries', () => {
+        expect(checkEntrySignature(entryBy('alice'), config)).toBeNull();
+        expect(checkEntrySignature(signRecord(entryBy('alice'), loadSigningKey('alice', keysDir)), config)).toBeNull();
+    });
+
+    it('explains untrusted and invalid signatures', () => {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519');
+        expect(checkEntrySignature(signRecord(entryBy('alice'), privateKey), config)).toMatch(/doesn't trust/);
+
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        expect(checkEntrySignature({ ...signed, tags: ['edited'] }, config)).toMatch(/doesn't verify/);
+    });
+});
+
+describe('ledger signatures', () => {
+    it('appends signed entries that verify', () => {
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        appendEntry(root, signed);
+        appendEntry(root, entryBy('bob'));
+
+        expect(readLedger(root)).toHaveLength(2);
+        expect(validateLedger(root)).toEqual({ valid: true, errors: [], entries: 2 });
+    });
+
+    it('refuses to append entries with an untrusted or invalid signature', () => {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519');
+        expect(() => appendEntry(root, signRecord(entryBy('alice'), privateKey))).toThrow(/Rejected entry/);
+
+        const signed = signRecord(entryBy('alice'), loadSigningKey('alice', keysDir));
+        expect(() => appendEntry(root, { ...signed, tags: ['edited'] })).toThrow(/Rejected entry/);
+        expect(fs.existsSync(getLedgerPath(root))).toBe(false);
+    });
+
+    it('reports entries whose signature stopped verifying', () => {
+        appendEntry(root, signRecord(entryBy('alice'), loadSigningKey('alice', keysDir)));
+
+        // Trust a different key for alice after the fact
+        const { publicKey: other } = crypto.generateKeyPairSync('ed25519');
+        saveConfig(root, { ...config, signing: { keys: { alice: encodePublicKey(other) } } });
+
+        const result = validateLedger(root);
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([expect.stringMatching(/^Line 1: .*doesn't trust/)]);
+    });
+});
@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LedgerConfig, PromiseEntry, VerdictStatus, WorkReport } from '../src/types.js';
+import { createDefaultConfig, saveConfig } from '../src/config.js';
+import { LEDGERSYNC_DIR } from '../src/ledger.js';
+import { appendPromise, createPromise, getPromiseById, withdrawPromise } from '../src/promises.js';
+import { addVerdict, appendReport, createVerdictReport, readReports, validateReports } from '../src/reports.js';
+import { generateSigningKey, loadSigningKey, signRecord } from '../src/signing.js';
+import { checkVerdictAuthorization, tallyVerdicts } from '../src/verdicts.js';
+
+let root: string;
+let keysDir: string;
+let config: LedgerConfig;
+let promise: PromiseEntry;
+
+function verdict(agent: string, role: 'human' | 'witness', status: VerdictStatus = 'fulfilled'): WorkReport {
+    return createVerdictReport({ agent, role }, promise.id, { status, reasoning: 'Checked the login flow' });
+}
+
+function configure(changes: Partial<LedgerConfig>): void {
+    config = { ...config, ...changes };
+    saveConfig(root, config);
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ledgersync-verdicts-'));
+    keysDir = path.join(root, 'keys');
+    fs.mkdirSync(path.join(root, LEDGERSYNC_DIR));
+
+    config = {
+        ...createDefaultConfig('Test'),
+        signing: { keys: { cursor: generateSigningKey('cursor', keysDir).publicKey } },
+    };
+    saveConfig(root, config);
+
+    promise = createPromise({ agent: 'cursor' }, { agent: '*' }, { type: 'will-do', summary: 'Ship the login fix' });
+    appendPromise(root, promise);
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('checkVerdictAuthorization', () => {
+    it('accepts witness and human verdicts on someone else\'s promise', () => {
+        expect(checkVerdictAuthorization(verdict('claude', 'witness'), promise, config)).toBeNull();
+        expect(checkVerdictAuthorization(verdict('alice', 'human'), promise, config)).toBeNull();
+    });
+
+    it('rejects verdicts from actors', () => {
+        const report = { ...verdict('claude', 'witness'), reporter: { agent: 'claude', role: 'actor' as const } };
+        expect(checkVerdictAuthorization(report, promise, config)).toMatch(/actor/);
+    });
+
+    it('rejects the promiser witnessing its own promise, signed or not', () => {
+        expect(checkVerdictAuthorization(verdict('cursor', 'witness'), promise, config)).toMatch(/own promise/);
+        const signed = signRecord(verdict('cursor', 'witness'), loadSigningKey('cursor', keysDir));
+        expect(checkVerdictAuthorization(signed, promise, config)).toMatch(/own promise/);
+    });
+
+    it('lets the promiser judge as a human only with a trusted signature', () => {
+        expect(checkVerdictAuthorization(verdict('cursor', 'human'), promise, config)).toMatch(/without a verdict signed/);
+        const signed = signRecord(verdict('cursor', 'human'), loadSigningKey('cursor', keysDir));
+        expect(checkVerdictAuthorization(signed, promise, config)).toBeNull();
+    });
+
+    it('accepts a proposed verdict from the promiser', () => {
+        const proposal = createVerdictReport({ agent: 'cursor', role: 'human' }, promise.id,
+            { status: 'fulfilled', reasoning: 'Done', proposed: true });
+        expect(checkVerdictAuthorization(proposal, promise, config)).toBeNull();
+    });
+
+    it('enforces the roles a matching policy allows', () => {
+        const humansOnly = { ...config, verdictPolicies: [{ id: 'humans', roles: ['human' as const] }] };
+        expect(checkVerdictAuthorization(verdict('claude', 'witness'), promise, humansOnly)).toMatch(/only accepts verdicts from: human/);
+        expect(checkVerdictAuthorization(verdict('alice', 'human'), promise, humansOnly)).toBeNull();
+    });
+});
+
+describe('appendReport', () => {
+    it('refuses unauthorized verdicts without writing them', () => {
+        expect(() => appendReport(root, verdict('cursor', 'witness'))).toThrow(/Rejected report: .*own promise/);
+        expect(() => appendReport(root, verdict('cursor', 'human'))).toThrow(/Rejected report: .*without a verdict signed/);
+        expect(readReports(root)).toEqual([]);
+    });
+
+    it('accepts the promiser\'s signed human verdict', () => {
+        appendReport(root, signRecord(verdict('cursor', 'human'), loadSigningKey('cursor', keysDir)));
+        expect(readReports(root)).toHaveLength(1);
+    });
+
+    it('refuses unsigned human verdicts when signatures are required', () => {
+        configure({ signing: { ...config.signing!, requireVerdictSignatures: true } });
+        expect(() => appendReport(root, verdict('alice', 'human'))).toThrow(/Unsigned human verdict by alice/);
+    });
+
+    it('refuses verdicts on unknown promises', () => {
+        const report = { ...verdict('alice', 'human'), promiseId: '00000000-0000-4000-8000-000000000000' };
+        expect(() => appendReport(root, report)).toThrow(/unknown promise/);
+    });
+});
+
+describe('quorum', () => {
+    beforeEach(() => {
+        configure({ verdictPolicies: [{ id: 'two-humans', quorum: 2, witnessesPerHuman: 2 }] });
+    });
+
+    it('leaves the promise active until the quorum is reached', () => {
+        const first = addVerdict(root, promise.id, 'fulfilled', 'Works', 'alice')!;
+        expect(first.tally.outcome).toBeNull();
+        expect(first.promise!.status).toBe('active');
+
+        const second = addVerdict(root, promise.id, 'fulfilled', 'Works', 'bob')!;
+        expect(second.tally.outcome).toBe('fulfilled');
+        expect(second.promise!.status).toBe('fulfilled');
+        expect(second.promise!.resolvedBy).toBe(second.report.id);
+    });
+
+    it('counts witnessesPerHuman witness verdicts as one human verdict', () => {
+        addVerdict(root, promise.id, 'broken', 'Fails', 'alice');
+        addVerdict(root, promise.id, 'broken', 'Fails', 'claude', { role: 'witness' });
+        expect(getPromiseById(root, promise.id)!.status).toBe('active');
+
+        const last = addVerdict(root, promise.id, 'broken', 'Fails', 'gemini', { role: 'witness' })!;
+        expect(last.tally.weights.broken).toBe(2);
+        expect(last.promise!.status).toBe('broken');
+    });
+
+    it('counts only each reporter\'s latest verdict', () => {
+        addVerdict(root, promise.id, 'fulfilled', 'Works', 'alice');
+        addVerdict(root, promise.id, 'fulfilled', 'Works after all', 'alice');
+        expect(getPromiseById(root, promise.id)!.status).toBe('active');
+
+        const tally = tallyVerdicts(promise, readReports(root), config);
+        expect(tally.verdicts).toHaveLength(1);
+        expect(tally.weights.fulfilled).toBe(1);
+    });
+
+    it('ignores unauthorized verdicts written around appendReport', () => {
+        const reports = [verdict('cursor', 'human'), verdict('cursor', 'witness'), verdict('alice', 'human')];
+        expect(tallyVerdicts(promise, reports, { ...config, verdictPolicies: [] }).verdicts).toEqual([reports[2]]);
+    });
+});
+
+describe('validateReports', () => {
+    it('reports a promise withdrawn after its verdicts reached a quorum', () => {
+        appendReport(root, verdict('alice', 'human', 'broken'));
+        withdrawPromise(root, promise.id, 'cursor');
+
+        expect(validateReports(root).errors).toEqual([
+            `Promise ${promise.id.slice(0, 8)} was withdrawn after verdicts had resolved it as broken`,
+        ]);
+    });
+
+    it('accepts a withdrawal before any quorum', () => {
+        configure({ verdictPolicies: [{ id: 'two-humans', quorum: 2 }] });
+        appendReport(root, verdict('alice', 'human', 'broken'));
+        withdrawPromise(root, promise.id, 'cursor');
+
+        expect(validateReports(root)).toEqual({ valid: true, errors: [] });
+    });
+});